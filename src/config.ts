@@ -1,12 +1,108 @@
 import { z } from "zod"
 import dotenv from "dotenv"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import type { BudgetConfig } from "./utils/budget.js"
 
 dotenv.config()
 
+const countryCodeSchema = z.enum(["NL", "DE"])
+
+const accountSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+  countryCode: countryCodeSchema.default("NL"),
+})
+
+const accountsSchema = z.record(accountSchema)
+
+const toolListSchema = z.string().transform((val) =>
+  val
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean),
+)
+
+// Amount in euros, e.g. "150" or "82.50", converted to cents
+const euroAmountSchema = z.string().transform((val, ctx) => {
+  const euros = Number(val)
+  if (!val.trim() || !Number.isFinite(euros) || euros < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid amount in euros: '${val}'` })
+    return z.NEVER
+  }
+  return Math.round(euros * 100)
+})
+
+const budgetModeSchema = z.enum(["warn", "block"])
+
+// Optional JSON config file (PICNIC_CONFIG_FILE) for settings that don't fit in env vars
+const fileConfigSchema = z.object({
+  defaultAccount: z.string().optional(),
+  accounts: accountsSchema.optional(),
+  // Tool names or groups to expose, overridden by the PICNIC_*_TOOLS / PICNIC_READ_ONLY env vars
+  tools: z
+    .object({
+      readOnly: z.boolean().optional(),
+      enabled: z.array(z.string()).optional(),
+      disabled: z.array(z.string()).optional(),
+    })
+    .optional(),
+  // Spending limits in euros, overridden by the PICNIC_BUDGET_* env vars
+  budget: z
+    .object({
+      perOrder: z.number().min(0).optional(),
+      perWeek: z.number().min(0).optional(),
+      perMonth: z.number().min(0).optional(),
+      mode: budgetModeSchema.optional(),
+    })
+    .optional(),
+})
+
 const configSchema = z.object({
-  PICNIC_USERNAME: z.string(),
-  PICNIC_PASSWORD: z.string(),
-  PICNIC_COUNTRY_CODE: z.enum(["NL", "DE"]).default("NL"),
+  PICNIC_USERNAME: z.string().optional(),
+  PICNIC_PASSWORD: z.string().optional(),
+  PICNIC_COUNTRY_CODE: countryCodeSchema.default("NL"),
+  // JSON object of named accounts, e.g. {"nl":{"username":"...","password":"...","countryCode":"NL"}}
+  PICNIC_ACCOUNTS: z
+    .string()
+    .transform((val, ctx) => {
+      let value: unknown
+      try {
+        value = JSON.parse(val)
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `PICNIC_ACCOUNTS is not valid JSON: ${(error as Error).message}`,
+        })
+        return z.NEVER
+      }
+      const accounts = accountsSchema.safeParse(value)
+      if (!accounts.success) {
+        for (const issue of accounts.error.issues) {
+          ctx.addIssue({ ...issue, message: `Invalid PICNIC_ACCOUNTS: ${issue.message}` })
+        }
+        return z.NEVER
+      }
+      return accounts.data
+    })
+    .optional(),
+  PICNIC_DEFAULT_ACCOUNT: z.string().optional(),
+  PICNIC_CONFIG_FILE: z.string().optional(),
+  // Only expose tools that don't change anything (no cart changes, checkout, slot selection, ...)
+  PICNIC_READ_ONLY: z
+    .string()
+    .transform((val) => val === "true")
+    .optional(),
+  // Comma separated tool names or groups, e.g. "search,cart,picnic_get_deliveries"
+  PICNIC_ENABLED_TOOLS: toolListSchema.optional(),
+  PICNIC_DISABLED_TOOLS: toolListSchema.optional(),
+  // Spending limits in euros per order and per rolling 7 and 30 days
+  PICNIC_BUDGET_PER_ORDER: euroAmountSchema.optional(),
+  PICNIC_BUDGET_PER_WEEK: euroAmountSchema.optional(),
+  PICNIC_BUDGET_PER_MONTH: euroAmountSchema.optional(),
+  // "warn" reports going over budget, "block" refuses cart changes and checkouts that would
+  PICNIC_BUDGET_MODE: budgetModeSchema.optional(),
   ENABLE_HTTP_SERVER: z
     .string()
     .transform((val) => val === "true")
@@ -16,6 +112,141 @@ const configSchema = z.object({
     .transform((val) => parseInt(val, 10))
     .default("3000"),
   HTTP_HOST: z.string().default("localhost"),
+  // Comma separated API keys for the HTTP server, append ":readonly" to limit a key to read-only tools
+  HTTP_API_KEYS: z.string().optional(),
+  // Comma separated origins allowed to call the HTTP server from a browser
+  HTTP_CORS_ORIGINS: z
+    .string()
+    .transform((val) =>
+      val
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    )
+    .optional(),
+  // Public base URL of the HTTP server, e.g. https://picnic.example.com (defaults to http://HTTP_HOST:HTTP_PORT)
+  HTTP_PUBLIC_URL: z.string().url().optional(),
+  // OAuth for remote MCP clients: "local" runs the built-in authorization server, "external" verifies tokens of another issuer
+  OAUTH_MODE: z.enum(["local", "external"]).optional(),
+  // Comma separated users for the built-in authorization server, e.g. "alice:secret,bob:secret:readonly"
+  OAUTH_USERS: z.string().optional(),
+  OAUTH_ISSUER_URL: z.string().url().optional(),
+  OAUTH_INTROSPECTION_URL: z.string().url().optional(),
+  OAUTH_CLIENT_ID: z.string().optional(),
+  OAUTH_CLIENT_SECRET: z.string().optional(),
+  OAUTH_AUDIENCE: z.string().optional(),
+  // Reject HTTP sessions that don't bring their own Picnic credentials (multi-tenant deployments)
+  HTTP_REQUIRE_SESSION_CREDENTIALS: z
+    .string()
+    .transform((val) => val === "true")
+    .default("false"),
+  PICNIC_DATA_DIR: z.string().default(path.join(os.homedir(), ".mcp-picnic")),
+  PICNIC_SESSION_FILE: z.string().optional(),
+  // Defaults to $PICNIC_DATA_DIR/cart-snapshots.json
+  PICNIC_CART_SNAPSHOT_FILE: z.string().optional(),
+  // Defaults to $PICNIC_DATA_DIR/slot-preferences.json
+  PICNIC_SLOT_PREFERENCES_FILE: z.string().optional(),
+  PICNIC_PERSIST_SESSION: z
+    .string()
+    .transform((val) => val !== "false")
+    .default("true"),
+  // Maximum number of cached Picnic API responses per account, 0 disables the cache
+  PICNIC_CACHE_MAX_ENTRIES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .default("500"),
+  // Default minutes between two checks of a slot watch (picnic_watch_slots)
+  PICNIC_SLOT_WATCH_INTERVAL: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .default("5"),
+  // Seconds between two polls of a subscribed delivery tracking resource
+  PICNIC_TRACKING_INTERVAL: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .default("30"),
+  // Cache TTL overrides in seconds per client method, e.g. "search=60,getShoppingCart=0"
+  PICNIC_CACHE_TTLS: z
+    .string()
+    .transform((val) =>
+      Object.fromEntries(
+        val
+          .split(",")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const [method, seconds] = entry.split("=")
+            return [method.trim(), parseInt(seconds, 10) * 1000]
+          }),
+      ),
+    )
+    .optional(),
 })
 
 export const config = configSchema.parse(process.env)
+
+function loadConfigFile(filePath?: string): z.infer<typeof fileConfigSchema> {
+  if (!filePath) {
+    return {}
+  }
+  return fileConfigSchema.parse(JSON.parse(fs.readFileSync(filePath, "utf8")))
+}
+
+export const fileConfig = loadConfigFile(config.PICNIC_CONFIG_FILE)
+
+export interface PicnicAccountConfig {
+  name: string
+  username: string
+  password: string
+  countryCode: "NL" | "DE"
+}
+
+/**
+ * Resolve the configured Picnic accounts. PICNIC_USERNAME/PICNIC_PASSWORD define
+ * the "default" account, named accounts come from the config file and PICNIC_ACCOUNTS
+ * (env wins on name clashes).
+ */
+function resolveAccounts(): PicnicAccountConfig[] {
+  const accounts = new Map<string, PicnicAccountConfig>()
+
+  if (config.PICNIC_USERNAME && config.PICNIC_PASSWORD) {
+    accounts.set("default", {
+      name: "default",
+      username: config.PICNIC_USERNAME,
+      password: config.PICNIC_PASSWORD,
+      countryCode: config.PICNIC_COUNTRY_CODE,
+    })
+  }
+
+  for (const [name, account] of Object.entries({
+    ...fileConfig.accounts,
+    ...config.PICNIC_ACCOUNTS,
+  })) {
+    accounts.set(name, { name, ...account })
+  }
+
+  return Array.from(accounts.values())
+}
+
+export const picnicAccounts = resolveAccounts()
+
+export const defaultPicnicAccount =
+  config.PICNIC_DEFAULT_ACCOUNT || fileConfig.defaultAccount || picnicAccounts[0]?.name || "default"
+
+export const toolFilterConfig = {
+  readOnly: config.PICNIC_READ_ONLY ?? fileConfig.tools?.readOnly ?? false,
+  enabled: config.PICNIC_ENABLED_TOOLS ?? fileConfig.tools?.enabled,
+  disabled: config.PICNIC_DISABLED_TOOLS ?? fileConfig.tools?.disabled ?? [],
+}
+
+function toCents(euros?: number): number | undefined {
+  return euros === undefined ? undefined : Math.round(euros * 100)
+}
+
+// Spending limits in cents
+export const budgetConfig: BudgetConfig = {
+  perOrder: config.PICNIC_BUDGET_PER_ORDER ?? toCents(fileConfig.budget?.perOrder),
+  perWeek: config.PICNIC_BUDGET_PER_WEEK ?? toCents(fileConfig.budget?.perWeek),
+  perMonth: config.PICNIC_BUDGET_PER_MONTH ?? toCents(fileConfig.budget?.perMonth),
+  mode: config.PICNIC_BUDGET_MODE ?? fileConfig.budget?.mode ?? "warn",
+}
@@ -3,17 +3,27 @@
 import { StdioServer } from "./transports/stdio.js"
 import { StreamableHttpServer } from "./transports/streamable-http.js"
 import { config } from "./config.js"
-import { initializePicnicClient } from "./utils/picnic-client.js"
+import { getPicnicAccountNames, initializeAllPicnicClients } from "./utils/picnic-client.js"
+import { parseApiKeys } from "./utils/http-auth.js"
+import { getOAuthConfig } from "./utils/oauth.js"
 
 // Create and start the appropriate server
 async function runServer() {
-  await initializePicnicClient()
+  // Login failures are logged per account, the server still starts so the authentication tools stay reachable.
+  // An HTTP server may run without configured accounts when every session brings its own credentials.
+  if (!config.ENABLE_HTTP_SERVER || getPicnicAccountNames().length > 0) {
+    await initializeAllPicnicClients()
+  }
 
   if (config.ENABLE_HTTP_SERVER) {
     // Start HTTP server
     const server = new StreamableHttpServer({
       port: config.HTTP_PORT,
       host: config.HTTP_HOST,
+      requireSessionCredentials: config.HTTP_REQUIRE_SESSION_CREDENTIALS,
+      allowedOrigins: config.HTTP_CORS_ORIGINS,
+      auth: config.HTTP_API_KEYS ? { apiKeys: parseApiKeys(config.HTTP_API_KEYS) } : undefined,
+      oauth: getOAuthConfig(),
     })
 
     // Handle graceful shutdown for HTTP server
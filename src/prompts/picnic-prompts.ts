@@ -80,7 +80,7 @@ promptRegistry.register({
           role: "user" as const,
           content: {
             type: "text" as const,
-            text: `Create a budget-conscious shopping list for €${budget} per week for ${householdSize} people. Use picnic_search to find budget-friendly staples and picnic_add_to_cart to build the list while tracking costs.`,
+            text: `Create a budget-conscious shopping list for €${budget} per week for ${householdSize} people. Use picnic_search to find budget-friendly staples and picnic_add_to_cart to build the list while tracking costs. If a spending limit is configured, picnic_get_budget shows how much of it is left.`,
           },
         },
       ],
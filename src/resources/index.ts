@@ -1,5 +1,8 @@
 // Import resource examples to register them
 
+// Import Picnic resources
+import "./picnic-resources.js"
+
 // Uncomment to include custom resources
 // import "./custom-resources.js"
 
@@ -0,0 +1,63 @@
+import { resourceRegistry } from "./registry.js"
+import { getPicnicAccount, getPicnicAccountNames } from "../utils/picnic-client.js"
+import { SLOT_WATCH_RESOURCE_URI } from "../utils/slot-watcher.js"
+import { buildCalendar, fetchDeliveryEvents } from "../utils/calendar.js"
+
+// Status of the background slot watches, see picnic_watch_slots
+resourceRegistry.register({
+  uri: SLOT_WATCH_RESOURCE_URI,
+  name: "Delivery slot watches",
+  description:
+    "Status of the delivery slot watches per account and the matching slots found at their last check. Updated whenever a watch finds newly available slots.",
+  mimeType: "application/json",
+  handler: async () => {
+    const watches = getPicnicAccountNames().map((account) => ({
+      account,
+      watch: getPicnicAccount(account).slotWatcher.getStatus(),
+    }))
+    return {
+      contents: [
+        {
+          uri: SLOT_WATCH_RESOURCE_URI,
+          mimeType: "application/json",
+          text: JSON.stringify({ watches }, null, 2),
+        },
+      ],
+    }
+  },
+})
+
+// Live tracking of a delivery of the default account (or the HTTP session's own account)
+resourceRegistry.registerTemplate({
+  uriTemplate: "picnic://deliveries/{id}/tracking",
+  name: "Delivery tracking",
+  description:
+    "Status, delivery window, ETA and driver position of a delivery. Subscribe to get notified as the driver moves or the ETA changes.",
+  mimeType: "application/json",
+  handler: async ({ id }, uri) => {
+    const tracking = await getPicnicAccount().deliveryTracker.getTracking(id)
+    return {
+      contents: [{ uri, mimeType: "application/json", text: JSON.stringify(tracking, null, 2) }],
+    }
+  },
+  subscribe: ({ id }, onUpdate) => getPicnicAccount().deliveryTracker.subscribe(id, onUpdate),
+})
+
+// Upcoming deliveries as a calendar, for the default account (or the HTTP session's own account)
+resourceRegistry.register({
+  uri: "picnic://calendar.ics",
+  name: "Delivery calendar",
+  description:
+    "Upcoming delivery windows and the slot selected for the current cart as an iCalendar (ICS) file. Event UIDs are stable, so importing it again updates the events.",
+  mimeType: "text/calendar",
+  handler: async () => {
+    const account = getPicnicAccount()
+    await account.initialize()
+    const events = await fetchDeliveryEvents(account.getClient(), account.name)
+    return {
+      contents: [
+        { uri: "picnic://calendar.ics", mimeType: "text/calendar", text: buildCalendar(events) },
+      ],
+    }
+  },
+})
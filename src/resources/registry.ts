@@ -18,6 +18,27 @@ export interface ResourceContent {
   }>
 }
 
+/**
+ * A family of resources addressed by a URI template, e.g.
+ * "picnic://deliveries/{id}/tracking". Handlers get the template variables.
+ */
+export interface ResourceTemplateDefinition {
+  uriTemplate: string
+  name: string
+  description?: string
+  mimeType?: string
+  handler: (params: Record<string, string>, uri: string) => Promise<ResourceContent>
+  // Start watching a resource for resources/subscribe, calling onUpdate when it changes.
+  // Returns a function that stops watching.
+  subscribe?: (params: Record<string, string>, onUpdate: () => void) => () => void
+}
+
+interface StoredResourceTemplate {
+  definition: ResourceTemplateDefinition
+  pattern: RegExp
+  variables: string[]
+}
+
 // Type-erased version for storage
 interface StoredResourceDefinition {
   uri: string
@@ -30,11 +51,33 @@ interface StoredResourceDefinition {
 
 class ResourceRegistry {
   private resources = new Map<string, StoredResourceDefinition>()
+  private templates = new Map<string, StoredResourceTemplate>()
 
   register<TArgs>(resource: ResourceDefinition<TArgs>) {
     this.resources.set(resource.uri, resource as StoredResourceDefinition)
   }
 
+  registerTemplate(template: ResourceTemplateDefinition) {
+    const variables: string[] = []
+    // Every {variable} matches one path segment, everything else literally
+    const pattern = template.uriTemplate
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const variable = /^\{([^}]+)\}$/.exec(part)
+        if (variable) {
+          variables.push(variable[1])
+          return "([^/?#]+)"
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      })
+      .join("")
+    this.templates.set(template.uriTemplate, {
+      definition: template,
+      pattern: new RegExp(`^${pattern}$`),
+      variables,
+    })
+  }
+
   getResourceDefinitions() {
     const definitions: Record<string, unknown> = {}
     for (const [uri, resource] of this.resources) {
@@ -58,9 +101,22 @@ class ResourceRegistry {
     }))
   }
 
+  getResourceTemplatesList() {
+    return Array.from(this.templates.values()).map(({ definition }) => ({
+      uriTemplate: definition.uriTemplate,
+      name: definition.name,
+      description: definition.description,
+      mimeType: definition.mimeType,
+    }))
+  }
+
   async readResource(uri: string, args?: unknown): Promise<ResourceContent> {
     const resource = this.resources.get(uri)
     if (!resource) {
+      const match = this.matchTemplate(uri)
+      if (match) {
+        return await match.template.definition.handler(match.params, uri)
+      }
       throw new Error(`Unknown resource: ${uri}`)
     }
 
@@ -82,8 +138,36 @@ class ResourceRegistry {
     }
   }
 
+  /**
+   * Watch a resource for changes, returns a function that stops watching.
+   * Resources without a subscribe hook are accepted and notify on their own, if at all.
+   */
+  subscribe(uri: string, onUpdate: () => void): () => void {
+    if (this.resources.has(uri)) {
+      return () => {}
+    }
+    const match = this.matchTemplate(uri)
+    if (!match) {
+      throw new Error(`Unknown resource: ${uri}`)
+    }
+    return match.template.definition.subscribe?.(match.params, onUpdate) ?? (() => {})
+  }
+
   hasResource(uri: string): boolean {
-    return this.resources.has(uri)
+    return this.resources.has(uri) || this.matchTemplate(uri) !== undefined
+  }
+
+  private matchTemplate(uri: string) {
+    for (const template of this.templates.values()) {
+      const match = template.pattern.exec(uri)
+      if (match) {
+        const params = Object.fromEntries(
+          template.variables.map((name, index) => [name, decodeURIComponent(match[index + 1])]),
+        )
+        return { template, params }
+      }
+    }
+    return undefined
   }
 
   getResourceUris(): string[] {
@@ -1,3 +1,6 @@
+import { toolRegistry } from "./registry.js"
+import { toolFilterConfig } from "../config.js"
+
 // Import tool examples to register them
 
 // Import Picnic API tools
@@ -6,5 +9,8 @@ import "./picnic-tools.js"
 // Uncomment to include custom tools
 // import "./custom-tools.js"
 
+// Hide tools disabled by PICNIC_READ_ONLY, PICNIC_ENABLED_TOOLS and PICNIC_DISABLED_TOOLS
+toolRegistry.setToolFilter(toolFilterConfig)
+
 // Re-export the registry for use in the main server
-export { toolRegistry } from "./registry.js"
+export { toolRegistry }
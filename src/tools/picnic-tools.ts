@@ -1,80 +1,382 @@
 import { z } from "zod"
-import { toolRegistry } from "./registry.js"
-import { getPicnicClient, initializePicnicClient } from "../utils/picnic-client.js"
+import path from "path"
+import { isDeepStrictEqual } from "util"
+import { config, budgetConfig } from "../config.js"
+import { toolRegistry, ToolContentBlock, ToolResultWithContent } from "./registry.js"
+import { ToolError, ErrorCode, ErrorUtils } from "../types/errors.js"
+import {
+  getPicnicClient,
+  getPicnicAccount,
+  getPicnicAccountNames,
+  getDefaultPicnicAccountName,
+  initializePicnicClient,
+  getPicnicAuthState,
+  isAnyPicnicAccountAuthenticated,
+  onPicnicAuthStateChange,
+  generateTwoFactorCode,
+  verifyTwoFactorCode,
+} from "../utils/picnic-client.js"
+import { fetchProductImage, IMAGE_SIZES } from "../utils/images.js"
+import { UNIT_TYPES, getUnitPrices } from "../utils/unit-quantity.js"
+import { CartSnapshotStore, CartSnapshotItem, diffCartItems } from "../utils/cart-snapshots.js"
+import { CartTarget, getCartQuantities, planCartUpdate } from "../utils/cart-updates.js"
+import { CART_DETAIL_LEVELS, CartData, filterCartData } from "../utils/cart-data.js"
+import {
+  DELIVERY_DETAIL_LEVELS,
+  DELIVERY_STATUSES,
+  DeliveryDetailLevel,
+  filterDeliveryData,
+} from "../utils/delivery-data.js"
+import {
+  WEEKDAYS,
+  RankedSlot,
+  SlotPreferenceStore,
+  hasSlotPreferences,
+  rankSlots,
+} from "../utils/slot-preferences.js"
+import { SLOT_WATCH_RESOURCE_URI } from "../utils/slot-watcher.js"
+import { buildCalendar, fetchDeliveryEvents } from "../utils/calendar.js"
+import {
+  BudgetStatus,
+  checkBudget,
+  describeOverage,
+  estimateOrderTotal,
+  hasBudget,
+  needsDeliveryHistory,
+} from "../utils/budget.js"
+import {
+  SORT_MODES,
+  filterProducts,
+  sortProducts,
+  rankByUnitPrice,
+} from "../utils/product-filters.js"
 
 /**
  * Picnic API tools optimized for LLM consumption
  *
  * Optimizations applied:
  * - Search results are filtered to essential fields only (id, name, price, unit, image_id)
- * - Pagination added to search and deliveries tools to prevent context overflow
+ * - Search, deliveries and categories are paginated with cursors to prevent context overflow
  * - Cart data is filtered to reduce verbosity while keeping essential information
  * - Default limits set to reasonable values (10 for search, 10 for deliveries)
  */
 
 // Helper function to ensure client is initialized
-async function ensureClientInitialized() {
+async function ensureClientInitialized(account?: string) {
   try {
-    getPicnicClient()
+    getPicnicClient(account)
   } catch (error) {
+    // Unknown account or pending 2FA, initializing again would not help
+    if (ErrorUtils.isMCPError(error)) {
+      throw error
+    }
     // Client not initialized, initialize it now
-    await initializePicnicClient()
+    await initializePicnicClient(account)
   }
 }
 
-// Helper function to filter cart data for LLM consumption
-function filterCartData(cart: unknown) {
-  if (!cart || typeof cart !== "object") return cart
-
-  const cartObj = cart as {
-    items?: unknown[]
-    total_count?: number
-    total_price?: number
-    checkout_total_price?: number
-    total_savings?: number
-    [key: string]: unknown
+// Helper function to get an initialized client for the requested account
+async function getClient(account?: string) {
+  await ensureClientInitialized(account)
+  return getPicnicClient(account)
+}
+
+// Optional account selector accepted by every tool
+const accountArgument = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the Picnic account to use (see picnic_list_accounts). Defaults to the default account",
+  )
+
+// Optional cursor accepted by paginated tools
+const cursorArgument = z
+  .string()
+  .optional()
+  .describe(
+    "Cursor from pagination.nextCursor to get the next page. Pass the same arguments as for the first page",
+  )
+
+/**
+ * Return a page of results. The first page loads the full result set, later
+ * pages are requested with the returned cursor and don't query Picnic again.
+ * Call after getClient() so the account is known to exist.
+ */
+function paginate<T>(
+  tool: string,
+  params: unknown,
+  args: { account?: string; cursor?: string; offset?: number; limit: number },
+  load: () => Promise<T[]>,
+) {
+  const scope = `${tool}:${JSON.stringify(params)}`
+  return getPicnicAccount(args.account).resultSets.paginate(scope, args, load)
+}
+
+// Optional flag for tools that can attach product images
+const thumbnailsArgument = z
+  .boolean()
+  .default(false)
+  .describe("Attach a small image of each product (adds to the response size, default: false)")
+
+// Each thumbnail adds to the context, so only the first ones are attached
+const MAX_THUMBNAILS = 20
+
+/**
+ * Fetch tiny product images as image content blocks, each preceded by a
+ * text block naming the product. Images that fail to load are left out.
+ */
+async function fetchThumbnails(
+  account: string | undefined,
+  products: { name?: string; image_id?: string }[],
+): Promise<ToolContentBlock[]> {
+  const client = await getClient(account)
+  const withImage = products.filter((product) => product.image_id).slice(0, MAX_THUMBNAILS)
+  const images = await Promise.allSettled(
+    withImage.map((product) => fetchProductImage(client.url, product.image_id!, "tiny")),
+  )
+
+  return images.flatMap((image, index): ToolContentBlock[] =>
+    image.status === "fulfilled"
+      ? [
+          { type: "text", text: `${withImage[index].name} (${withImage[index].image_id})` },
+          { type: "image", data: image.value.data, mimeType: image.value.mimeType },
+        ]
+      : [],
+  )
+}
+
+/**
+ * Essential fields of a Picnic product for LLM consumption, with its price
+ * normalized per kg, liter or piece when the unit quantity can be parsed
+ */
+function summarizeProduct(product: {
+  id: string
+  name: string
+  display_price?: number | string
+  unit_quantity?: string
+  image_id?: string
+}) {
+  return {
+    id: product.id,
+    name: product.name,
+    price: product.display_price,
+    unit: product.unit_quantity,
+    ...getUnitPrices(product.display_price, product.unit_quantity),
+    // Only include image_id if it exists, for potential image retrieval
+    ...(product.image_id && { image_id: product.image_id }),
   }
+}
 
-  // Cart structure: Order.items = OrderLine[], each OrderLine.items = OrderArticle[]
-  // Flatten to a simple product list with name, price, quantity
-  const filteredItems = (cartObj.items || []).flatMap((orderLine: unknown) => {
-    const line = orderLine as {
-      id?: string
-      items?: unknown[]
-      display_price?: number
-      price?: number
-      [key: string]: unknown
-    }
-
-    return (line.items || []).map((article: unknown) => {
-      const art = article as {
-        id?: string
-        name?: string
-        price?: number
-        unit_quantity?: string
-        image_ids?: string[]
-        [key: string]: unknown
-      }
+// Output schemas shared by several tools, prices are in cents
+const unitPriceFields = {
+  price_per_kg: z.number().optional(),
+  price_per_liter: z.number().optional(),
+  price_per_piece: z.number().optional(),
+}
 
-      return {
-        id: art.id,
-        name: art.name,
-        price: art.price,
-        unit: art.unit_quantity,
-        ...(art.image_ids?.[0] && { image_id: art.image_ids[0] }),
-      }
+const paginationSchema = z.object({
+  offset: z.number(),
+  limit: z.number(),
+  returned: z.number(),
+  total: z.number(),
+  hasMore: z.boolean(),
+  nextCursor: z.string().optional(),
+})
+
+const cartOutputSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.string().optional(),
+      name: z.string().optional(),
+      quantity: z.number(),
+      price: z.number().optional(),
+      line_price: z.number().optional(),
+      line_id: z.string().optional(),
+      line_discount: z.number().optional(),
+      promotions: z.array(z.string()).optional(),
+      unavailable: z
+        .object({
+          reason: z.string().optional(),
+          explanation: z.string().optional(),
+          replacements: z
+            .array(
+              z.object({
+                id: z.string().optional(),
+                name: z.string().optional(),
+                price: z.number().optional(),
+                unit: z.string().optional(),
+              }),
+            )
+            .optional(),
+        })
+        .optional(),
+      unit: z.string().optional(),
+      ...unitPriceFields,
+      base_price: z.string().optional(),
+      image_id: z.string().optional(),
+    }),
+  ),
+  total_count: z.number().optional(),
+  total_price: z.number().optional(),
+  checkout_total_price: z.number().optional(),
+  total_savings: z.number().optional(),
+  total_deposit: z.number().optional(),
+  unavailable_count: z.number().optional(),
+  deposits: z
+    .array(
+      z.object({
+        type: z.string().optional(),
+        value: z.number().optional(),
+        count: z.number().optional(),
+      }),
+    )
+    .optional(),
+  breakdown: z
+    .object({
+      products: z.number().optional(),
+      deposits: z.number().optional(),
+      fees_and_other: z.number().optional(),
+      savings: z.number().optional(),
+      checkout_total: z.number().optional(),
     })
-  })
+    .optional(),
+})
 
-  return {
-    items: filteredItems,
-    total_count: cartObj.total_count,
-    total_price: cartObj.total_price,
-    checkout_total_price: cartObj.checkout_total_price,
-    total_savings: cartObj.total_savings,
+const budgetStatusSchema = z.object({
+  withinBudget: z.boolean(),
+  mode: z.enum(["warn", "block"]),
+  limits: z.array(
+    z.object({
+      limit: z.enum(["per_order", "per_week", "per_month"]),
+      budget: z.number(),
+      spent: z.number(),
+      order: z.number(),
+      remaining: z.number(),
+      overage: z.number(),
+    }),
+  ),
+})
+
+const budgetWarningSchema = budgetStatusSchema.extend({ message: z.string() })
+
+/**
+ * Check an order total against the configured budget. Past deliveries are
+ * only fetched when there is a weekly or monthly limit.
+ */
+async function getBudgetStatus(account: string | undefined, orderTotal: number) {
+  const client = await getClient(account)
+  const deliveries = needsDeliveryHistory(budgetConfig) ? await client.getDeliveries() : []
+  return checkBudget(budgetConfig, orderTotal, deliveries)
+}
+
+// What checking out the cart would cost, including fees and deposits
+function getOrderTotal(cart: { checkout_total_price?: number; total_price?: number }): number {
+  return cart.checkout_total_price ?? cart.total_price ?? 0
+}
+
+function toBudgetWarning(status: BudgetStatus) {
+  return { message: `Over budget: ${describeOverage(status)}`, ...status }
+}
+
+/**
+ * Warning to include in the result of a cart change that took the cart over
+ * budget. Block mode refuses such changes up front, see assertCartBudget.
+ */
+async function getCartBudgetWarning(
+  account: string | undefined,
+  cart: CartData,
+): Promise<ReturnType<typeof toBudgetWarning> | undefined> {
+  if (!hasBudget(budgetConfig)) {
+    return undefined
+  }
+  const status = await getBudgetStatus(account, getOrderTotal(cart))
+  return status.withinBudget ? undefined : toBudgetWarning(status)
+}
+
+interface CartChange {
+  productId: string
+  count: number // Negative for removals
+  name?: string // To look up the price by searching when it isn't known yet
+  price?: number
+}
+
+// Price of an article in cents, from the cart, the products seen before or the given one
+async function getArticlePrice(
+  account: string | undefined,
+  cart: CartData,
+  change: CartChange,
+): Promise<number | undefined> {
+  const products = getPicnicAccount(account).products
+  const known = [
+    cart.items.find((item) => item.id === change.productId)?.price,
+    products.get(change.productId)?.price,
+    change.price,
+  ]
+    .map(Number)
+    .find((price) => Number.isFinite(price))
+  if (known !== undefined || !change.name) {
+    return known
+  }
+
+  // Picnic has no endpoint to get a product by ID, searching its name finds it
+  const client = await getClient(account)
+  const results = (await client.search(change.name)).map(summarizeProduct)
+  products.add(results)
+  const price = Number(results.find((product) => product.id === change.productId)?.price)
+  return Number.isFinite(price) ? price : undefined
+}
+
+/**
+ * In block mode, refuse a cart change before it's made when the cart would go
+ * over budget. The cart total afterwards is estimated from the current cart
+ * and the prices of the changed articles. Changes that only lower quantities
+ * are never refused.
+ */
+async function assertCartBudget(
+  account: string | undefined,
+  changes: CartChange[],
+  cart?: CartData,
+): Promise<void> {
+  if (
+    !hasBudget(budgetConfig) ||
+    budgetConfig.mode !== "block" ||
+    !changes.some((change) => change.count > 0)
+  ) {
+    return
+  }
+  if (!cart) {
+    const client = await getClient(account)
+    getPicnicAccount(account).cache.invalidate(["getShoppingCart"])
+    cart = filterCartData(await client.getShoppingCart())
+  }
+
+  const prices = new Map<string, number | undefined>()
+  for (const change of changes) {
+    prices.set(change.productId, await getArticlePrice(account, cart, change))
+  }
+  const total = estimateOrderTotal(getOrderTotal(cart), changes, (id) => prices.get(id))
+  if (total === undefined) {
+    const unknown = changes.filter((change) => prices.get(change.productId) === undefined)
+    throw new ToolError(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Cart change refused, the budget can't be checked without the price of ${unknown.map((change) => change.name ?? change.productId).join(", ")}. Search for the product first.`,
+      { products: unknown.map((change) => change.productId) },
+    )
+  }
+  const status = await getBudgetStatus(account, total)
+  if (!status.withinBudget) {
+    throw new ToolError(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Cart change refused, it would go over budget: ${describeOverage(status)}`,
+      { budget: status },
+    )
   }
 }
 
+// Only expose the authentication tools until a Picnic session is usable
+toolRegistry.setAuthenticationCheck(isAnyPicnicAccountAuthenticated)
+onPicnicAuthStateChange(() => toolRegistry.notifyToolsChanged())
+
 // Search products tool
 const searchInputSchema = z.object({
   query: z.string().describe("Search query for products"),
@@ -89,43 +391,109 @@ const searchInputSchema = z.object({
     .min(0)
     .default(0)
     .describe("Number of results to skip for pagination (default: 0)"),
+  cursor: cursorArgument,
+  minPrice: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Only include products costing at least this many cents"),
+  maxPrice: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Only include products costing at most this many cents (e.g. 300 for €3)"),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe('Only include products whose name contains all of these terms (e.g. ["bio"])'),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe("Leave out products whose name contains any of these terms"),
+  unitType: z
+    .enum(UNIT_TYPES)
+    .optional()
+    .describe("Only include products sold by weight, volume or piece"),
+  sort: z
+    .enum(SORT_MODES)
+    .default("relevance")
+    .describe(
+      "Order of the results: Picnic's relevance (default), price_asc, price_desc, unit_price (cheapest per kg, liter or piece first) or name",
+    ),
+  thumbnails: thumbnailsArgument,
+  account: accountArgument,
+})
+
+const searchOutputSchema = z.object({
+  query: z.string(),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      price: z.union([z.number(), z.string()]).optional(),
+      unit: z.string().optional(),
+      ...unitPriceFields,
+      image_id: z.string().optional(),
+    }),
+  ),
+  filters: z.object({
+    minPrice: z.number().optional(),
+    maxPrice: z.number().optional(),
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+    unitType: z.enum(UNIT_TYPES).optional(),
+    sort: z.enum(SORT_MODES),
+  }),
+  pagination: paginationSchema,
 })
 
 toolRegistry.register({
   name: "picnic_search",
-  description: "Search for products in Picnic with pagination and filtered results",
+  description:
+    "Search for products in Picnic with pagination, optionally filtered by price, name terms or unit type and sorted by price, price per unit or name",
   inputSchema: searchInputSchema,
+  outputSchema: searchOutputSchema,
+  group: "search",
+  annotations: {
+    title: "Search products",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const allResults = await client.search(args.query)
-
-    // Apply pagination
-    const startIndex = args.offset || 0
-    const limit = args.limit || 5
-    const paginatedResults = allResults.slice(startIndex, startIndex + limit)
-
-    // Filter results to only include essential data for LLM
-    const filteredResults = paginatedResults.map((product) => ({
-      id: product.id,
-      name: product.name,
-      price: product.display_price,
-      unit: product.unit_quantity,
-      // Only include image_id if it exists, for potential image retrieval
-      ...(product.image_id && { image_id: product.image_id }),
-    }))
+    const client = await getClient(args.account)
+    const { minPrice, maxPrice, include, exclude, unitType } = args
+    const filters = {
+      minPrice,
+      maxPrice,
+      include,
+      exclude,
+      unitType,
+      sort: args.sort || "relevance",
+    }
 
-    return {
-      query: args.query,
-      results: filteredResults,
-      pagination: {
-        offset: startIndex,
-        limit,
-        returned: filteredResults.length,
-        total: allResults.length,
-        hasMore: startIndex + limit < allResults.length,
+    // Filters and sorting apply to the whole result set, before it's split into pages
+    const { items, pagination } = await paginate(
+      "picnic_search",
+      { query: args.query, filters },
+      { ...args, limit: args.limit || 5 },
+      async () => {
+        const results = (await client.search(args.query)).map(summarizeProduct)
+        getPicnicAccount(args.account).products.add(results)
+        return sortProducts(filterProducts(results, filters), filters.sort)
       },
+    )
+
+    const result = {
+      query: args.query,
+      results: items,
+      filters,
+      pagination,
     }
+
+    if (!args.thumbnails) {
+      return result
+    }
+    return new ToolResultWithContent(result, await fetchThumbnails(args.account, items))
   },
 })
 
@@ -135,17 +503,13 @@ const searchMultiInputSchema = z.object({
     .array(
       z.object({
         query: z.string().describe("Search query"),
-        limit: z
-          .number()
-          .min(1)
-          .max(20)
-          .default(3)
-          .describe("Max results per query (default: 3)"),
-      })
+        limit: z.number().min(1).max(20).default(3).describe("Max results per query (default: 3)"),
+      }),
     )
     .min(1)
     .max(20)
     .describe("List of searches to perform in parallel"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
@@ -153,40 +517,132 @@ toolRegistry.register({
   description:
     "Search for multiple products in parallel. Use this instead of multiple picnic_search calls when you need to find several products at once (e.g. recipe ingredients, weekly groceries).",
   inputSchema: searchMultiInputSchema,
+  group: "search",
+  annotations: {
+    title: "Search multiple products",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
 
     const results = await Promise.all(
       args.queries.map(async ({ query, limit }) => {
-        const allResults = await client.search(query)
-        const filtered = allResults.slice(0, limit || 3).map((product) => ({
-          id: product.id,
-          name: product.name,
-          price: product.display_price,
-          unit: product.unit_quantity,
-          ...(product.image_id && { image_id: product.image_id }),
-        }))
-        return { query, results: filtered, total: allResults.length }
-      })
+        const allResults = (await client.search(query)).map(summarizeProduct)
+        getPicnicAccount(args.account).products.add(allResults)
+        return { query, results: allResults.slice(0, limit || 3), total: allResults.length }
+      }),
     )
 
     return { searches: results }
   },
 })
 
+// Compare products by normalized price
+const compareProductsInputSchema = z.object({
+  productIds: z
+    .array(z.string())
+    .min(2)
+    .max(20)
+    .describe("IDs of products from earlier search, category or cart results"),
+  account: accountArgument,
+})
+
+const compareProductsOutputSchema = z.object({
+  rankings: z.array(
+    z.object({
+      price_per: z.enum(["kg", "liter", "piece"]),
+      products: z.array(
+        z.object({
+          rank: z.number(),
+          id: z.string(),
+          name: z.string(),
+          price: z.union([z.number(), z.string()]).optional(),
+          unit: z.string().optional(),
+          unit_price: z.number(),
+        }),
+      ),
+    }),
+  ),
+  not_comparable: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      price: z.union([z.number(), z.string()]).optional(),
+      unit: z.string().optional(),
+    }),
+  ),
+  not_found: z.array(z.string()),
+})
+
+const PRICE_PER = { weight: "kg", volume: "liter", piece: "piece" } as const
+
+toolRegistry.register({
+  name: "picnic_compare_products",
+  description:
+    "Rank products by price per kg, liter or piece to find the best value across pack sizes. Only works on products returned by earlier searches, category details or the cart in this session, since Picnic can't look up a product by ID",
+  inputSchema: compareProductsInputSchema,
+  outputSchema: compareProductsOutputSchema,
+  group: "search",
+  annotations: {
+    title: "Compare products",
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const index = getPicnicAccount(args.account).products
+    const ids = [...new Set(args.productIds)]
+    const products = ids.flatMap((id) => {
+      const product = index.get(id)
+      return product ? [{ id, name: product.name, price: product.price, unit: product.unit }] : []
+    })
+    const notFound = ids.filter((id) => !index.get(id))
+    if (products.length < 2) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        "Fewer than two of these products are known. Products can only be compared after they " +
+          "showed up in search, category or cart results in this session, since Picnic can't " +
+          "look up a product by ID. Search for them first",
+        { not_found: notFound },
+      )
+    }
+
+    const { rankings, unranked } = rankByUnitPrice(products)
+    return {
+      rankings: rankings.map((ranking) => ({
+        price_per: PRICE_PER[ranking.unitType],
+        products: ranking.products.map(({ product, rank, unitPrice }) => ({
+          rank,
+          ...product,
+          unit_price: Math.round(unitPrice),
+        })),
+      })),
+      // Products without a price or with a unit quantity that couldn't be parsed
+      not_comparable: unranked,
+      // Unknown products need to be searched for first
+      not_found: notFound,
+    }
+  },
+})
+
 // Get product suggestions tool
 const suggestionsInputSchema = z.object({
   query: z.string().describe("Query for product suggestions"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_suggestions",
   description: "Get product suggestions based on a query",
   inputSchema: suggestionsInputSchema,
+  group: "search",
+  annotations: {
+    title: "Get search suggestions",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const suggestions = await client.getSuggestions(args.query)
     return {
       query: args.query,
@@ -201,27 +657,44 @@ toolRegistry.register({
 // Get product image tool
 const imageInputSchema = z.object({
   imageId: z.string().describe("The ID of the image to retrieve"),
-  size: z
-    .enum(["tiny", "small", "medium", "large", "extra-large"])
-    .describe("The size of the image"),
+  size: z.enum(IMAGE_SIZES).describe("The size of the image"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_image",
-  description: "Get image data for a product using the image ID and size",
+  description: "Get a product image using the image ID and size, returned as an image",
   inputSchema: imageInputSchema,
+  group: "search",
+  annotations: {
+    title: "Get product image",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const image = await client.getImage(args.imageId, args.size)
-    return {
-      imageId: args.imageId,
-      size: args.size,
-      image,
-    }
+    const client = await getClient(args.account)
+    const image = await fetchProductImage(client.url, args.imageId, args.size)
+    return new ToolResultWithContent(
+      { imageId: args.imageId, size: args.size, mimeType: image.mimeType },
+      [{ type: "image", data: image.data, mimeType: image.mimeType }],
+    )
   },
 })
 
+// Category tree returned by getCategories, items are subcategories or products
+interface CatalogCategory {
+  id?: string
+  name?: string
+  type?: string
+  level?: number
+  image_id?: string
+  items?: CatalogCategory[]
+}
+
+interface CategoriesResult {
+  catalog?: CatalogCategory[]
+}
+
 // Get categories tool
 toolRegistry.register({
   name: "picnic_get_categories",
@@ -234,21 +707,36 @@ toolRegistry.register({
       .default(0)
       .describe("Category depth (0=top level, 1=with subcategories)"),
     limit: z.number().min(1).max(20).default(8).describe("Maximum categories to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .describe("Number of categories to skip for pagination (default: 0)"),
+    cursor: cursorArgument,
     includeImages: z.boolean().default(false).describe("Include image IDs"),
     useCase: z
       .enum(["browse", "search", "detailed"])
       .default("browse")
       .describe("Optimize for use case"),
+    account: accountArgument,
   }),
+  group: "search",
+  annotations: {
+    title: "Get categories",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const categories = await client.getCategories(args.depth)
-
-    const catalogArray = (categories as any).catalog || []
+    const client = await getClient(args.account)
+    const { items, pagination } = await paginate(
+      "picnic_get_categories",
+      { depth: args.depth },
+      { ...args, limit: args.limit || 8 },
+      async () => ((await client.getCategories(args.depth)) as CategoriesResult).catalog || [],
+    )
 
     // Adjust filtering based on use case
-    const getFieldsForUseCase = (useCase: string) => {
+    const getFieldsForUseCase = (useCase: string): Array<keyof CatalogCategory | "items_count"> => {
       switch (useCase) {
         case "search":
           return ["id", "name", "type"] // Minimal for search filtering
@@ -261,14 +749,14 @@ toolRegistry.register({
 
     const relevantFields = getFieldsForUseCase(args.useCase || "browse")
 
-    const limitedCatalog = catalogArray.slice(0, args.limit || 8).map((category: any) => {
-      const filtered: any = {}
+    const catalog = items.map((category: CatalogCategory) => {
+      const filtered: Record<string, unknown> = {}
 
       relevantFields.forEach((field) => {
         if (field === "items_count") {
           filtered.items_count = category.items ? category.items.length : 0
         } else if (field === "items" && category.items && (args.depth || 0) > 0) {
-          filtered.items = category.items.slice(0, 3).map((item: any) => ({
+          filtered.items = category.items.slice(0, 3).map((item) => ({
             id: item.id,
             name: item.name,
             type: item.type,
@@ -286,18 +774,9 @@ toolRegistry.register({
     })
 
     return {
-      type: categories.type,
-      catalog: limitedCatalog,
-      meta: {
-        total_categories: catalogArray.length,
-        returned: limitedCatalog.length,
-        use_case: args.useCase,
-        truncated: catalogArray.length > (args.limit || 8),
-        next_page_hint:
-          catalogArray.length > (args.limit || 8)
-            ? `Use limit=${(args.limit || 8) * 2} to see more categories`
-            : null,
-      },
+      catalog,
+      use_case: args.useCase,
+      pagination,
     }
   },
 })
@@ -314,15 +793,21 @@ const categoryDetailsInputSchema = z.object({
     .max(3)
     .default(1)
     .describe("Category depth to fetch (0=top level, 1=with subcategories)"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_category_details",
   description: "Get detailed information about a specific category including its items",
   inputSchema: categoryDetailsInputSchema,
+  group: "search",
+  annotations: {
+    title: "Get category details",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
 
     // Find the category by ID (search recursively)
     const findCategory = (categories: any[], targetId: string): any => {
@@ -393,16 +878,17 @@ toolRegistry.register({
             }
           } else {
             // It's a product
+            const { image_id, ...product } = summarizeProduct(item)
             return {
-              id: item.id,
-              name: item.name,
+              ...product,
               type: item.type,
-              price: item.display_price,
-              unit: item.unit_quantity,
-              ...(args.includeImages && item.image_id && { image_id: item.image_id }),
+              ...(args.includeImages && image_id && { image_id }),
             }
           }
         })
+        getPicnicAccount(args.account).products.add(
+          items.filter((item: { type?: string }) => item.type !== "CATEGORY"),
+        )
 
         filteredCategory.items = items
         filteredCategory.items_count = categoryDetails.items.length
@@ -437,13 +923,78 @@ toolRegistry.register({
 // Get shopping cart tool
 toolRegistry.register({
   name: "picnic_get_cart",
-  description: "Get the current shopping cart contents with filtered data",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const cart = await client.getShoppingCart()
-    return filterCartData(cart)
+  description:
+    "Get the current shopping cart contents with quantities, line prices, promotions, unavailable products and a price breakdown",
+  inputSchema: z.object({
+    detail: z
+      .enum(CART_DETAIL_LEVELS)
+      .default("standard")
+      .describe(
+        "summary: names, quantities and cart totals only; standard: adds line and article prices, promotions and a price breakdown (default); full: adds replacements for unavailable products, base prices and deposits",
+      ),
+    thumbnails: thumbnailsArgument,
+    account: accountArgument,
+  }),
+  outputSchema: cartOutputSchema,
+  group: "cart",
+  annotations: {
+    title: "Get cart",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
+    const cart = filterCartData(await client.getShoppingCart(), args.detail)
+    if (args.detail !== "summary") {
+      getPicnicAccount(args.account).products.add(
+        cart.items.flatMap((item) =>
+          item.id && item.name ? [{ ...item, id: item.id, name: item.name }] : [],
+        ),
+      )
+    }
+
+    if (!args.thumbnails) {
+      return cart
+    }
+    return new ToolResultWithContent(cart, await fetchThumbnails(args.account, cart.items))
+  },
+})
+
+// Budget tool
+toolRegistry.register({
+  name: "picnic_get_budget",
+  description:
+    "Get the configured spending limits (per order and per rolling week and month), what was spent on past orders and how much budget remains after the current cart. Amounts are in cents.",
+  inputSchema: z.object({ account: accountArgument }),
+  outputSchema: z.object({
+    configured: z.boolean(),
+    message: z.string().optional(),
+    cart_total: z.number().optional(),
+    status: budgetStatusSchema.optional(),
+  }),
+  group: "cart",
+  annotations: {
+    title: "Get budget",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    if (!hasBudget(budgetConfig)) {
+      return {
+        configured: false,
+        message:
+          "No budget configured. Set PICNIC_BUDGET_PER_ORDER, PICNIC_BUDGET_PER_WEEK or PICNIC_BUDGET_PER_MONTH to enable one.",
+      }
+    }
+    const client = await getClient(args.account)
+    const cartTotal = getOrderTotal(filterCartData(await client.getShoppingCart(), "summary"))
+    const status = await getBudgetStatus(args.account, cartTotal)
+    return {
+      configured: true,
+      ...(!status.withinBudget && { message: `Over budget: ${describeOverage(status)}` }),
+      cart_total: cartTotal,
+      status,
+    }
   },
 })
 
@@ -451,19 +1002,30 @@ toolRegistry.register({
 const addToCartInputSchema = z.object({
   productId: z.string().describe("The ID of the product to add"),
   count: z.number().min(1).default(1).describe("Number of items to add"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_add_to_cart",
   description: "Add a product to the shopping cart",
   inputSchema: addToCartInputSchema,
+  group: "cart",
+  annotations: {
+    title: "Add to cart",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const cart = await client.addProductToShoppingCart(args.productId, args.count)
+    const client = await getClient(args.account)
+    await assertCartBudget(args.account, [{ productId: args.productId, count: args.count || 1 }])
+    const cart = filterCartData(await client.addProductToShoppingCart(args.productId, args.count))
+    const budgetWarning = await getCartBudgetWarning(args.account, cart)
     return {
       message: `Added ${args.count} item(s) to cart`,
-      cart: filterCartData(cart),
+      cart,
+      ...(budgetWarning && { budget_warning: budgetWarning }),
     }
   },
 })
@@ -472,15 +1034,23 @@ toolRegistry.register({
 const removeFromCartInputSchema = z.object({
   productId: z.string().describe("The ID of the product to remove"),
   count: z.number().min(1).default(1).describe("Number of items to remove"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_remove_from_cart",
   description: "Remove a product from the shopping cart",
   inputSchema: removeFromCartInputSchema,
+  group: "cart",
+  annotations: {
+    title: "Remove from cart",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const cart = await client.removeProductFromShoppingCart(args.productId, args.count)
     return {
       message: `Removed ${args.count} item(s) from cart`,
@@ -489,14 +1059,210 @@ toolRegistry.register({
   },
 })
 
+/**
+ * Bring the cart to target quantities with the fewest additions and removals.
+ * The targets are computed from the current quantities. Failed operations
+ * don't stop the others, each product gets its own result. In block mode
+ * nothing is changed when the additions would take the cart over budget.
+ */
+async function applyCartTargets(
+  account: string | undefined,
+  getTargets: (current: Map<string, number>) => CartTarget[],
+  products: Array<{ productId: string; name?: string; price?: number }> = [],
+) {
+  const client = await getClient(account)
+  // The additions and removals depend on the current cart, so don't use a cached one
+  getPicnicAccount(account).cache.invalidate(["getShoppingCart"])
+  const current = await client.getShoppingCart()
+  const previous = getCartQuantities(current)
+  const targets = getTargets(previous)
+  const operations = planCartUpdate(previous, targets)
+  await assertCartBudget(
+    account,
+    operations.map((operation) => ({
+      ...products.find((product) => product.productId === operation.productId),
+      productId: operation.productId,
+      count: operation.action === "add" ? operation.count : -operation.count,
+    })),
+    filterCartData(current),
+  )
+
+  // One at a time, Picnic applies cart changes to the cart state of the previous call
+  const errors = new Map<string, string>()
+  for (const operation of operations) {
+    try {
+      if (operation.action === "add") {
+        await client.addProductToShoppingCart(operation.productId, operation.count)
+      } else {
+        await client.removeProductFromShoppingCart(operation.productId, operation.count)
+      }
+    } catch (error) {
+      errors.set(operation.productId, ErrorUtils.getErrorMessage(error))
+    }
+  }
+
+  const cart = await client.getShoppingCart()
+  const final = getCartQuantities(cart)
+  const wanted = new Map(targets.map((target) => [target.productId, target.quantity]))
+  const results = [...wanted].map(([productId, target]) => {
+    const error = errors.get(productId)
+    return {
+      productId,
+      previous: previous.get(productId) ?? 0,
+      target,
+      final: final.get(productId) ?? 0,
+      action: operations.find((operation) => operation.productId === productId)?.action ?? "none",
+      success: !error && (final.get(productId) ?? 0) === target,
+      ...(error && { error }),
+    }
+  })
+
+  return { operations, results, cart: filterCartData(cart) }
+}
+
+/**
+ * Budget warning after applyCartTargets raised any quantity. Carts that only
+ * shrank are never reported.
+ */
+function getCartTargetsBudgetWarning(
+  account: string | undefined,
+  cart: CartData,
+  results: Array<{ previous: number; final: number }>,
+) {
+  if (!results.some((result) => result.final > result.previous)) {
+    return Promise.resolve(undefined)
+  }
+  return getCartBudgetWarning(account, cart)
+}
+
+// Set exact cart quantities tool
+const updateCartInputSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().describe("The ID of the product"),
+        quantity: z
+          .number()
+          .int()
+          .min(0)
+          .describe("Number of items that should be in the cart (0 removes the product)"),
+      }),
+    )
+    .min(1)
+    .max(50)
+    .describe("Target quantities, products not listed are left as they are"),
+  account: accountArgument,
+})
+
+const updateCartOutputSchema = z.object({
+  message: z.string(),
+  results: z.array(
+    z.object({
+      productId: z.string(),
+      previous: z.number(),
+      target: z.number(),
+      final: z.number(),
+      action: z.enum(["add", "remove", "none"]),
+      success: z.boolean(),
+      error: z.string().optional(),
+    }),
+  ),
+  cart: cartOutputSchema,
+  budget_warning: budgetWarningSchema.optional(),
+})
+
+toolRegistry.register({
+  name: "picnic_update_cart",
+  description:
+    "Set exact quantities for one or more products in the cart in one call, e.g. for a whole shopping list. Only the needed additions and removals are made; returns a result per product and the final cart",
+  inputSchema: updateCartInputSchema,
+  outputSchema: updateCartOutputSchema,
+  group: "cart",
+  annotations: {
+    title: "Update cart",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const { operations, results, cart } = await applyCartTargets(args.account, () => args.items)
+    const budgetWarning = await getCartTargetsBudgetWarning(args.account, cart, results)
+    const failed = results.filter((result) => !result.success).length
+
+    return {
+      message:
+        failed === 0
+          ? `Updated ${operations.length} of ${results.length} product(s), the others were already at their quantity`
+          : `${failed} of ${results.length} product(s) could not be set to their quantity`,
+      results,
+      cart,
+      ...(budgetWarning && { budget_warning: budgetWarning }),
+    }
+  },
+})
+
+/**
+ * Refuse a confirmed call when the fields the user confirmed in the preview
+ * differ from a new preview of the current state, returning the new preview
+ */
+function assertPreviewUnchanged(
+  toolName: string,
+  confirmedPreview: unknown,
+  currentPreview: Record<string, unknown>,
+  fields: string[],
+) {
+  const confirmed = (confirmedPreview ?? {}) as Record<string, unknown>
+  const changed = fields.filter(
+    (field) => !isDeepStrictEqual(confirmed[field], currentPreview[field]),
+  )
+  if (changed.length > 0) {
+    throw new ToolError(
+      ErrorCode.TOOL_VALIDATION_FAILED,
+      `The ${changed.join(", ")} changed since the preview, nothing was done. Show the new preview to the user and call ${toolName} again without confirmation_token to confirm it.`,
+      { changed, preview: currentPreview },
+    )
+  }
+}
+
+async function getClearCartPreview(account: string | undefined) {
+  const client = await getClient(account)
+  // The preview has to show the cart as it is now, not a cached one
+  getPicnicAccount(account).cache.invalidate(["getShoppingCart"])
+  const cart = filterCartData(await client.getShoppingCart(), "summary")
+  return {
+    action: "Remove all items from the shopping cart",
+    item_count: cart.total_count,
+    total_price: cart.total_price,
+    items: cart.items.map((item) => item.name),
+    hint: "Use picnic_save_cart_snapshot first to be able to restore this cart later",
+  }
+}
+
 // Clear cart tool
 toolRegistry.register({
   name: "picnic_clear_cart",
   description: "Clear all items from the shopping cart",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  group: "cart",
+  annotations: {
+    title: "Clear cart",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  confirmationPreview: async (args) => getClearCartPreview(args.account),
+  handler: async (args, confirmedPreview) => {
+    // Only clear the cart the user saw, items may have been added since the preview
+    assertPreviewUnchanged(
+      "picnic_clear_cart",
+      confirmedPreview,
+      await getClearCartPreview(args.account),
+      ["item_count", "total_price", "items"],
+    )
+
+    const client = await getClient(args.account)
     const cart = await client.clearShoppingCart()
     return {
       message: "Shopping cart cleared",
@@ -505,15 +1271,248 @@ toolRegistry.register({
   },
 })
 
+// Cart snapshots, stored locally per Picnic user
+const cartSnapshots = new CartSnapshotStore(
+  config.PICNIC_CART_SNAPSHOT_FILE || path.join(config.PICNIC_DATA_DIR, "cart-snapshots.json"),
+)
+
+// Snapshots and slot preferences are kept per Picnic user, so accounts sharing a server don't see each other's
+async function getPicnicUserId(account?: string): Promise<string> {
+  const client = await getClient(account)
+  return (await client.getUserDetails()).user_id
+}
+
+async function loadSnapshot(userId: string, name: string) {
+  const snapshot = await cartSnapshots.load(userId, name)
+  if (!snapshot) {
+    throw new ToolError(
+      ErrorCode.TOOL_VALIDATION_FAILED,
+      `Cart snapshot '${name}' not found, use picnic_list_cart_snapshots to see the saved snapshots`,
+      { name },
+    )
+  }
+  return snapshot
+}
+
+// One item per product with its quantity and price, from a filtered cart
+function getSnapshotItems(cart: z.infer<typeof cartOutputSchema>): CartSnapshotItem[] {
+  const items = new Map<string, CartSnapshotItem>()
+  for (const item of cart.items) {
+    if (!item.id) continue
+    const existing = items.get(item.id)
+    items.set(item.id, {
+      productId: item.id,
+      name: item.name,
+      quantity: (existing?.quantity ?? 0) + item.quantity,
+      price: item.price,
+    })
+  }
+  return [...items.values()]
+}
+
+async function getLiveCart(account?: string) {
+  const client = await getClient(account)
+  return filterCartData(await client.getShoppingCart())
+}
+
+const snapshotNameArgument = z.string().min(1).max(100).describe("Name of the cart snapshot")
+
+toolRegistry.register({
+  name: "picnic_save_cart_snapshot",
+  description:
+    "Save the current cart (products, quantities, names and prices) under a name, to compare with or restore later",
+  inputSchema: z.object({
+    name: snapshotNameArgument,
+    overwrite: z
+      .boolean()
+      .default(false)
+      .describe("Replace an existing snapshot with the same name (default: false)"),
+    account: accountArgument,
+  }),
+  group: "cart",
+  annotations: {
+    title: "Save cart snapshot",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const userId = await getPicnicUserId(args.account)
+    if (!args.overwrite && (await cartSnapshots.load(userId, args.name))) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `Cart snapshot '${args.name}' already exists, pass overwrite: true to replace it`,
+        { name: args.name },
+      )
+    }
+
+    const cart = await getLiveCart(args.account)
+    const snapshot = {
+      name: args.name,
+      savedAt: new Date().toISOString(),
+      items: getSnapshotItems(cart),
+      totalPrice: cart.total_price,
+    }
+    await cartSnapshots.save(userId, snapshot)
+    return { message: `Cart saved as '${args.name}'`, snapshot }
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_list_cart_snapshots",
+  description: "List the saved cart snapshots, newest first",
+  inputSchema: z.object({ account: accountArgument }),
+  group: "cart",
+  annotations: {
+    title: "List cart snapshots",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const snapshots = await cartSnapshots.list(await getPicnicUserId(args.account))
+    return {
+      snapshots: snapshots.map((snapshot) => ({
+        name: snapshot.name,
+        savedAt: snapshot.savedAt,
+        products: snapshot.items.length,
+        total_quantity: snapshot.items.reduce((sum, item) => sum + item.quantity, 0),
+        total_price: snapshot.totalPrice,
+      })),
+    }
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_diff_cart_snapshots",
+  description:
+    "Compare two cart snapshots, or a snapshot with the current cart: added and removed products, changed quantities and price changes",
+  inputSchema: z.object({
+    from: snapshotNameArgument,
+    to: z
+      .string()
+      .optional()
+      .describe("Name of the snapshot to compare with, defaults to the current cart"),
+    account: accountArgument,
+  }),
+  group: "cart",
+  annotations: {
+    title: "Diff cart snapshots",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const userId = await getPicnicUserId(args.account)
+    const from = await loadSnapshot(userId, args.from)
+    let to: { items: CartSnapshotItem[]; totalPrice?: number }
+    if (args.to) {
+      to = await loadSnapshot(userId, args.to)
+    } else {
+      const cart = await getLiveCart(args.account)
+      to = { items: getSnapshotItems(cart), totalPrice: cart.total_price }
+    }
+
+    return {
+      from: args.from,
+      to: args.to ?? "current cart",
+      ...diffCartItems(from.items, to.items),
+      total_price: { from: from.totalPrice, to: to.totalPrice },
+    }
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_restore_cart_snapshot",
+  description:
+    "Restore a saved cart snapshot. 'replace' makes the cart exactly the snapshot (removing other products), 'merge' adds the snapshot's quantities on top of the current cart",
+  inputSchema: z.object({
+    name: snapshotNameArgument,
+    mode: z
+      .enum(["replace", "merge"])
+      .default("replace")
+      .describe("Replace the current cart or add to it (default: replace)"),
+    account: accountArgument,
+  }),
+  outputSchema: z.object({
+    message: z.string(),
+    results: updateCartOutputSchema.shape.results,
+    cart: cartOutputSchema,
+    budget_warning: budgetWarningSchema.optional(),
+  }),
+  group: "cart",
+  annotations: {
+    title: "Restore cart snapshot",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const snapshot = await loadSnapshot(await getPicnicUserId(args.account), args.name)
+
+    const { results, cart } = await applyCartTargets(
+      args.account,
+      (current) => {
+        const targets: CartTarget[] = snapshot.items.map((item) => ({
+          productId: item.productId,
+          quantity:
+            (args.mode === "merge" ? (current.get(item.productId) ?? 0) : 0) + item.quantity,
+        }))
+        if (args.mode !== "merge") {
+          const inSnapshot = new Set(snapshot.items.map((item) => item.productId))
+          for (const productId of current.keys()) {
+            if (!inSnapshot.has(productId)) targets.push({ productId, quantity: 0 })
+          }
+        }
+        return targets
+      },
+      snapshot.items,
+    )
+    const budgetWarning = await getCartTargetsBudgetWarning(args.account, cart, results)
+    const failed = results.filter((result) => !result.success).length
+
+    return {
+      message:
+        failed === 0
+          ? `Restored cart snapshot '${args.name}'`
+          : `Restored cart snapshot '${args.name}', but ${failed} product(s) could not be set to their quantity (e.g. no longer available)`,
+      results,
+      cart,
+      ...(budgetWarning && { budget_warning: budgetWarning }),
+    }
+  },
+})
+
 // Get delivery slots tool
+const deliverySlotsOutputSchema = z.object({
+  slots: z.array(
+    z.object({
+      slot_id: z.string().optional(),
+      date: z.string().optional(),
+      start: z.string().optional(),
+      end: z.string().optional(),
+      cut_off: z.string().optional(),
+      selected: z.boolean().optional(),
+    }),
+  ),
+  selected_slot_id: z.string().nullable(),
+  total_available: z.number(),
+})
+
 toolRegistry.register({
   name: "picnic_get_delivery_slots",
   description:
     "Get available delivery time slots. Returns slot_id (required for picnic_set_delivery_slot), window times, and availability.",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    var client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  outputSchema: deliverySlotsOutputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Get delivery slots",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    var client = await getClient(args.account)
     var result = (await client.getDeliverySlots()) as {
       delivery_slots?: {
         slot_id?: string
@@ -548,15 +1547,43 @@ toolRegistry.register({
 // Set delivery slot tool
 const setDeliverySlotInputSchema = z.object({
   slotId: z.string().describe("The ID of the delivery slot to select"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_set_delivery_slot",
   description: "Select a delivery time slot",
   inputSchema: setDeliverySlotInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Set delivery slot",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  confirmationPreview: async (args) => {
+    const client = await getClient(args.account)
+    const result = await client.getDeliverySlots()
+    const slot = result.delivery_slots?.find((s) => s.slot_id === args.slotId)
+    return {
+      action: "Select this delivery slot for the current order",
+      slot: slot
+        ? {
+            slot_id: slot.slot_id,
+            date: slot.window_start?.slice(0, 10),
+            start: slot.window_start?.slice(11, 16),
+            end: slot.window_end?.slice(11, 16),
+            cut_off: slot.cut_off_time?.slice(0, 16)?.replace("T", " "),
+            available: slot.is_available,
+          }
+        : null,
+      currently_selected_slot_id: result.selected_slot?.slot_id ?? null,
+      ...(!slot && { warning: "This slot is not among the available delivery slots" }),
+    }
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const result = await client.setDeliverySlot(args.slotId)
     return {
       message: "Delivery slot selected",
@@ -566,9 +1593,386 @@ toolRegistry.register({
   },
 })
 
+// Delivery slot preferences, stored locally per Picnic user
+const slotPreferences = new SlotPreferenceStore(
+  config.PICNIC_SLOT_PREFERENCES_FILE || path.join(config.PICNIC_DATA_DIR, "slot-preferences.json"),
+)
+
+const dateArgument = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+const timeArgument = z.string().regex(/^\d{2}:\d{2}$/, "Expected a time as HH:MM")
+
+const slotPreferencesSchema = z.object({
+  weekdays: z
+    .array(z.enum(WEEKDAYS))
+    .optional()
+    .describe("Preferred delivery days, e.g. ['saturday', 'sunday']"),
+  timeWindows: z
+    .array(z.object({ from: timeArgument, to: timeArgument }))
+    .optional()
+    .describe("Preferred delivery times, e.g. [{ from: '17:00', to: '21:00' }]"),
+  earliestDate: dateArgument.optional().describe("Don't deliver before this date (YYYY-MM-DD)"),
+  latestDate: dateArgument.optional().describe("Don't deliver after this date (YYYY-MM-DD)"),
+  avoidDates: z
+    .array(dateArgument)
+    .optional()
+    .describe("Dates to never deliver on (YYYY-MM-DD), e.g. when away"),
+})
+
+toolRegistry.register({
+  name: "picnic_get_slot_preferences",
+  description: "Get the stored delivery slot preferences used by picnic_select_best_slot",
+  inputSchema: z.object({ account: accountArgument }),
+  outputSchema: z.object({ configured: z.boolean(), preferences: slotPreferencesSchema }),
+  group: "delivery",
+  annotations: {
+    title: "Get slot preferences",
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const preferences = await slotPreferences.load(await getPicnicUserId(args.account))
+    return { configured: hasSlotPreferences(preferences), preferences }
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_set_slot_preferences",
+  description:
+    "Store delivery slot preferences: preferred weekdays and time windows, earliest and latest date and dates to avoid. Replaces the stored preferences, calling it without preferences removes them.",
+  inputSchema: slotPreferencesSchema.extend({ account: accountArgument }),
+  outputSchema: z.object({ message: z.string(), preferences: slotPreferencesSchema }),
+  group: "delivery",
+  annotations: {
+    title: "Set slot preferences",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async ({ account, ...preferences }) => {
+    if (
+      preferences.earliestDate &&
+      preferences.latestDate &&
+      preferences.earliestDate > preferences.latestDate
+    ) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `The earliest date ${preferences.earliestDate} is after the latest date ${preferences.latestDate}`,
+        { preferences },
+      )
+    }
+    const invalidWindow = preferences.timeWindows?.find((window) => window.from >= window.to)
+    if (invalidWindow) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `Time window ${invalidWindow.from}-${invalidWindow.to} ends before it starts`,
+        { preferences },
+      )
+    }
+
+    await slotPreferences.save(await getPicnicUserId(account), preferences)
+    return {
+      message: hasSlotPreferences(preferences)
+        ? "Slot preferences saved"
+        : "Slot preferences removed",
+      preferences,
+    }
+  },
+})
+
+// Available delivery slots ranked by the stored preferences, best first
+async function getRankedSlots(account?: string) {
+  const client = await getClient(account)
+  const [result, preferences] = await Promise.all([
+    client.getDeliverySlots(),
+    slotPreferences.load(await getPicnicUserId(account)),
+  ])
+  const slots = (result.delivery_slots ?? []).filter((slot) => slot.is_available)
+  return {
+    preferences,
+    ranking: rankSlots(slots, preferences),
+    selectedSlotId: result.selected_slot?.slot_id ?? null,
+  }
+}
+
+toolRegistry.register({
+  name: "picnic_select_best_slot",
+  description:
+    "Rank the available delivery slots against the stored slot preferences (see picnic_set_slot_preferences) and explain the score of each slot. With select: true the best slot is selected for the current order.",
+  inputSchema: z.object({
+    select: z.boolean().default(false).describe("Select the best slot for the current order"),
+    limit: z.number().min(1).max(50).default(5).describe("Number of ranked slots to return"),
+    account: accountArgument,
+  }),
+  group: "delivery",
+  annotations: {
+    title: "Select best delivery slot",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  // Only selecting the slot needs confirmation, like picnic_set_delivery_slot
+  confirmationPreview: async (args) => {
+    if (!args.select) {
+      return undefined
+    }
+    const { ranking, selectedSlotId } = await getRankedSlots(args.account)
+    const best = ranking.find((slot) => !slot.excluded)
+    if (!best) {
+      return undefined
+    }
+    return {
+      action: "Select this delivery slot for the current order",
+      slot: best,
+      currently_selected_slot_id: selectedSlotId,
+    }
+  },
+  handler: async (args, confirmedPreview) => {
+    const { preferences, ranking, selectedSlotId } = await getRankedSlots(args.account)
+    const best = ranking.find((slot) => !slot.excluded)
+    const excludedCount = ranking.filter((slot) => slot.excluded).length
+
+    // Only book the slot the user saw, availability may have changed since the preview
+    const previewedSlotId = (confirmedPreview as { slot?: RankedSlot } | undefined)?.slot?.slot_id
+    if (args.select && best?.slot_id && best.slot_id !== previewedSlotId) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        "The best delivery slot changed since the preview, nothing was selected. Call picnic_select_best_slot again without confirmation_token to get a new preview.",
+        { previewed_slot_id: previewedSlotId ?? null, best_slot_id: best.slot_id },
+      )
+    }
+
+    if (args.select && best?.slot_id) {
+      const client = await getClient(args.account)
+      await client.setDeliverySlot(best.slot_id)
+    }
+
+    const message = !best
+      ? "No available delivery slot matches the earliest, latest and avoided dates"
+      : args.select
+        ? `Selected the ${best.weekday} ${best.date} ${best.start}-${best.end} slot`
+        : `The best slot is ${best.weekday} ${best.date} ${best.start}-${best.end}, call again with select: true to select it`
+    return {
+      message,
+      ...(!hasSlotPreferences(preferences) && {
+        warning:
+          "No slot preferences stored, slots are ranked by time. Use picnic_set_slot_preferences to store them.",
+      }),
+      preferences,
+      best: best ?? null,
+      selected: Boolean(args.select && best),
+      selected_slot_id: args.select && best ? best.slot_id : selectedSlotId,
+      ranking: ranking.slice(0, args.limit),
+      total_available: ranking.length,
+      excluded: excludedCount,
+    }
+  },
+})
+
+// Background watch for newly available delivery slots
+toolRegistry.register({
+  name: "picnic_watch_slots",
+  description: `Watch the delivery slots in the background and notify (MCP log message and an update of the ${SLOT_WATCH_RESOURCE_URI} resource) when slots matching the filter become available, e.g. a full Saturday morning opening up. Matching means an allowed date, a preferred weekday and fully within a preferred time window. With autoBook: true the best new slot is selected for the current order, which ends the watch. Replaces a running watch of the account.`,
+  inputSchema: z.object({
+    filter: slotPreferencesSchema
+      .optional()
+      .describe("Slots to watch for, defaults to the stored slot preferences"),
+    intervalMinutes: z
+      .number()
+      .min(1)
+      .max(60)
+      .optional()
+      .describe(`Minutes between checks, defaults to ${config.PICNIC_SLOT_WATCH_INTERVAL}`),
+    autoBook: z
+      .boolean()
+      .default(false)
+      .describe("Select the best newly available slot for the current order"),
+    account: accountArgument,
+  }),
+  group: "delivery",
+  annotations: {
+    title: "Watch delivery slots",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  // Only booking automatically needs confirmation, like picnic_set_delivery_slot
+  confirmationPreview: async (args) => {
+    if (!args.autoBook) {
+      return undefined
+    }
+    return {
+      action:
+        "Watch the delivery slots and select the first newly available matching slot for the current order, without asking again",
+      filter: args.filter ?? (await slotPreferences.load(await getPicnicUserId(args.account))),
+    }
+  },
+  handler: async (args) => {
+    await getClient(args.account)
+    const filter = args.filter ?? (await slotPreferences.load(await getPicnicUserId(args.account)))
+    const intervalMinutes = args.intervalMinutes ?? config.PICNIC_SLOT_WATCH_INTERVAL
+    const matches = await getPicnicAccount(args.account).slotWatcher.start({
+      filter,
+      intervalMs: intervalMinutes * 60 * 1000,
+      autoBook: Boolean(args.autoBook),
+    })
+
+    return {
+      message: `Watching delivery slots every ${intervalMinutes} minute(s)${args.autoBook ? ", the best new matching slot will be selected" : ""}`,
+      ...(!hasSlotPreferences(filter) && {
+        warning: "No filter given or stored, any newly available slot is reported",
+      }),
+      filter,
+      resource: SLOT_WATCH_RESOURCE_URI,
+      // Newly available slots are reported, these already matched and can be selected right away
+      already_available: matches.slice(0, 5),
+    }
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_get_slot_watch",
+  description:
+    "Get the status of the delivery slot watch of an account: its filter, last check and the matching slots found",
+  inputSchema: z.object({ account: accountArgument }),
+  group: "delivery",
+  annotations: {
+    title: "Get slot watch",
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const status = getPicnicAccount(args.account).slotWatcher.getStatus()
+    if (!status) {
+      return { active: false, message: "No slot watch started, use picnic_watch_slots" }
+    }
+    return status
+  },
+})
+
+toolRegistry.register({
+  name: "picnic_stop_slot_watch",
+  description: "Stop the delivery slot watch of an account",
+  inputSchema: z.object({ account: accountArgument }),
+  group: "delivery",
+  annotations: {
+    title: "Stop slot watch",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const stopped = getPicnicAccount(args.account).slotWatcher.stop()
+    return { message: stopped ? "Slot watch stopped" : "No slot watch was running" }
+  },
+})
+
+// Calendar export tool
+toolRegistry.register({
+  name: "picnic_export_calendar",
+  description:
+    "Export the upcoming delivery windows and the slot selected for the current cart as an iCalendar (ICS) file, e.g. to import into a shared calendar. Event UIDs are stable, so importing a new export updates the events instead of duplicating them, and cancelled deliveries are marked as cancelled.",
+  inputSchema: z.object({ account: accountArgument }),
+  outputSchema: z.object({
+    event_count: z.number(),
+    events: z.array(
+      z.object({
+        uid: z.string(),
+        start: z.string(),
+        end: z.string(),
+        summary: z.string(),
+        status: z.string(),
+      }),
+    ),
+    filename: z.string(),
+    calendar: z.string(),
+  }),
+  group: "delivery",
+  annotations: {
+    title: "Export delivery calendar",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
+    const account = getPicnicAccount(args.account)
+    const events = await fetchDeliveryEvents(client, account.name)
+    return {
+      event_count: events.length,
+      events: events.map(({ uid, start, end, summary, status }) => ({
+        uid,
+        start,
+        end,
+        summary,
+        status,
+      })),
+      filename: "picnic-deliveries.ics",
+      calendar: buildCalendar(events),
+    }
+  },
+})
+
 // Get deliveries tool
+const deliveryDetailArgument = (defaultDetail: DeliveryDetailLevel) =>
+  z
+    .enum(DELIVERY_DETAIL_LEVELS)
+    .default(defaultDetail)
+    .describe(
+      `summary: status, window, ETA and totals${defaultDetail === "summary" ? " (default)" : ""}; standard: adds the most expensive articles, missing articles and returned containers${defaultDetail === "standard" ? " (default)" : ""}; full: adds all articles with their prices`,
+    )
+
+const deliveryOutputSchema = z.object({
+  delivery_id: z.string().optional(),
+  status: z.string().optional(),
+  window: z.object({ start: z.string().optional(), end: z.string().optional() }).optional(),
+  eta: z.object({ start: z.string().optional(), end: z.string().optional() }).optional(),
+  delivered_at: z.string().optional(),
+  created_at: z.string().optional(),
+  total_price: z.number().optional(),
+  item_count: z.number().optional(),
+  order_count: z.number(),
+  top_articles: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string().optional(),
+        quantity: z.number(),
+        line_price: z.number().optional(),
+      }),
+    )
+    .optional(),
+  missing_items: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string().optional(),
+        quantity: z.number(),
+        reason: z.string().optional(),
+      }),
+    )
+    .optional(),
+  returned_items: z
+    .array(
+      z.object({
+        type: z.string().optional(),
+        name: z.string().optional(),
+        quantity: z.number().optional(),
+        price: z.number().optional(),
+      }),
+    )
+    .optional(),
+  articles: cartOutputSchema.shape.items.optional(),
+})
+
 const deliveriesInputSchema = z.object({
-  filter: z.array(z.string()).default([]).describe("Filter deliveries by status"),
+  filter: z
+    .array(z.enum(DELIVERY_STATUSES))
+    .default([])
+    .describe("Only return deliveries with these statuses (default: all)"),
+  detail: deliveryDetailArgument("summary"),
   limit: z
     .number()
     .min(1)
@@ -580,31 +1984,37 @@ const deliveriesInputSchema = z.object({
     .min(0)
     .default(0)
     .describe("Number of deliveries to skip for pagination (default: 0)"),
+  cursor: cursorArgument,
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_deliveries",
-  description: "Get past and current deliveries with pagination",
+  description:
+    "Get past and current deliveries with pagination, as compact summaries with their status, delivery window, ETA and totals",
   inputSchema: deliveriesInputSchema,
+  outputSchema: z.object({
+    deliveries: z.array(deliveryOutputSchema),
+    pagination: paginationSchema,
+  }),
+  group: "delivery",
+  annotations: {
+    title: "Get deliveries",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const allDeliveries = await client.getDeliveries(args.filter as string[])
-
-    // Apply pagination
-    const startIndex = args.offset || 0
-    const limit = args.limit || 10
-    const paginatedDeliveries = allDeliveries.slice(startIndex, startIndex + limit)
+    const client = await getClient(args.account)
+    const { items, pagination } = await paginate(
+      "picnic_get_deliveries",
+      { filter: args.filter },
+      { ...args, limit: args.limit || 10 },
+      () => client.getDeliveries(args.filter),
+    )
 
     return {
-      deliveries: paginatedDeliveries,
-      pagination: {
-        offset: startIndex,
-        limit,
-        returned: paginatedDeliveries.length,
-        total: allDeliveries.length,
-        hasMore: startIndex + limit < allDeliveries.length,
-      },
+      deliveries: items.map((delivery) => filterDeliveryData(delivery, args.detail)),
+      pagination,
     }
   },
 })
@@ -612,17 +2022,25 @@ toolRegistry.register({
 // Get specific delivery tool
 const deliveryInputSchema = z.object({
   deliveryId: z.string().describe("The ID of the delivery to get details for"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_delivery",
-  description: "Get details of a specific delivery",
-  inputSchema: deliveryInputSchema,
+  description:
+    "Get details of a specific delivery: status, delivery window, ETA, totals, the most expensive articles, missing articles and returned containers",
+  inputSchema: deliveryInputSchema.extend({ detail: deliveryDetailArgument("standard") }),
+  outputSchema: deliveryOutputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Get delivery",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const delivery = await client.getDelivery(args.deliveryId)
-    return delivery
+    return filterDeliveryData(delivery, args.detail)
   },
 })
 
@@ -631,9 +2049,14 @@ toolRegistry.register({
   name: "picnic_get_delivery_position",
   description: "Get real-time position data for a delivery",
   inputSchema: deliveryInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Get delivery position",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const position = await client.getDeliveryPosition(args.deliveryId)
     return position
   },
@@ -644,9 +2067,14 @@ toolRegistry.register({
   name: "picnic_get_delivery_scenario",
   description: "Get driver and route information for a delivery",
   inputSchema: deliveryInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Get delivery scenario",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const scenario = await client.getDeliveryScenario(args.deliveryId)
     return scenario
   },
@@ -657,9 +2085,29 @@ toolRegistry.register({
   name: "picnic_cancel_delivery",
   description: "Cancel a delivery order",
   inputSchema: deliveryInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Cancel delivery",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  confirmationPreview: async (args) => {
+    const client = await getClient(args.account)
+    const delivery = await client.getDelivery(args.deliveryId)
+    return {
+      action: "Cancel this delivery and all of its orders",
+      delivery_id: delivery.delivery_id,
+      status: delivery.status,
+      window_start: delivery.slot?.window_start,
+      window_end: delivery.slot?.window_end,
+      item_count: delivery.orders?.reduce((sum, order) => sum + (order.total_count ?? 0), 0),
+      total_price: delivery.orders?.reduce((sum, order) => sum + (order.total_price ?? 0), 0),
+    }
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const result = await client.cancelDelivery(args.deliveryId)
     return {
       message: "Delivery cancelled",
@@ -673,15 +2121,23 @@ toolRegistry.register({
 const rateDeliveryInputSchema = z.object({
   deliveryId: z.string().describe("The ID of the delivery to rate"),
   rating: z.number().min(0).max(10).describe("Rating from 0 to 10"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_rate_delivery",
   description: "Rate a completed delivery",
   inputSchema: rateDeliveryInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Rate delivery",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const result = await client.setDeliveryRating(args.deliveryId, args.rating)
     return {
       message: `Delivery rated ${args.rating}/10`,
@@ -694,15 +2150,23 @@ toolRegistry.register({
 // Send delivery invoice email tool
 const sendInvoiceEmailInputSchema = z.object({
   deliveryId: z.string().describe("The ID of the delivery to send the invoice email for"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_send_delivery_invoice_email",
   description: "Send or resend the invoice email for a completed delivery",
   inputSchema: sendInvoiceEmailInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Send invoice email",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const result = await client.sendDeliveryInvoiceEmail(args.deliveryId)
     return {
       message: "Delivery invoice email sent",
@@ -715,15 +2179,21 @@ toolRegistry.register({
 // Get order status tool
 const orderStatusInputSchema = z.object({
   orderId: z.string().describe("The ID of the order to get the status for"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_order_status",
   description: "Get the status of a specific order",
   inputSchema: orderStatusInputSchema,
+  group: "delivery",
+  annotations: {
+    title: "Get order status",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const orderStatus = await client.getOrderStatus(args.orderId)
     return orderStatus
   },
@@ -733,10 +2203,15 @@ toolRegistry.register({
 toolRegistry.register({
   name: "picnic_get_user_details",
   description: "Get details of the current logged-in user",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  group: "account",
+  annotations: {
+    title: "Get user details",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
     const user = await client.getUserDetails()
     return user
   },
@@ -746,10 +2221,15 @@ toolRegistry.register({
 toolRegistry.register({
   name: "picnic_get_user_info",
   description: "Get user information including toggled features",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  group: "account",
+  annotations: {
+    title: "Get user info",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
     const userInfo = await client.getUserInfo()
     return userInfo
   },
@@ -758,15 +2238,21 @@ toolRegistry.register({
 // Get lists tool
 const listsInputSchema = z.object({
   depth: z.number().min(0).max(5).default(0).describe("List depth to retrieve"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_lists",
   description: "Get shopping lists and sublists",
   inputSchema: listsInputSchema,
+  group: "lists",
+  annotations: {
+    title: "Get lists",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const lists = await client.getLists(args.depth)
     return lists
   },
@@ -777,15 +2263,21 @@ const getListInputSchema = z.object({
   listId: z.string().describe("The ID of the list to get"),
   subListId: z.string().optional().describe("The ID of the sub list to get"),
   depth: z.number().min(0).max(5).default(0).describe("List depth to retrieve"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_list",
   description: "Get a specific list or sublist with its items",
   inputSchema: getListInputSchema,
+  group: "lists",
+  annotations: {
+    title: "Get list",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const list = await client.getList(args.listId, args.subListId || undefined, args.depth)
     return list
   },
@@ -795,10 +2287,15 @@ toolRegistry.register({
 toolRegistry.register({
   name: "picnic_get_mgm_details",
   description: "Get MGM (friends discount) details",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  group: "account",
+  annotations: {
+    title: "Get referral details",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
     const mgmDetails = await client.getMgmDetails()
     return mgmDetails
   },
@@ -808,10 +2305,15 @@ toolRegistry.register({
 toolRegistry.register({
   name: "picnic_get_payment_profile",
   description: "Get payment information and profile",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+  inputSchema: z.object({ account: accountArgument }),
+  group: "payment",
+  annotations: {
+    title: "Get payment profile",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    const client = await getClient(args.account)
     const paymentProfile = await client.getPaymentProfile()
     return paymentProfile
   },
@@ -820,15 +2322,21 @@ toolRegistry.register({
 // Get wallet transactions tool
 const walletTransactionsInputSchema = z.object({
   pageNumber: z.number().min(1).default(1).describe("Page number for transaction history"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_wallet_transactions",
   description: "Get wallet transaction history",
   inputSchema: walletTransactionsInputSchema,
+  group: "payment",
+  annotations: {
+    title: "Get wallet transactions",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const pageNumber = args.pageNumber ?? 1
     const transactions = await client.getWalletTransactions(pageNumber)
     return {
@@ -841,34 +2349,74 @@ toolRegistry.register({
 // Get wallet transaction details tool
 const walletTransactionDetailsInputSchema = z.object({
   transactionId: z.string().describe("The ID of the transaction to get details for"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_get_wallet_transaction_details",
   description: "Get detailed information about a specific wallet transaction",
   inputSchema: walletTransactionDetailsInputSchema,
+  group: "payment",
+  annotations: {
+    title: "Get wallet transaction details",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
     const details = await client.getWalletTransactionDetails(args.transactionId as string)
     return details
   },
 })
 
 // 2FA tools
+// These work before the client is authenticated: on a new device the login itself requires 2FA
+toolRegistry.register({
+  name: "picnic_get_auth_status",
+  description:
+    "Get the Picnic authentication status. When 2FA is pending, use picnic_generate_2fa_code and picnic_verify_2fa_code to finish logging in.",
+  inputSchema: z.object({ account: accountArgument }),
+  allowUnauthenticated: true,
+  group: "account",
+  annotations: {
+    title: "Get authentication status",
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const state = getPicnicAuthState(args.account)
+    return {
+      account: getPicnicAccount(args.account).name,
+      state,
+      next_step:
+        state === "authenticated"
+          ? null
+          : "Call picnic_generate_2fa_code to receive a code, then picnic_verify_2fa_code with that code.",
+    }
+  },
+})
+
 const generate2FAInputSchema = z.object({
   channel: z.string().default("SMS").describe("Channel to send 2FA code (SMS, etc.)"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_generate_2fa_code",
   description: "Generate a 2FA code for verification",
   inputSchema: generate2FAInputSchema,
+  allowUnauthenticated: true,
+  group: "account",
+  annotations: {
+    title: "Send 2FA code",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
     const channel = args.channel || "SMS"
-    const result = await client.generate2FACode(channel)
+    const result = await generateTwoFactorCode(channel, args.account)
     return {
       message: "2FA code generated and sent",
       channel,
@@ -879,24 +2427,92 @@ toolRegistry.register({
 
 const verify2FAInputSchema = z.object({
   code: z.string().describe("The 2FA code to verify"),
+  account: accountArgument,
 })
 
 toolRegistry.register({
   name: "picnic_verify_2fa_code",
-  description: "Verify a 2FA code",
+  description: "Verify a 2FA code. On success all Picnic tools become available.",
   inputSchema: verify2FAInputSchema,
+  allowUnauthenticated: true,
+  group: "account",
+  annotations: {
+    title: "Verify 2FA code",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
-    const result = await client.verify2FACode(args.code)
+    const result = await verifyTwoFactorCode(args.code, args.account)
     return {
       message: "2FA code verified",
       code: args.code,
+      state: getPicnicAuthState(args.account),
       result,
     }
   },
 })
 
+// List configured accounts tool
+toolRegistry.register({
+  name: "picnic_list_accounts",
+  description:
+    "List the configured Picnic accounts and their authentication status. Pass an account name as the 'account' argument of other tools to use it.",
+  inputSchema: z.object({}),
+  allowUnauthenticated: true,
+  group: "account",
+  annotations: {
+    title: "List accounts",
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  handler: async () => {
+    const defaultAccount = getDefaultPicnicAccountName()
+    return {
+      accounts: getPicnicAccountNames().map((name) => {
+        const account = getPicnicAccount(name)
+        return {
+          name,
+          country_code: account.countryCode,
+          state: account.getAuthState(),
+          default: name === defaultAccount,
+        }
+      }),
+    }
+  },
+})
+
+// Clear cache tool
+toolRegistry.register({
+  name: "picnic_clear_cache",
+  description:
+    "Clear cached Picnic responses (search results, categories, cart, delivery slots, deliveries, recipes) and pagination cursors so the next calls fetch fresh data",
+  inputSchema: z.object({ account: accountArgument }),
+  group: "debug",
+  annotations: {
+    title: "Clear cache",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (args) => {
+    const account = getPicnicAccount(args.account)
+    const stats = account.cache.getStats()
+    const resultSets = account.resultSets.size
+    account.cache.clear()
+    account.resultSets.clear()
+    return {
+      message: "Cache cleared",
+      account: account.name,
+      cleared_entries: stats.entries,
+      cleared_result_sets: resultSets,
+      stats: { hits: stats.hits, misses: stats.misses, evictions: stats.evictions },
+    }
+  },
+})
+
 // Replace the entire picnic_analyze_response_size tool with this:
 toolRegistry.register({
   name: "picnic_analyze_response_size",
@@ -917,10 +2533,16 @@ toolRegistry.register({
       ])
       .describe("API method to analyze"),
     params: z.record(z.unknown()).optional().describe("Parameters for the API call"),
+    account: accountArgument,
   }),
+  group: "debug",
+  annotations: {
+    title: "Analyze response size",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    await ensureClientInitialized()
-    const client = getPicnicClient()
+    const client = await getClient(args.account)
 
     let response: any
 
@@ -1014,34 +2636,50 @@ function extractRecipes(obj: unknown): Recipe[] {
   return recipes
 }
 
-// In-memory cache for recipes (5 minute TTL)
-var recipeCacheData: Recipe[] | null = null
-var recipeCacheTimestamp = 0
-const RECIPE_CACHE_TTL_MS = 5 * 60 * 1000
-
-async function fetchRecipes(): Promise<Recipe[]> {
-  var now = Date.now()
-  if (recipeCacheData && now - recipeCacheTimestamp < RECIPE_CACHE_TTL_MS) {
-    return recipeCacheData
-  }
-
-  await ensureClientInitialized()
-  var client = getPicnicClient()
-  var response = await client.sendRequest("GET", "/pages/meals-planner-root", null, true)
-  var recipes = extractRecipes(response)
-
-  recipeCacheData = recipes
-  recipeCacheTimestamp = now
-  return recipes
+// Recipes are cached per account like other API responses ("recipes" TTL)
+async function fetchRecipes(account?: string): Promise<Recipe[]> {
+  const client = await getClient(account)
+  return getPicnicAccount(account).cache.getOrLoad("recipes", [], async () => {
+    const response = await client.sendRequest("GET", "/pages/meals-planner-root", null, true)
+    return extractRecipes(response)
+  })
 }
 
 // Get recipes tool
+const recipesOutputSchema = z.object({
+  recipes: z.array(
+    z.object({
+      recipe_id: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      preparation_time_in_minutes: z.number().optional(),
+      default_servings: z.number().optional(),
+      course: z.string().optional(),
+      kitchen: z.string().optional(),
+      is_vega_vegan: z.string().optional(),
+      recipe_type: z.string().optional(),
+      quality_cue: z.string().optional(),
+      label: z.string().optional(),
+      ingredient_count: z.number(),
+    }),
+  ),
+  total: z.number(),
+})
+
 toolRegistry.register({
   name: "picnic_get_recipes",
-  description: "Browse available recipes from Picnic's meal planner. Returns a compact list of all recipes with basic info.",
-  inputSchema: z.object({}),
-  handler: async () => {
-    var recipes = await fetchRecipes()
+  description:
+    "Browse available recipes from Picnic's meal planner. Returns a compact list of all recipes with basic info.",
+  inputSchema: z.object({ account: accountArgument }),
+  outputSchema: recipesOutputSchema,
+  group: "recipes",
+  annotations: {
+    title: "Get recipes",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
+  handler: async (args) => {
+    var recipes = await fetchRecipes(args.account)
 
     var summaries = recipes.map((r) => ({
       recipe_id: r.recipe_id,
@@ -1063,19 +2701,68 @@ toolRegistry.register({
 })
 
 // Get recipe details tool
+const recipeDetailsOutputSchema = z.object({
+  recipe_id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  course: z.string().optional(),
+  kitchen: z.string().optional(),
+  is_vega_vegan: z.string().optional(),
+  recipe_type: z.string().optional(),
+  default_servings: z.number().optional(),
+  minimum_servings: z.number().optional(),
+  maximum_servings: z.number().optional(),
+  serving_step: z.number().optional(),
+  preparation_time_in_minutes: z.number().optional(),
+  quality_cue: z.string().optional(),
+  label: z.string().optional(),
+  ingredients: z.array(
+    z.object({
+      selling_unit_id: z.string(),
+      name: z.string(),
+      ingredient_type: z.string().describe("CORE, VARIATION or CUPBOARD"),
+      quantity: z.number().optional(),
+      unit: z.string().optional(),
+      selling_unit_quantity: z.number().optional(),
+      availability: z.string().optional(),
+    }),
+  ),
+  preparation_instructions: z.array(
+    z.object({
+      header: z.string().optional(),
+      body: z.string().optional(),
+      type: z.string().optional(),
+    }),
+  ),
+  images: z.array(z.string()).optional(),
+})
+
 toolRegistry.register({
   name: "picnic_get_recipe_details",
   description:
     "Get full details for a specific recipe including ingredients and preparation steps.",
   inputSchema: z.object({
     recipe_id: z.string().describe("The recipe ID to get details for"),
+    account: accountArgument,
   }),
+  outputSchema: recipeDetailsOutputSchema,
+  group: "recipes",
+  annotations: {
+    title: "Get recipe details",
+    readOnlyHint: true,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    var recipes = await fetchRecipes()
+    var recipes = await fetchRecipes(args.account)
     var recipe = recipes.find((r) => r.recipe_id === args.recipe_id)
 
+    // The error keeps the result in line with the output schema
     if (!recipe) {
-      return { error: `Recipe '${args.recipe_id}' not found`, suggestion: "Use picnic_get_recipes to find valid recipe IDs." }
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `Recipe '${args.recipe_id}' not found. Use picnic_get_recipes to find valid recipe IDs.`,
+        { recipe_id: args.recipe_id },
+      )
     }
 
     return {
@@ -1124,22 +2811,33 @@ toolRegistry.register({
       .min(1)
       .optional()
       .describe("Number of servings (defaults to recipe's default_servings)"),
+    account: accountArgument,
   }),
+  group: "recipes",
+  annotations: {
+    title: "Add recipe to cart",
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
   handler: async (args) => {
-    var recipes = await fetchRecipes()
+    var recipes = await fetchRecipes(args.account)
     var recipe = recipes.find((r) => r.recipe_id === args.recipe_id)
 
     if (!recipe) {
-      return { error: `Recipe '${args.recipe_id}' not found`, suggestion: "Use picnic_get_recipes to find valid recipe IDs." }
+      return {
+        error: `Recipe '${args.recipe_id}' not found`,
+        suggestion: "Use picnic_get_recipes to find valid recipe IDs.",
+      }
     }
 
     var servings = args.servings ?? recipe.default_servings
     var scale = servings / recipe.default_servings
 
-    await ensureClientInitialized()
-    var client = getPicnicClient()
+    var client = await getClient(args.account)
 
-    var added: { name: string; quantity: number }[] = []
+    const toAdd: CartChange[] = []
     var skippedCupboard: string[] = []
     var unavailable: string[] = []
 
@@ -1154,10 +2852,24 @@ toolRegistry.register({
         continue
       }
 
-      var quantity = Math.ceil(ingredient.selling_unit_quantity * scale)
-      await client.addProductToShoppingCart(ingredient.selling_unit_id, quantity)
-      added.push({ name: ingredient.name, quantity })
+      toAdd.push({
+        productId: ingredient.selling_unit_id,
+        name: ingredient.name,
+        count: Math.ceil(ingredient.selling_unit_quantity * scale),
+      })
+    }
+
+    // Check the whole recipe against the budget before adding anything
+    await assertCartBudget(args.account, toAdd)
+
+    const added: { name: string; quantity: number }[] = []
+    let cart: unknown
+    for (const product of toAdd) {
+      cart = await client.addProductToShoppingCart(product.productId, product.count)
+      added.push({ name: product.name!, quantity: product.count })
     }
+    const budgetWarning =
+      added.length > 0 ? await getCartBudgetWarning(args.account, filterCartData(cart)) : undefined
 
     return {
       recipe_name: recipe.name,
@@ -1165,29 +2877,101 @@ toolRegistry.register({
       added,
       skipped_cupboard: skippedCupboard,
       unavailable,
+      ...(budgetWarning && { budget_warning: budgetWarning }),
     }
   },
 })
 
+/**
+ * Check the order about to be placed against the budget. Returns a warning,
+ * or in block mode refuses the checkout.
+ */
+async function checkCheckoutBudget(
+  account: string | undefined,
+  cart: { checkout_total_price?: number; total_price?: number },
+) {
+  if (!hasBudget(budgetConfig)) {
+    return undefined
+  }
+  const status = await getBudgetStatus(account, getOrderTotal(cart))
+  if (status.withinBudget) {
+    return undefined
+  }
+  if (budgetConfig.mode === "block") {
+    throw new ToolError(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Checkout refused, the order would go over budget: ${describeOverage(status)}`,
+      { budget: status },
+    )
+  }
+  return toBudgetWarning(status)
+}
+
+interface CheckoutCart {
+  total_count?: number
+  checkout_total_price?: number
+  selected_slot?: { slot_id?: string; window_start?: string; window_end?: string }
+}
+
+async function getCheckoutPreview(account: string | undefined, cart: CheckoutCart) {
+  // Refuse before handing out a confirmation token when the order can't be placed anyway
+  const budget = await checkCheckoutBudget(account, cart)
+  return {
+    action: "Place the order and charge the payment method",
+    item_count: cart.total_count,
+    checkout_total_price: cart.checkout_total_price,
+    delivery_slot: cart.selected_slot?.slot_id
+      ? {
+          slot_id: cart.selected_slot.slot_id,
+          window_start: cart.selected_slot.window_start,
+          window_end: cart.selected_slot.window_end,
+        }
+      : null,
+    ...(!cart.selected_slot?.slot_id && {
+      warning: "No delivery slot selected, checkout will fail. Use picnic_set_delivery_slot first.",
+    }),
+    ...(budget && { budget }),
+  }
+}
+
 // Checkout tool — full checkout flow in one call
 toolRegistry.register({
   name: "picnic_checkout",
   description:
-    "Checkout and confirm the current shopping cart. A delivery slot MUST be selected first (via picnic_set_delivery_slot). This will place the order and charge the user's payment method.",
-  inputSchema: z.object({}),
-  handler: async () => {
-    await ensureClientInitialized()
-    var client = getPicnicClient()
+    "Checkout and confirm the current shopping cart. A delivery slot MUST be selected first (via picnic_set_delivery_slot). This will place the order and charge the user's payment method. The first call only returns a preview and a confirmation_token; call again with the token after the user has confirmed.",
+  inputSchema: z.object({ account: accountArgument }),
+  group: "checkout",
+  annotations: {
+    title: "Check out order",
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  confirmationPreview: async (args) => {
+    const client = await getClient(args.account)
+    // Preview and budget check the order as it is now, not a cached cart
+    getPicnicAccount(args.account).cache.invalidate(["getShoppingCart"])
+    return getCheckoutPreview(args.account, (await client.getShoppingCart()) as CheckoutCart)
+  },
+  handler: async (args, confirmedPreview) => {
+    var client = await getClient(args.account)
 
-    // Step 1: Get cart to extract state_token and mts
-    var cart = (await client.getShoppingCart()) as {
+    // Step 1: Get cart to extract state_token and mts, a cached cart would have outdated ones
+    getPicnicAccount(args.account).cache.invalidate(["getShoppingCart"])
+    var cart = (await client.getShoppingCart()) as CheckoutCart & {
       mts?: number
       state_token?: string
-      total_count?: number
-      checkout_total_price?: number
-      selected_slot?: { slot_id?: string; window_start?: string; window_end?: string }
     }
 
+    // Only place the order the user saw, the customer is charged for whatever is in the cart
+    assertPreviewUnchanged(
+      "picnic_checkout",
+      confirmedPreview,
+      await getCheckoutPreview(args.account, cart),
+      ["item_count", "checkout_total_price", "delivery_slot"],
+    )
+
     if (!cart.state_token || !cart.mts) {
       return { error: "Cart has no state_token or mts — is the cart empty?" }
     }
@@ -1198,6 +2982,8 @@ toolRegistry.register({
       }
     }
 
+    const budgetWarning = await checkCheckoutBudget(args.account, cart)
+
     var checkoutBody = {
       mts: cart.mts,
       oos_article_ids: {},
@@ -1205,11 +2991,9 @@ toolRegistry.register({
     }
 
     // Step 2: Start checkout
-    var startResult = (await client.sendRequest(
-      "POST",
-      "/cart/checkout/start",
-      checkoutBody
-    )) as { order_id?: string }
+    var startResult = (await client.sendRequest("POST", "/cart/checkout/start", checkoutBody)) as {
+      order_id?: string
+    }
 
     if (!startResult.order_id) {
       return { error: "Checkout start failed — no order_id returned", details: startResult }
@@ -1227,7 +3011,7 @@ toolRegistry.register({
     var confirmResult = (await client.sendRequest(
       "POST",
       `/cart/checkout/order/${orderId}/confirm`,
-      {}
+      {},
     )) as {
       order_id?: string
       total_price?: number
@@ -1245,6 +3029,7 @@ toolRegistry.register({
             end: confirmResult.delivery_slot.window_end?.slice(0, 16)?.replace("T", " "),
           }
         : null,
+      ...(budgetWarning && { budget_warning: budgetWarning }),
     }
   },
 })
@@ -1,14 +1,50 @@
 import { z } from "zod"
 import { zodToJsonSchema } from "zod-to-json-schema"
-import { ToolError, ErrorCode, ErrorUtils } from "../types/errors.js"
+import { EventEmitter } from "events"
+import { randomUUID } from "crypto"
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js"
+import { ToolError, AuthError, ErrorCode, ErrorUtils } from "../types/errors.js"
 
 export interface ToolDefinition<TInput = unknown, TOutput = unknown> {
   name: string
   description: string
   inputSchema: z.ZodSchema<TInput>
+  // Object schemas are advertised to clients and the result is returned as structured content
   outputSchema?: z.ZodSchema<TOutput>
-  handler: (args: TInput) => Promise<TOutput>
+  // After confirmation, confirmedPreview is the preview the user agreed to
+  handler: (
+    args: TInput,
+    confirmedPreview?: unknown,
+  ) => Promise<TOutput | ToolResultWithContent<TOutput>>
   prompts?: string[]
+  // Keep the tool listed and callable before authentication has completed
+  allowUnauthenticated?: boolean
+  // Hints for clients, readOnlyHint also keeps the tool available to read-only clients
+  annotations?: ToolAnnotations
+  // Group name that enabled/disabled tool lists can refer to, e.g. "cart"
+  group?: string
+  // Require confirmation: calls without a confirmation token only return this preview and a token.
+  // Returning undefined runs the tool right away, for arguments that don't change anything.
+  confirmationPreview?: (args: TInput) => Promise<unknown>
+}
+
+/**
+ * What the calling client is allowed to do, e.g. derived from its HTTP API key
+ */
+export interface ToolAccess {
+  readOnly?: boolean
+}
+
+/**
+ * Server-wide tool configuration. Entries of the enabled and disabled lists are
+ * tool names or group names.
+ */
+export interface ToolFilter {
+  // Only expose tools that don't change anything
+  readOnly?: boolean
+  // When set, only these tools are exposed
+  enabled?: string[]
+  disabled?: string[]
 }
 
 export interface ToolResult {
@@ -18,30 +54,161 @@ export interface ToolResult {
     data?: string
     mimeType?: string
   }>
+  structuredContent?: Record<string, unknown>
   isError?: boolean
 }
 
+export type ToolContentBlock = ToolResult["content"][number]
+
+/**
+ * Handler result with extra content blocks, e.g. images, that are sent after
+ * the result itself. The result is validated and formatted as usual.
+ */
+export class ToolResultWithContent<T = unknown> {
+  constructor(
+    public readonly result: T,
+    public readonly content: ToolContentBlock[],
+  ) {}
+}
+
 // Type-erased version for storage
 interface StoredToolDefinition {
   name: string
   description: string
   inputSchema: z.ZodSchema<unknown>
   outputSchema?: z.ZodSchema<unknown>
-  handler: (args: unknown) => Promise<unknown>
+  handler: (args: unknown, confirmedPreview?: unknown) => Promise<unknown>
   prompts?: string[]
+  allowUnauthenticated?: boolean
+  annotations?: ToolAnnotations
+  group?: string
+  confirmationPreview?: (args: unknown) => Promise<unknown>
 }
 
+interface PendingConfirmation {
+  toolName: string
+  args: string
+  preview: unknown
+  expiresAt: number
+}
+
+// How long a confirmation token can be used to run the previewed tool call
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000
+
 class ToolRegistry {
   private tools = new Map<string, StoredToolDefinition>()
+  private confirmations = new Map<string, PendingConfirmation>()
+  private events = new EventEmitter()
+  private authenticationCheck: () => boolean = () => true
+  private filter: ToolFilter = {}
+
+  constructor() {
+    this.events.setMaxListeners(0)
+  }
 
   register<TInput, TOutput>(tool: ToolDefinition<TInput, TOutput>) {
-    this.tools.set(tool.name, tool as StoredToolDefinition)
+    if (!tool.confirmationPreview) {
+      this.tools.set(tool.name, tool as StoredToolDefinition)
+      return
+    }
+
+    if (!(tool.inputSchema instanceof z.ZodObject)) {
+      throw new ToolError(
+        ErrorCode.CONFIGURATION_ERROR,
+        `Tool '${tool.name}' requires confirmation and must have an object input schema`,
+        { toolName: tool.name },
+      )
+    }
+
+    this.tools.set(tool.name, {
+      ...(tool as StoredToolDefinition),
+      inputSchema: tool.inputSchema.extend({
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe(
+            "Token from a previous call of this tool with the same arguments. Without it the tool only returns a preview for the user to confirm.",
+          ),
+      }),
+    })
+  }
+
+  /**
+   * Set the check deciding whether tools that need authentication are available
+   */
+  setAuthenticationCheck(check: () => boolean) {
+    this.authenticationCheck = check
+  }
+
+  /**
+   * Set which tools are exposed at all. Tools hidden by the filter are neither
+   * listed nor callable.
+   */
+  setToolFilter(filter: ToolFilter) {
+    this.filter = filter
+    this.notifyToolsChanged()
+  }
+
+  /**
+   * Subscribe to changes of the available tools, returns a function that removes the listener
+   */
+  onToolsChanged(listener: () => void): () => void {
+    this.events.on("tools-changed", listener)
+    return () => {
+      this.events.off("tools-changed", listener)
+    }
+  }
+
+  /**
+   * Notify subscribers (e.g. connected servers) that the available tools changed
+   */
+  notifyToolsChanged() {
+    this.events.emit("tools-changed")
+  }
+
+  /**
+   * Whether results are returned as structured content. Confirmation previews
+   * don't match the output schema, so tools requiring confirmation don't qualify.
+   */
+  private hasStructuredOutput(tool: StoredToolDefinition): boolean {
+    return tool.outputSchema instanceof z.ZodObject && !tool.confirmationPreview
+  }
+
+  /**
+   * Whether read-only servers and clients may use the tool. The authentication
+   * tools stay available, otherwise a login waiting for 2FA could never finish.
+   */
+  private isReadOnlyTool(tool: StoredToolDefinition): boolean {
+    return tool.annotations?.readOnlyHint === true || tool.allowUnauthenticated === true
+  }
+
+  private isToolEnabled(tool: StoredToolDefinition): boolean {
+    const matches = (entry: string) => entry === tool.name || entry === tool.group
+    if (this.filter.readOnly && !this.isReadOnlyTool(tool)) {
+      return false
+    }
+    if (this.filter.enabled && !this.filter.enabled.some(matches)) {
+      return false
+    }
+    return !this.filter.disabled?.some(matches)
+  }
+
+  private getEnabledTools(): StoredToolDefinition[] {
+    return Array.from(this.tools.values()).filter((tool) => this.isToolEnabled(tool))
+  }
+
+  private isToolAvailable(tool: StoredToolDefinition): boolean {
+    return tool.allowUnauthenticated === true || this.authenticationCheck()
+  }
+
+  private isToolAllowed(tool: StoredToolDefinition, access: ToolAccess): boolean {
+    return !access.readOnly || this.isReadOnlyTool(tool)
   }
 
   getToolDefinitions() {
     const definitions: Record<string, unknown> = {}
-    for (const [name, tool] of this.tools) {
-      definitions[name.toUpperCase()] = {
+    for (const tool of this.getEnabledTools()) {
+      definitions[tool.name.toUpperCase()] = {
         name: tool.name,
         description: tool.description,
         inputSchema: zodToJsonSchema(tool.inputSchema),
@@ -50,26 +217,57 @@ class ToolRegistry {
     return definitions
   }
 
-  getToolsList() {
-    return Array.from(this.tools.values()).map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: zodToJsonSchema(tool.inputSchema),
-    }))
+  getToolsList(access: ToolAccess = {}) {
+    return this.getEnabledTools()
+      .filter((tool) => this.isToolAvailable(tool) && this.isToolAllowed(tool, access))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: zodToJsonSchema(tool.inputSchema),
+        ...(this.hasStructuredOutput(tool) && {
+          outputSchema: zodToJsonSchema(tool.outputSchema!),
+        }),
+        ...(tool.annotations && { annotations: tool.annotations }),
+      }))
   }
 
-  async executeTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+  async executeTool(
+    name: string,
+    args: Record<string, unknown>,
+    access: ToolAccess = {},
+  ): Promise<ToolResult> {
+    // Tools hidden by the configuration behave as if they don't exist
     const tool = this.tools.get(name)
-    if (!tool) {
+    if (!tool || !this.isToolEnabled(tool)) {
       throw new ToolError(ErrorCode.TOOL_NOT_FOUND, `Tool '${name}' not found`, {
         toolName: name,
-        availableTools: Array.from(this.tools.keys()),
+        availableTools: this.getEnabledTools().map((t) => t.name),
       })
     }
 
+    if (!this.isToolAvailable(tool)) {
+      throw new AuthError(
+        ErrorCode.AUTH_REQUIRED,
+        `Tool '${name}' is not available until authentication has completed`,
+        {
+          toolName: name,
+          availableTools: this.getToolsList(access).map((t) => t.name),
+        },
+      )
+    }
+
+    if (!this.isToolAllowed(tool, access)) {
+      throw new AuthError(
+        ErrorCode.AUTH_FORBIDDEN,
+        `Tool '${name}' changes data and is not available with read-only access`,
+        { toolName: name },
+      )
+    }
+
     try {
       // Validate input with Zod schema
       let validatedArgs: unknown
+      let confirmedPreview: unknown
       try {
         validatedArgs = tool.inputSchema.parse(args)
       } catch (error) {
@@ -87,32 +285,38 @@ class ToolRegistry {
         throw error
       }
 
-      // Execute the handler with error wrapping
-      let result: unknown
-      try {
-        result = await tool.handler(validatedArgs)
-      } catch (error) {
-        // Re-throw MCP errors as-is
-        if (ErrorUtils.isMCPError(error)) {
-          throw error
+      if (tool.confirmationPreview) {
+        const { confirmation_token: confirmationToken, ...toolArgs } = validatedArgs as Record<
+          string,
+          unknown
+        >
+        if (confirmationToken) {
+          confirmedPreview = this.consumeConfirmation(name, toolArgs, confirmationToken as string)
+        } else {
+          const preview = await this.runHandler(name, tool.confirmationPreview, toolArgs)
+          if (preview !== undefined) {
+            return this.formatResult(this.requestConfirmation(name, toolArgs, preview))
+          }
         }
+        validatedArgs = toolArgs
+      }
 
-        ErrorUtils.logError(error, `Tool ${name}`)
-        throw new ToolError(
-          ErrorCode.TOOL_EXECUTION_FAILED,
-          `Tool '${name}' execution failed: ${ErrorUtils.getErrorMessage(error)}`,
-          {
-            toolName: name,
-            originalError: ErrorUtils.getErrorMessage(error),
-            args: validatedArgs,
-          },
-        )
+      // Execute the handler with error wrapping, after confirmation also with the confirmed preview
+      const handler =
+        confirmedPreview === undefined
+          ? tool.handler
+          : (handlerArgs: unknown) => tool.handler(handlerArgs, confirmedPreview)
+      let result = await this.runHandler(name, handler, validatedArgs)
+      let extraContent: ToolContentBlock[] = []
+      if (result instanceof ToolResultWithContent) {
+        extraContent = result.content
+        result = result.result
       }
 
       // Validate output if schema is provided
       if (tool.outputSchema) {
         try {
-          tool.outputSchema.parse(result)
+          result = tool.outputSchema.parse(result)
         } catch (error) {
           if (error instanceof z.ZodError) {
             ErrorUtils.logError(error, `Tool ${name} output validation`)
@@ -130,39 +334,137 @@ class ToolRegistry {
         }
       }
 
-      // Format result for MCP
-      if (typeof result === "string") {
-        return {
-          content: [{ type: "text", text: result }],
-        }
+      const formatted = this.formatResult(result, this.hasStructuredOutput(tool))
+      formatted.content.push(...extraContent)
+      return formatted
+    } catch (error) {
+      // Re-throw MCP errors as-is
+      if (ErrorUtils.isMCPError(error)) {
+        throw error
       }
 
-      if (typeof result === "object" && result !== null) {
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        }
-      }
+      // Wrap unexpected errors
+      throw new ToolError(
+        ErrorCode.TOOL_EXECUTION_FAILED,
+        `Unexpected error in tool '${name}': ${ErrorUtils.getErrorMessage(error)}`,
+        {
+          toolName: name,
+          originalError: ErrorUtils.getErrorMessage(error),
+        },
+      )
+    }
+  }
 
-      return {
-        content: [{ type: "text", text: String(result) }],
-      }
+  /**
+   * Run a tool handler, wrapping unexpected errors in a ToolError
+   */
+  private async runHandler(
+    name: string,
+    handler: (args: unknown) => Promise<unknown>,
+    args: unknown,
+  ): Promise<unknown> {
+    try {
+      return await handler(args)
     } catch (error) {
       // Re-throw MCP errors as-is
       if (ErrorUtils.isMCPError(error)) {
         throw error
       }
 
-      // Wrap unexpected errors
+      ErrorUtils.logError(error, `Tool ${name}`)
       throw new ToolError(
         ErrorCode.TOOL_EXECUTION_FAILED,
-        `Unexpected error in tool '${name}': ${ErrorUtils.getErrorMessage(error)}`,
+        `Tool '${name}' execution failed: ${ErrorUtils.getErrorMessage(error)}`,
         {
           toolName: name,
           originalError: ErrorUtils.getErrorMessage(error),
+          args,
         },
       )
     }
   }
+
+  /**
+   * Issue a single-use token allowing the tool to run once with exactly these arguments
+   */
+  private requestConfirmation(name: string, args: Record<string, unknown>, preview: unknown) {
+    const now = Date.now()
+    for (const [token, pending] of this.confirmations) {
+      if (pending.expiresAt <= now) {
+        this.confirmations.delete(token)
+      }
+    }
+
+    const token = randomUUID()
+    const expiresAt = now + CONFIRMATION_TTL_MS
+    this.confirmations.set(token, {
+      toolName: name,
+      args: JSON.stringify(args),
+      preview,
+      expiresAt,
+    })
+
+    return {
+      confirmation_required: true,
+      message: `Nothing has been done yet. Show this preview to the user and, once they agree, call ${name} again with the same arguments and confirmation_token.`,
+      confirmation_token: token,
+      expires_at: new Date(expiresAt).toISOString(),
+      preview,
+    }
+  }
+
+  /**
+   * Use up a confirmation token, returns the preview that was confirmed
+   */
+  private consumeConfirmation(name: string, args: Record<string, unknown>, token: string): unknown {
+    const pending = this.confirmations.get(token)
+    this.confirmations.delete(token)
+
+    if (!pending || pending.toolName !== name || pending.expiresAt <= Date.now()) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `Invalid or expired confirmation token for tool '${name}'. Call it without confirmation_token to get a new preview.`,
+        { toolName: name },
+      )
+    }
+
+    if (pending.args !== JSON.stringify(args)) {
+      throw new ToolError(
+        ErrorCode.TOOL_VALIDATION_FAILED,
+        `Confirmation token for tool '${name}' was issued for different arguments. Call it without confirmation_token to get a new preview.`,
+        { toolName: name },
+      )
+    }
+    return pending.preview
+  }
+
+  /**
+   * Format a handler result as MCP tool content, with a text fallback for structured results
+   */
+  private formatResult(result: unknown, structured = false): ToolResult {
+    if (structured) {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as Record<string, unknown>,
+      }
+    }
+
+    if (typeof result === "string") {
+      return {
+        content: [{ type: "text", text: result }],
+      }
+    }
+
+    if (typeof result === "object" && result !== null) {
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: String(result) }],
+    }
+  }
 }
 
 export const toolRegistry = new ToolRegistry()
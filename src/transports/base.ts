@@ -5,41 +5,95 @@ import {
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
   CallToolRequest,
   GetPromptRequest,
   ReadResourceRequest,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js"
 import { toolRegistry } from "../tools/index.js"
 import { promptRegistry } from "../prompts/index.js"
 import { resourceRegistry } from "../resources/index.js"
 import { createMCPServer } from "../utils/server-factory.js"
+import { hasWriteAccess } from "../utils/http-auth.js"
+import { onPicnicSlotWatchMatch, PicnicAccount } from "../utils/picnic-client.js"
+import { SlotWatchMatch, SLOT_WATCH_RESOURCE_URI } from "../utils/slot-watcher.js"
 import { ErrorUtils, ToolError, PromptError, ResourceError, ErrorCode } from "../types/errors.js"
 import { EventEmitter } from "events"
 
+// MCP log levels from least to most severe
+const LOG_LEVELS: LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+]
+
 /**
  * Abstract base class for MCP transport servers
  * Provides common request handler setup and server configuration
  */
 export abstract class BaseTransportServer extends EventEmitter {
+  // Minimum level of the log messages each client asked for with logging/setLevel
+  private logLevels = new WeakMap<Server, LoggingLevel>()
+
   /**
    * Creates a server instance with all handlers configured
+   *
+   * @param account The session's own Picnic account, when it doesn't use the configured ones
    */
-  protected createConfiguredServer(): ReturnType<typeof createMCPServer> {
+  protected createConfiguredServer(account?: PicnicAccount): ReturnType<typeof createMCPServer> {
     const server = createMCPServer()
-    this.setupServerHandlers(server)
+    this.setupServerHandlers(server, account)
     return server
   }
 
   /**
    * Sets up all MCP request handlers on the given server
    */
-  protected setupServerHandlers(server: Server): void {
+  protected setupServerHandlers(server: Server, account?: PicnicAccount): void {
+    // Tell the client to re-fetch tools when they change, e.g. once Picnic authentication completes
+    const unsubscribeToolsChanged = toolRegistry.onToolsChanged(() => {
+      server.sendToolListChanged().catch((error) => {
+        ErrorUtils.logError(error, "Tool List Changed")
+      })
+    })
+    // Sessions with their own account never hear about the slots of the configured accounts
+    const unsubscribeSlotWatch = account
+      ? account.slotWatcher.onMatch((match) =>
+          this.notifySlotWatchMatch(server, match, account.name),
+        )
+      : onPicnicSlotWatchMatch((match, accountName) => {
+          this.notifySlotWatchMatch(server, match, accountName)
+        })
+    // Resource subscriptions of this client by URI, with the function that ends each
+    const subscriptions = new Map<string, () => void>()
+    server.onclose = () => {
+      unsubscribeToolsChanged()
+      unsubscribeSlotWatch()
+      subscriptions.forEach((unsubscribe) => unsubscribe())
+      subscriptions.clear()
+    }
+
+    // Set log level handler
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevels.set(server, request.params.level)
+      return {}
+    })
+
     // List tools handler
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
       try {
         return {
-          tools: toolRegistry.getToolsList(),
+          tools: toolRegistry.getToolsList({ readOnly: !hasWriteAccess(extra.authInfo) }),
         }
       } catch (error) {
         ErrorUtils.logError(error, "List Tools")
@@ -105,7 +159,7 @@ export abstract class BaseTransportServer extends EventEmitter {
     })
 
     // Call tool handler
-    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
       try {
         const { name, arguments: args } = request.params
 
@@ -118,13 +172,16 @@ export abstract class BaseTransportServer extends EventEmitter {
         }
 
         const result = await ErrorUtils.withTimeout(
-          toolRegistry.executeTool(name, args || {}),
+          toolRegistry.executeTool(name, args || {}, {
+            readOnly: !hasWriteAccess(extra.authInfo),
+          }),
           60000, // 60 second timeout for tool execution
           `Tool '${name}' execution timed out`,
         )
 
         return {
           content: result.content,
+          structuredContent: result.structuredContent,
           isError: result.isError,
         }
       } catch (error) {
@@ -166,6 +223,51 @@ export abstract class BaseTransportServer extends EventEmitter {
       }
     })
 
+    // List resource templates handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      try {
+        return {
+          resourceTemplates: resourceRegistry.getResourceTemplatesList(),
+        }
+      } catch (error) {
+        ErrorUtils.logError(error, "List Resource Templates")
+        throw new ResourceError(ErrorCode.INTERNAL_ERROR, "Failed to list resource templates", {
+          originalError: ErrorUtils.getErrorMessage(error),
+        })
+      }
+    })
+
+    // Subscribe to resource updates handler
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params
+      if (!subscriptions.has(uri)) {
+        try {
+          const unsubscribe = resourceRegistry.subscribe(uri, () => {
+            server.sendResourceUpdated({ uri }).catch((error) => {
+              ErrorUtils.logError(error, "Resource Updated")
+            })
+          })
+          subscriptions.set(uri, unsubscribe)
+        } catch (error) {
+          ErrorUtils.logError(error, "Subscribe Resource")
+          throw new ResourceError(
+            ErrorCode.RESOURCE_NOT_FOUND,
+            `Failed to subscribe to resource: ${ErrorUtils.getErrorMessage(error)}`,
+            { resourceUri: uri },
+          )
+        }
+      }
+      return {}
+    })
+
+    // Unsubscribe from resource updates handler
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params
+      subscriptions.get(uri)?.()
+      subscriptions.delete(uri)
+      return {}
+    })
+
     // Read resource handler
     server.setRequestHandler(ReadResourceRequestSchema, async (request: ReadResourceRequest) => {
       try {
@@ -207,6 +309,34 @@ export abstract class BaseTransportServer extends EventEmitter {
     })
   }
 
+  /**
+   * Tell a client about newly available delivery slots, as a log message and
+   * an update of the slot watch resource
+   */
+  protected notifySlotWatchMatch(server: Server, match: SlotWatchMatch, accountName: string): void {
+    const level: LoggingLevel = match.bookingError ? "warning" : "notice"
+    const minimumLevel = this.logLevels.get(server) ?? "info"
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel)) {
+      const best = match.slots[0]
+      server
+        .sendLoggingMessage({
+          level,
+          logger: "picnic-slot-watcher",
+          data: {
+            message: match.bookedSlotId
+              ? `Booked the newly available ${best.weekday} ${best.date} ${best.start}-${best.end} delivery slot`
+              : `${match.slots.length} matching delivery slot(s) became available`,
+            account: accountName,
+            ...match,
+          },
+        })
+        .catch((error) => ErrorUtils.logError(error, "Slot Watch Notification"))
+    }
+    server
+      .sendResourceUpdated({ uri: SLOT_WATCH_RESOURCE_URI })
+      .catch((error) => ErrorUtils.logError(error, "Slot Watch Notification"))
+  }
+
   /**
    * Start the transport server
    */
@@ -2,11 +2,53 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import express, { Request, Response, NextFunction } from "express"
 import cors from "cors"
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import { z } from "zod"
 import { BaseTransportServer } from "./base.js"
-import { TransportError, ErrorCode, ErrorUtils } from "../types/errors.js"
+import { TransportError, AuthError, ErrorCode, ErrorUtils } from "../types/errors.js"
 import { createRateLimitMiddleware, RateLimitConfig } from "../utils/rate-limiter.js"
+import { createAuthMiddleware, getAuthIdentity, HttpAuthConfig } from "../utils/http-auth.js"
+import { createOAuthRouter, LocalOAuthProvider, OAuthConfig } from "../utils/oauth.js"
+import {
+  PicnicAccount,
+  PicnicCredentials,
+  runWithPicnicAccount,
+  getPicnicCacheStats,
+} from "../utils/picnic-client.js"
 import { randomUUID } from "crypto"
 
+// Per-session Picnic credentials, sent as X-Picnic-* headers or in the initialize request's _meta.picnic
+const sessionCredentialsSchema = z
+  .object({
+    authKey: z.string().min(1).optional(),
+    username: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
+    countryCode: z.enum(["NL", "DE"]).default("NL"),
+  })
+  .refine((credentials) => credentials.authKey || (credentials.username && credentials.password), {
+    message: "Provide either an auth key or a username and password",
+  })
+
+/**
+ * Who the sessions a request creates or uses belong to, undefined when no auth
+ * is configured. Refuses access tokens that don't identify their user, as
+ * everyone using the same OAuth client could take over each other's sessions.
+ */
+function getSessionOwner(req: Request): string | undefined {
+  const auth = (req as Request & { auth?: AuthInfo }).auth
+  if (!auth) {
+    return undefined
+  }
+  const identity = getAuthIdentity(auth)
+  if (!identity) {
+    throw new TransportError(
+      ErrorCode.TRANSPORT_UNAUTHORIZED,
+      "Access token doesn't identify a user, sessions can't be bound to it",
+    )
+  }
+  return identity
+}
+
 /**
  * Configuration options for the HTTP server
  */
@@ -14,12 +56,20 @@ export interface StreamableHttpServerOptions {
   port?: number
   host?: string
   corsOptions?: cors.CorsOptions
+  // Origins allowed to make cross-origin requests when no corsOptions are given (none by default)
+  allowedOrigins?: string[]
+  // Require an API key on the MCP and session routes
+  auth?: HttpAuthConfig
+  // Accept OAuth access tokens on the MCP and session routes, from the built-in or an external authorization server
+  oauth?: OAuthConfig
   rateLimitConfig?: RateLimitConfig
   requestTimeoutMs?: number
   maxRequestSizeBytes?: number
   enableRequestLogging?: boolean
   maxConcurrentSessions?: number
   sessionTimeoutMs?: number
+  // Reject sessions without their own Picnic credentials instead of falling back to the configured accounts
+  requireSessionCredentials?: boolean
 }
 
 /**
@@ -33,8 +83,13 @@ export class StreamableHttpServer extends BaseTransportServer {
   private host: string
   private options: StreamableHttpServerOptions
   private rateLimiter?: ReturnType<typeof createRateLimitMiddleware>
+  private oauthProvider?: LocalOAuthProvider
   private transports: Record<string, StreamableHTTPServerTransport> = {}
   private sessionTimeouts = new Map<string, NodeJS.Timeout>()
+  // Picnic accounts of sessions that brought their own credentials
+  private sessionAccounts = new WeakMap<StreamableHTTPServerTransport, PicnicAccount>()
+  // Client ID of the API key or OAuth client that created each session, when auth is configured
+  private sessionOwners = new WeakMap<StreamableHTTPServerTransport, string>()
 
   /**
    * Create a new HTTP server for MCP over HTTP
@@ -46,13 +101,13 @@ export class StreamableHttpServer extends BaseTransportServer {
     this.options = {
       port: 3000,
       host: "localhost",
-      corsOptions: { origin: "*" },
       rateLimitConfig: { windowMs: 15 * 60 * 1000, maxRequests: 100 },
       requestTimeoutMs: 10000,
       maxRequestSizeBytes: 1024 * 1024 * 10, // 10MB
       enableRequestLogging: true,
       maxConcurrentSessions: 100,
       sessionTimeoutMs: 30 * 60 * 1000, // 30 minutes
+      requireSessionCredentials: false,
       ...options,
     }
     this.app = express()
@@ -117,9 +172,18 @@ export class StreamableHttpServer extends BaseTransportServer {
     this.app.use(
       cors(
         this.options.corsOptions || {
-          origin: "*",
+          origin: this.options.allowedOrigins?.length ? this.options.allowedOrigins : false,
           methods: ["GET", "POST", "DELETE"],
-          allowedHeaders: ["Content-Type", "MCP-Session-ID"],
+          allowedHeaders: [
+            "Content-Type",
+            "MCP-Session-ID",
+            "Authorization",
+            "X-API-Key",
+            "X-Picnic-Auth-Key",
+            "X-Picnic-Username",
+            "X-Picnic-Password",
+            "X-Picnic-Country-Code",
+          ],
           exposedHeaders: ["MCP-Session-ID"],
         },
       ),
@@ -184,15 +248,32 @@ export class StreamableHttpServer extends BaseTransportServer {
    * Set up the routes for MCP over HTTP
    */
   private setupRoutes(): void {
+    // OAuth discovery, authorization and token endpoints must live at the app root
+    const oauth = this.options.oauth ? createOAuthRouter(this.options.oauth) : undefined
+    if (oauth) {
+      this.app.use(oauth.router)
+      this.oauthProvider = oauth.provider
+    }
+
+    // Everything except the health check and OAuth endpoints requires an API key or access token
+    const requireAuth =
+      this.options.auth || oauth
+        ? createAuthMiddleware({
+            apiKeys: this.options.auth?.apiKeys ?? [],
+            tokenVerifier: oauth?.verifier,
+            resourceMetadataUrl: oauth?.resourceMetadataUrl,
+          })
+        : (_req: Request, _res: Response, next: NextFunction) => next()
+
     // Handle all MCP requests (POST, GET, DELETE) on a single endpoint
-    this.app.all("/mcp", async (req: Request, res: Response) => {
+    this.app.all("/mcp", requireAuth, async (req: Request, res: Response) => {
       try {
         await this.handleMCPRequest(req, res)
       } catch (error) {
         ErrorUtils.logError(error, "MCP Request Handler")
         if (!res.headersSent) {
           const errorResponse = ErrorUtils.createSafeErrorResponse(error)
-          res.status(500).json({
+          res.status(ErrorUtils.isMCPError(error) ? error.statusCode : 500).json({
             jsonrpc: "2.0",
             error: errorResponse,
             id: null,
@@ -213,6 +294,7 @@ export class StreamableHttpServer extends BaseTransportServer {
             max: this.getMaxSessions(),
           },
           rateLimit: stats || null,
+          cache: getPicnicCacheStats(),
         })
       } catch (error) {
         ErrorUtils.logError(error, "Health Check")
@@ -223,13 +305,19 @@ export class StreamableHttpServer extends BaseTransportServer {
       }
     })
 
-    // Add session management endpoint
-    this.app.get("/sessions", (req: Request, res: Response) => {
+    // Add session management endpoint, listing only the caller's own sessions
+    this.app.get("/sessions", requireAuth, (req: Request, res: Response) => {
       try {
-        const sessions = this.getActiveSessions().map((sessionId) => ({
-          id: sessionId,
-          createdAt: new Date().toISOString(), // Would need to track this
-        }))
+        const owner = getSessionOwner(req)
+        const sessions = this.getActiveSessions()
+          .filter((sessionId) => this.sessionOwners.get(this.transports[sessionId]) === owner)
+          .map((sessionId) => ({
+            id: sessionId,
+            createdAt: new Date().toISOString(), // Would need to track this
+            picnicAccount: this.sessionAccounts.has(this.transports[sessionId])
+              ? "session"
+              : "shared",
+          }))
 
         res.status(200).json({
           sessions,
@@ -237,6 +325,10 @@ export class StreamableHttpServer extends BaseTransportServer {
           max: this.getMaxSessions(),
         })
       } catch (error) {
+        if (error instanceof TransportError) {
+          res.status(error.statusCode).json({ error: error.message })
+          return
+        }
         ErrorUtils.logError(error, "Session List")
         res.status(500).json({
           error: "Failed to retrieve sessions",
@@ -245,8 +337,18 @@ export class StreamableHttpServer extends BaseTransportServer {
     })
 
     // Add session cleanup endpoint (for debugging/admin)
-    this.app.delete("/sessions/:sessionId", (req: Request, res: Response) => {
+    this.app.delete("/sessions/:sessionId", requireAuth, (req: Request, res: Response) => {
       const { sessionId } = req.params
+      try {
+        if (!this.getOwnTransport(sessionId, req)) {
+          res.status(404).json({ error: "Session not found" })
+          return
+        }
+      } catch (error) {
+        const status = error instanceof TransportError ? error.statusCode : 500
+        res.status(status).json({ error: ErrorUtils.getErrorMessage(error) })
+        return
+      }
       this.cleanupSession(sessionId)
       res.status(204).send()
     })
@@ -282,8 +384,15 @@ export class StreamableHttpServer extends BaseTransportServer {
     const isInitialize = isInitializeRequest(req.body)
 
     if (isInitialize) {
-      const transport = await this.createNewSession()
-      await transport.handleRequest(req, res, req.body)
+      const credentials = this.getSessionCredentials(req)
+      if (!credentials && this.options.requireSessionCredentials) {
+        throw new AuthError(
+          ErrorCode.AUTH_REQUIRED,
+          "Picnic credentials are required: send X-Picnic-Auth-Key or X-Picnic-Username/X-Picnic-Password",
+        )
+      }
+      const transport = await this.createNewSession(credentials, getSessionOwner(req))
+      await this.handleSessionRequest(transport, req, res)
     } else {
       if (!sessionId) {
         throw new TransportError(
@@ -291,13 +400,58 @@ export class StreamableHttpServer extends BaseTransportServer {
           "Missing mcp-session-id header",
         )
       }
-      const transport = this.getTransport(sessionId)
+      const transport = this.getOwnTransport(sessionId, req)
       if (!transport) {
         throw new TransportError(ErrorCode.TRANSPORT_INVALID_SESSION, "Invalid session ID")
       }
       this.refreshSessionTimeout(sessionId)
+      await this.handleSessionRequest(transport, req, res)
+    }
+  }
+
+  /**
+   * Let the transport handle a request, with the session's own Picnic account
+   * (if it has one) bound to every handler that runs for it
+   */
+  private async handleSessionRequest(
+    transport: StreamableHTTPServerTransport,
+    req: Request,
+    res: Response,
+  ): Promise<void> {
+    const account = this.sessionAccounts.get(transport)
+    if (!account) {
       await transport.handleRequest(req, res, req.body)
+      return
+    }
+    await runWithPicnicAccount(account, () => transport.handleRequest(req, res, req.body))
+  }
+
+  /**
+   * Read per-session Picnic credentials from the X-Picnic-* headers or, when none
+   * are set, from the initialize request's _meta.picnic
+   */
+  private getSessionCredentials(req: Request): PicnicCredentials | undefined {
+    const headerCredentials = {
+      authKey: req.header("x-picnic-auth-key"),
+      username: req.header("x-picnic-username"),
+      password: req.header("x-picnic-password"),
+      countryCode: req.header("x-picnic-country-code")?.toUpperCase(),
+    }
+    const raw = Object.values(headerCredentials).some(Boolean)
+      ? headerCredentials
+      : req.body?.params?._meta?.picnic
+
+    if (!raw) {
+      return undefined
+    }
+
+    const result = sessionCredentialsSchema.safeParse(raw)
+    if (!result.success) {
+      throw new TransportError(ErrorCode.INVALID_REQUEST, "Invalid Picnic session credentials", {
+        errors: result.error.errors.map((error) => error.message),
+      })
     }
+    return result.data
   }
 
   /**
@@ -310,7 +464,7 @@ export class StreamableHttpServer extends BaseTransportServer {
       throw new TransportError(ErrorCode.TRANSPORT_INVALID_SESSION, "Missing mcp-session-id header")
     }
 
-    const transport = this.getTransport(sessionId)
+    const transport = this.getOwnTransport(sessionId, req)
     if (!transport) {
       throw new TransportError(ErrorCode.TRANSPORT_INVALID_SESSION, "Invalid session ID")
     }
@@ -329,7 +483,7 @@ export class StreamableHttpServer extends BaseTransportServer {
       throw new TransportError(ErrorCode.TRANSPORT_INVALID_SESSION, "Missing mcp-session-id header")
     }
 
-    const transport = this.getTransport(sessionId)
+    const transport = this.getOwnTransport(sessionId, req)
     if (!transport) {
       throw new TransportError(ErrorCode.TRANSPORT_INVALID_SESSION, "Invalid session ID")
     }
@@ -350,6 +504,11 @@ export class StreamableHttpServer extends BaseTransportServer {
     return new Promise((resolve) => {
       this.server = this.app.listen(this.port, () => {
         console.error(`MCP StreamableHTTP server running on http://${this.host}:${this.port}/mcp`)
+        if (!this.options.auth && !this.options.oauth) {
+          console.error(
+            "Warning: neither HTTP_API_KEYS nor OAUTH_MODE configured, anyone who can reach this server can use the Picnic account",
+          )
+        }
         resolve()
       })
 
@@ -387,6 +546,9 @@ export class StreamableHttpServer extends BaseTransportServer {
       this.rateLimiter.limiter.destroy()
     }
 
+    // Clean up OAuth codes and tokens
+    this.oauthProvider?.destroy()
+
     // Close the HTTP server
     if (this.server) {
       await new Promise<void>((resolve, reject) => {
@@ -408,11 +570,21 @@ export class StreamableHttpServer extends BaseTransportServer {
     console.error("HTTP server stopped successfully")
   }
 
-  public async createNewSession(): Promise<StreamableHTTPServerTransport> {
+  /**
+   * Create a transport and MCP server for a new session. With credentials, the
+   * session gets its own Picnic account instead of the configured ones. Only
+   * the owner (the client ID that created it) can use the session afterwards.
+   */
+  public async createNewSession(
+    credentials?: PicnicCredentials,
+    owner?: string,
+  ): Promise<StreamableHTTPServerTransport> {
     if (Object.keys(this.transports).length >= this.options.maxConcurrentSessions!) {
       throw new TransportError(ErrorCode.SESSION_LIMIT_EXCEEDED, "Max concurrent sessions reached")
     }
 
+    const account = credentials ? await this.createSessionAccount(credentials) : undefined
+
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => randomUUID(),
       onsessioninitialized: (sid) => {
@@ -422,6 +594,10 @@ export class StreamableHttpServer extends BaseTransportServer {
       },
     })
 
+    if (owner) {
+      this.sessionOwners.set(transport, owner)
+    }
+
     transport.onclose = () => {
       if (transport.sessionId) {
         this.cleanupSession(transport.sessionId)
@@ -429,21 +605,64 @@ export class StreamableHttpServer extends BaseTransportServer {
     }
 
     // Create and connect a new MCP server instance for this session
-    const server = this.createConfiguredServer()
+    const server = this.createConfiguredServer(account)
+    if (account) {
+      this.sessionAccounts.set(transport, account)
+      // The shared tool list only follows the configured accounts
+      account.onAuthStateChange(() => {
+        server.sendToolListChanged().catch((error) => {
+          ErrorUtils.logError(error, "Tool List Changed")
+        })
+      })
+    }
     await server.connect(transport)
 
     return transport
   }
 
+  private async createSessionAccount(credentials: PicnicCredentials): Promise<PicnicAccount> {
+    // Session accounts never touch the session file, the client owns its credentials
+    const account = new PicnicAccount("session", credentials, { persistSession: false })
+    try {
+      await account.initialize()
+    } catch (error) {
+      account.dispose()
+      if (error instanceof AuthError) {
+        throw error
+      }
+      throw new AuthError(
+        ErrorCode.AUTH_FAILED,
+        `Picnic login failed: ${ErrorUtils.getErrorMessage(error)}`,
+      )
+    }
+    return account
+  }
+
   public getTransport(sessionId: string): StreamableHTTPServerTransport | undefined {
     return this.transports[sessionId]
   }
 
+  /**
+   * Look up a session for the client that created it. Sessions of other clients
+   * are reported as unknown, so session IDs can't be probed.
+   */
+  private getOwnTransport(
+    sessionId: string,
+    req: Request,
+  ): StreamableHTTPServerTransport | undefined {
+    const transport = this.getTransport(sessionId)
+    return transport && this.sessionOwners.get(transport) === getSessionOwner(req)
+      ? transport
+      : undefined
+  }
+
   public cleanupSession(sessionId: string): void {
     const transport = this.transports[sessionId]
     if (transport) {
       transport.close()
       delete this.transports[sessionId]
+      this.sessionAccounts.get(transport)?.dispose()
+      this.sessionAccounts.delete(transport)
       const timeout = this.sessionTimeouts.get(sessionId)
       if (timeout) {
         clearTimeout(timeout)
@@ -9,6 +9,7 @@ export enum ErrorCode {
   TRANSPORT_INVALID_SESSION = "TRANSPORT_INVALID_SESSION",
   TRANSPORT_SESSION_EXPIRED = "TRANSPORT_SESSION_EXPIRED",
   TRANSPORT_RATE_LIMITED = "TRANSPORT_RATE_LIMITED",
+  TRANSPORT_UNAUTHORIZED = "TRANSPORT_UNAUTHORIZED",
   SESSION_LIMIT_EXCEEDED = "SESSION_LIMIT_EXCEEDED",
 
   // Tool errors
@@ -16,6 +17,7 @@ export enum ErrorCode {
   TOOL_VALIDATION_FAILED = "TOOL_VALIDATION_FAILED",
   TOOL_EXECUTION_FAILED = "TOOL_EXECUTION_FAILED",
   TOOL_TIMEOUT = "TOOL_TIMEOUT",
+  BUDGET_EXCEEDED = "BUDGET_EXCEEDED",
 
   // Prompt errors
   PROMPT_NOT_FOUND = "PROMPT_NOT_FOUND",
@@ -27,6 +29,11 @@ export enum ErrorCode {
   RESOURCE_ACCESS_DENIED = "RESOURCE_ACCESS_DENIED",
   RESOURCE_UNAVAILABLE = "RESOURCE_UNAVAILABLE",
 
+  // Authentication errors
+  AUTH_REQUIRED = "AUTH_REQUIRED",
+  AUTH_FAILED = "AUTH_FAILED",
+  AUTH_FORBIDDEN = "AUTH_FORBIDDEN",
+
   // Server errors
   SERVER_INITIALIZATION_FAILED = "SERVER_INITIALIZATION_FAILED",
   SERVER_SHUTDOWN_FAILED = "SERVER_SHUTDOWN_FAILED",
@@ -107,7 +114,13 @@ export class MCPError extends Error {
       case ErrorCode.TRANSPORT_RATE_LIMITED:
         return -32000 // Server error (rate limited)
       case ErrorCode.RESOURCE_ACCESS_DENIED:
+      case ErrorCode.BUDGET_EXCEEDED:
         return -32000 // Server error (access denied)
+      case ErrorCode.TRANSPORT_UNAUTHORIZED:
+      case ErrorCode.AUTH_REQUIRED:
+      case ErrorCode.AUTH_FAILED:
+      case ErrorCode.AUTH_FORBIDDEN:
+        return -32000 // Server error (authentication required, failed or insufficient)
       default:
         return -32603 // Internal error
     }
@@ -123,7 +136,9 @@ export class TransportError extends MCPError {
           ? 400
           : code === ErrorCode.TRANSPORT_TIMEOUT
             ? 408
-            : 500
+            : code === ErrorCode.TRANSPORT_UNAUTHORIZED
+              ? 401
+              : 500
     super(code, message, statusCode, details)
     this.name = "TransportError"
   }
@@ -138,7 +153,9 @@ export class ToolError extends MCPError {
           ? 400
           : code === ErrorCode.TOOL_TIMEOUT
             ? 408
-            : 500
+            : code === ErrorCode.BUDGET_EXCEEDED
+              ? 403
+              : 500
     super(code, message, statusCode, details)
     this.name = "ToolError"
   }
@@ -170,6 +187,19 @@ export class ResourceError extends MCPError {
   }
 }
 
+export class AuthError extends MCPError {
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    const statusCode =
+      code === ErrorCode.AUTH_REQUIRED || code === ErrorCode.AUTH_FAILED
+        ? 401
+        : code === ErrorCode.AUTH_FORBIDDEN
+          ? 403
+          : 500
+    super(code, message, statusCode, details)
+    this.name = "AuthError"
+  }
+}
+
 /**
  * Utility functions for error handling
  */
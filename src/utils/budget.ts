@@ -0,0 +1,150 @@
+export const BUDGET_MODES = ["warn", "block"] as const
+export type BudgetMode = (typeof BUDGET_MODES)[number]
+
+/**
+ * Spending limits in cents. Weeks and months are rolling periods of 7 and
+ * 30 days, counting the orders placed in that period.
+ */
+export interface BudgetConfig {
+  perOrder?: number
+  perWeek?: number
+  perMonth?: number
+  // warn: report going over budget, block: refuse cart changes and checkouts that go over it
+  mode: BudgetMode
+}
+
+export type BudgetLimitName = "per_order" | "per_week" | "per_month"
+
+export interface BudgetLimitStatus {
+  limit: BudgetLimitName
+  budget: number
+  spent: number // Orders already placed in the period
+  order: number // The current cart
+  remaining: number // Left after the current cart, negative when over budget
+  overage: number
+}
+
+export interface BudgetStatus {
+  withinBudget: boolean
+  mode: BudgetMode
+  limits: BudgetLimitStatus[]
+}
+
+interface DeliveryLike {
+  status?: string
+  creation_time?: string
+  orders?: Array<{ checkout_total_price?: number; creation_time?: string }>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PERIODS: Array<{ limit: BudgetLimitName; key: "perWeek" | "perMonth"; days: number }> = [
+  { limit: "per_week", key: "perWeek", days: 7 },
+  { limit: "per_month", key: "perMonth", days: 30 },
+]
+
+export function hasBudget(config: BudgetConfig): boolean {
+  return [config.perOrder, config.perWeek, config.perMonth].some((limit) => limit !== undefined)
+}
+
+export function needsDeliveryHistory(config: BudgetConfig): boolean {
+  return config.perWeek !== undefined || config.perMonth !== undefined
+}
+
+/**
+ * Total of the orders placed since the given time, cancelled deliveries excluded
+ */
+export function getSpending(deliveries: DeliveryLike[], since: Date): number {
+  return deliveries
+    .filter((delivery) => delivery.status !== "CANCELLED")
+    .flatMap((delivery) =>
+      (delivery.orders ?? []).map((order) => ({
+        total: order.checkout_total_price ?? 0,
+        placedAt: order.creation_time ?? delivery.creation_time,
+      })),
+    )
+    .filter((order) => order.placedAt && new Date(order.placedAt) >= since)
+    .reduce((sum, order) => sum + order.total, 0)
+}
+
+/**
+ * Check an order total against the configured limits, counting past orders
+ * for the weekly and monthly limits
+ */
+export function checkBudget(
+  config: BudgetConfig,
+  orderTotal: number,
+  deliveries: DeliveryLike[] = [],
+  now: Date = new Date(),
+): BudgetStatus {
+  const limits: BudgetLimitStatus[] = []
+  const addLimit = (limit: BudgetLimitName, budget: number, spent: number) => {
+    const remaining = budget - spent - orderTotal
+    limits.push({
+      limit,
+      budget,
+      spent,
+      order: orderTotal,
+      remaining,
+      overage: Math.max(0, -remaining),
+    })
+  }
+
+  if (config.perOrder !== undefined) {
+    addLimit("per_order", config.perOrder, 0)
+  }
+  for (const period of PERIODS) {
+    const budget = config[period.key]
+    if (budget !== undefined) {
+      addLimit(
+        period.limit,
+        budget,
+        getSpending(deliveries, new Date(now.getTime() - period.days * DAY_MS)),
+      )
+    }
+  }
+
+  return {
+    withinBudget: limits.every((limit) => limit.overage === 0),
+    mode: config.mode,
+    limits,
+  }
+}
+
+export function formatCents(cents: number): string {
+  return `€${(cents / 100).toFixed(2)}`
+}
+
+/**
+ * One line per exceeded limit, e.g. "€182.40 exceeds the per order budget of €150.00 by €32.40"
+ */
+export function describeOverage(status: BudgetStatus): string {
+  return status.limits
+    .filter((limit) => limit.overage > 0)
+    .map(
+      (limit) =>
+        `${formatCents(limit.spent + limit.order)} exceeds the ${limit.limit.replace("_", " ")} budget of ${formatCents(limit.budget)} by ${formatCents(limit.overage)}`,
+    )
+    .join("; ")
+}
+
+/**
+ * Estimate an order total after changing product quantities, from their
+ * article prices. Counts are negative for removals. Promotions aren't known up
+ * front, so the estimate can be off a little. Returns undefined when a price
+ * is unknown.
+ */
+export function estimateOrderTotal(
+  orderTotal: number,
+  changes: Array<{ productId: string; count: number }>,
+  getPrice: (productId: string) => number | undefined,
+): number | undefined {
+  let total = orderTotal
+  for (const change of changes) {
+    const price = getPrice(change.productId)
+    if (price === undefined) {
+      return undefined
+    }
+    total += price * change.count
+  }
+  return total
+}
@@ -0,0 +1,181 @@
+export interface CalendarEvent {
+  // Stable across exports, so calendars update the event instead of adding a copy
+  uid: string
+  start: string // ISO 8601 with offset, as returned by Picnic
+  end: string
+  summary: string
+  description?: string
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+}
+
+interface DeliveryLike {
+  delivery_id?: string
+  status?: string
+  slot?: { window_start?: string; window_end?: string }
+  eta2?: { start?: string; end?: string }
+  orders?: Array<{ total_count?: number; checkout_total_price?: number }>
+}
+
+interface SlotLike {
+  slot_id?: string
+  window_start?: string
+  window_end?: string
+}
+
+const UID_DOMAIN = "mcp-picnic"
+
+function formatTime(time?: string): string | undefined {
+  return time?.slice(11, 16)
+}
+
+/**
+ * Calendar events for the deliveries whose window hasn't ended yet and the
+ * slot selected for the current cart. Cancelled deliveries, and the selected
+ * slot once it is ordered, stay in as cancelled events, so importing the
+ * calendar again removes them.
+ */
+export function getDeliveryEvents(
+  deliveries: DeliveryLike[],
+  selectedSlot: SlotLike | undefined,
+  account: string,
+  now: Date = new Date(),
+): CalendarEvent[] {
+  const upcoming = deliveries.filter(
+    (delivery) =>
+      delivery.delivery_id &&
+      delivery.slot?.window_start &&
+      delivery.slot.window_end &&
+      new Date(delivery.slot.window_end) >= now,
+  )
+
+  const events: CalendarEvent[] = upcoming.map((delivery) => {
+    const itemCount = (delivery.orders ?? []).reduce(
+      (sum, order) => sum + (order.total_count ?? 0),
+      0,
+    )
+    const total = (delivery.orders ?? []).reduce(
+      (sum, order) => sum + (order.checkout_total_price ?? 0),
+      0,
+    )
+    const details = [
+      delivery.eta2?.start &&
+        `Expected between ${formatTime(delivery.eta2.start)} and ${formatTime(delivery.eta2.end)}`,
+      itemCount > 0 && `${itemCount} items, €${(total / 100).toFixed(2)}`,
+      `Delivery ${delivery.delivery_id}`,
+    ]
+    return {
+      uid: `delivery-${delivery.delivery_id}@${UID_DOMAIN}`,
+      start: delivery.slot!.window_start!,
+      end: delivery.slot!.window_end!,
+      summary: "Picnic delivery",
+      description: details.filter(Boolean).join("\n"),
+      status: delivery.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED",
+    }
+  })
+
+  if (selectedSlot?.window_start && selectedSlot.window_end) {
+    // Once ordered the slot is covered by its delivery, so the tentative event is
+    // cancelled instead of left out, otherwise subscribed calendars keep a copy of it
+    const ordered = upcoming.some(
+      (delivery) => delivery.slot?.window_start === selectedSlot.window_start,
+    )
+    events.push({
+      // One event per account, moved along when another slot is selected
+      uid: `selected-slot-${account}@${UID_DOMAIN}`,
+      start: selectedSlot.window_start,
+      end: selectedSlot.window_end,
+      summary: "Picnic delivery (not ordered yet)",
+      description: ordered
+        ? "The order for this delivery slot has been placed"
+        : "Delivery slot selected for the current cart, the order hasn't been placed yet",
+      status: ordered ? "CANCELLED" : "TENTATIVE",
+    })
+  }
+  return events
+}
+
+export interface CalendarClient {
+  getDeliveries(): Promise<DeliveryLike[]>
+  getDeliverySlots(): Promise<{
+    delivery_slots?: SlotLike[]
+    selected_slot?: { slot_id?: string }
+  }>
+}
+
+/**
+ * Fetch the deliveries and the selected slot of an account as calendar events
+ */
+export async function fetchDeliveryEvents(
+  client: CalendarClient,
+  account: string,
+): Promise<CalendarEvent[]> {
+  const [deliveries, slots] = await Promise.all([client.getDeliveries(), client.getDeliverySlots()])
+  const selectedSlotId = slots.selected_slot?.slot_id
+  const selectedSlot = selectedSlotId
+    ? slots.delivery_slots?.find((slot) => slot.slot_id === selectedSlotId)
+    : undefined
+  return getDeliveryEvents(deliveries, selectedSlot, account)
+}
+
+// UTC date-time as used by iCalendar, e.g. 20260606T160000Z
+function formatDateTime(time: string | Date): string {
+  return new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "")
+}
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n")
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ""
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74 // Continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current)
+      current = ""
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+/**
+ * Render events as an iCalendar (ICS) document
+ */
+export function buildCalendar(events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${UID_DOMAIN}//Picnic deliveries//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Picnic deliveries",
+  ]
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      `STATUS:${event.status}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    )
+  }
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,201 @@
+import { getArticleQuantity } from "./cart-updates.js"
+import { getUnitPrices, UnitPrices } from "./unit-quantity.js"
+
+export const CART_DETAIL_LEVELS = ["summary", "standard", "full"] as const
+export type CartDetailLevel = (typeof CART_DETAIL_LEVELS)[number]
+
+interface Decorator {
+  type?: string
+  quantity?: number | string
+  text?: string
+  valid_until?: string
+  base_price_text?: string
+  reason?: string
+  explanation?: { short_explanation?: string }
+  replacements?: Array<{
+    id?: string
+    name?: string
+    display_price?: number
+    unit_quantity?: string
+  }>
+}
+
+interface RawArticle {
+  id?: string
+  name?: string
+  price?: number
+  unit_quantity?: string
+  image_ids?: string[]
+  decorators?: Decorator[]
+}
+
+interface RawOrderLine {
+  id?: string
+  items?: RawArticle[]
+  display_price?: number
+  price?: number
+  decorators?: Decorator[]
+}
+
+interface RawCart {
+  items?: RawOrderLine[]
+  total_count?: number
+  total_price?: number
+  checkout_total_price?: number
+  total_savings?: number
+  total_deposit?: number
+  deposit_breakdown?: Array<{ type?: string; value?: number; count?: number }>
+}
+
+/**
+ * A cart article for LLM consumption, prices are in cents
+ */
+export interface CartItem extends UnitPrices {
+  id?: string
+  name?: string
+  quantity: number
+  price?: number // Price of a single article
+  line_price?: number // Price of the order line after promotions
+  line_id?: string // Only for order lines holding several articles, which share the line price
+  line_discount?: number
+  promotions?: string[]
+  unavailable?: {
+    reason?: string
+    explanation?: string
+    replacements?: Array<{ id?: string; name?: string; price?: number; unit?: string }>
+  }
+  unit?: string
+  base_price?: string
+  image_id?: string
+}
+
+export interface CartData {
+  items: CartItem[]
+  total_count?: number
+  total_price?: number
+  checkout_total_price?: number
+  total_savings?: number
+  total_deposit?: number
+  unavailable_count?: number
+  deposits?: Array<{ type?: string; value?: number; count?: number }>
+  breakdown?: {
+    products?: number
+    deposits?: number
+    fees_and_other?: number // Whatever the checkout total adds on top of products and deposits
+    savings?: number
+    checkout_total?: number
+  }
+}
+
+// Decorators that describe a promotion, as the text shown in the app
+function getPromotions(decorators: Decorator[]): string[] {
+  return decorators.flatMap((decorator) => {
+    if (decorator.type === "LABEL" && decorator.text) return [decorator.text]
+    if (decorator.type === "VALIDITY_LABEL" && decorator.valid_until) {
+      return [`Valid until ${decorator.valid_until}`]
+    }
+    return []
+  })
+}
+
+function filterArticle(article: RawArticle, line: RawOrderLine, detail: CartDetailLevel): CartItem {
+  const decorators = [...(line.decorators ?? []), ...(article.decorators ?? [])]
+  const sharedLine = (line.items?.length ?? 0) > 1
+  const unavailable = decorators.find((decorator) => decorator.type === "UNAVAILABLE")
+  const item: CartItem = {
+    id: article.id,
+    name: article.name,
+    quantity: getArticleQuantity(article),
+    // Prices are left out of the summary, it only says what is in the cart
+    ...(detail !== "summary" && {
+      line_price: line.display_price,
+      ...(sharedLine && { line_id: line.id }),
+    }),
+    ...(unavailable && { unavailable: { reason: unavailable.reason } }),
+  }
+  if (detail === "summary") {
+    return item
+  }
+
+  const promotions = getPromotions(decorators)
+  const discount =
+    line.price !== undefined && line.display_price !== undefined
+      ? line.price - line.display_price
+      : 0
+  Object.assign(item, {
+    price: article.price,
+    ...(discount > 0 && { line_discount: discount }),
+    ...(promotions.length > 0 && { promotions }),
+    unit: article.unit_quantity,
+    ...getUnitPrices(article.price, article.unit_quantity),
+    ...(article.image_ids?.[0] && { image_id: article.image_ids[0] }),
+  })
+  if (detail === "standard") {
+    return item
+  }
+
+  const basePrice = decorators.find((decorator) => decorator.type === "BASE_PRICE")
+  if (basePrice?.base_price_text) {
+    item.base_price = basePrice.base_price_text
+  }
+  if (unavailable) {
+    item.unavailable = {
+      reason: unavailable.reason,
+      explanation: unavailable.explanation?.short_explanation,
+      replacements: unavailable.replacements?.map((replacement) => ({
+        id: replacement.id,
+        name: replacement.name,
+        price: replacement.display_price,
+        unit: replacement.unit_quantity,
+      })),
+    }
+  }
+  return item
+}
+
+/**
+ * Filter a Picnic cart for LLM consumption.
+ *
+ * The cart is an Order whose items are OrderLines, each holding OrderArticles.
+ * This flattens it to one item per article with its quantity and line price.
+ * "summary" keeps only names, quantities and the cart totals, "full" adds unavailable
+ * article replacements, base prices and the deposit breakdown.
+ */
+export function filterCartData(cart: unknown, detail: CartDetailLevel = "standard"): CartData {
+  const order = (cart && typeof cart === "object" ? cart : {}) as RawCart
+  const items = (order.items ?? []).flatMap((line) =>
+    (line.items ?? []).map((article) => filterArticle(article, line, detail)),
+  )
+  const unavailableCount = items.filter((item) => item.unavailable).length
+
+  const data: CartData = {
+    items,
+    total_count: order.total_count,
+    total_price: order.total_price,
+    checkout_total_price: order.checkout_total_price,
+    ...(unavailableCount > 0 && { unavailable_count: unavailableCount }),
+  }
+  if (detail === "summary") {
+    return data
+  }
+
+  const deposits = order.total_deposit ?? 0
+  Object.assign(data, {
+    total_savings: order.total_savings,
+    total_deposit: order.total_deposit,
+    breakdown: {
+      products: order.total_price,
+      deposits,
+      ...(order.checkout_total_price !== undefined &&
+        order.total_price !== undefined && {
+          fees_and_other: order.checkout_total_price - order.total_price - deposits,
+        }),
+      savings: order.total_savings,
+      checkout_total: order.checkout_total_price,
+    },
+  })
+  if (detail === "full") {
+    data.deposits = order.deposit_breakdown
+  }
+  return data
+}
@@ -0,0 +1,104 @@
+import { JsonFileStore, parseUsersFile } from "./json-file-store.js"
+
+export interface CartSnapshotItem {
+  productId: string
+  name?: string
+  quantity: number
+  price?: number // In cents, at the time the snapshot was saved
+}
+
+export interface CartSnapshot {
+  name: string
+  savedAt: string
+  items: CartSnapshotItem[]
+  totalPrice?: number
+}
+
+interface SnapshotFile {
+  // Snapshots per Picnic user ID and snapshot name
+  users: Record<string, Record<string, CartSnapshot>>
+}
+
+export interface CartDiff {
+  added: CartSnapshotItem[]
+  removed: CartSnapshotItem[]
+  changed: Array<{ productId: string; name?: string; fromQuantity: number; toQuantity: number }>
+  priceChanges: Array<{ productId: string; name?: string; fromPrice: number; toPrice: number }>
+}
+
+/**
+ * Differences between two carts: products only in the second one are added,
+ * products only in the first one removed
+ */
+export function diffCartItems(from: CartSnapshotItem[], to: CartSnapshotItem[]): CartDiff {
+  const fromItems = new Map(from.map((item) => [item.productId, item]))
+  const toItems = new Map(to.map((item) => [item.productId, item]))
+  const diff: CartDiff = { added: [], removed: [], changed: [], priceChanges: [] }
+
+  for (const item of to) {
+    const previous = fromItems.get(item.productId)
+    if (!previous) {
+      diff.added.push(item)
+      continue
+    }
+    const name = item.name ?? previous.name
+    if (previous.quantity !== item.quantity) {
+      diff.changed.push({
+        productId: item.productId,
+        name,
+        fromQuantity: previous.quantity,
+        toQuantity: item.quantity,
+      })
+    }
+    if (previous.price !== undefined && item.price !== undefined && previous.price !== item.price) {
+      diff.priceChanges.push({
+        productId: item.productId,
+        name,
+        fromPrice: previous.price,
+        toPrice: item.price,
+      })
+    }
+  }
+  diff.removed = from.filter((item) => !toItems.has(item.productId))
+
+  return diff
+}
+
+/**
+ * On-disk store for named cart snapshots, kept per Picnic user so accounts
+ * and HTTP sessions only see their own snapshots.
+ */
+export class CartSnapshotStore {
+  private readonly file: JsonFileStore<SnapshotFile>
+
+  constructor(private readonly filePath: string) {
+    this.file = new JsonFileStore<SnapshotFile>(filePath, "cart snapshot", parseUsersFile, () => ({
+      users: {},
+    }))
+  }
+
+  async list(userId: string): Promise<CartSnapshot[]> {
+    const file = await this.file.read()
+    return Object.values(file.users[userId] ?? {}).sort((a, b) =>
+      b.savedAt.localeCompare(a.savedAt),
+    )
+  }
+
+  async load(userId: string, name: string): Promise<CartSnapshot | null> {
+    const file = await this.file.read()
+    return file.users[userId]?.[name] ?? null
+  }
+
+  /**
+   * Store a snapshot, replacing any previous one with the same name
+   */
+  async save(userId: string, snapshot: CartSnapshot): Promise<void> {
+    await this.file.update((file) => {
+      file.users[userId] = { ...file.users[userId], [snapshot.name]: snapshot }
+    })
+  }
+
+  getFilePath(): string {
+    return this.filePath
+  }
+}
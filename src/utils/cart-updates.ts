@@ -0,0 +1,60 @@
+export interface CartTarget {
+  productId: string
+  quantity: number
+}
+
+export interface CartOperation {
+  productId: string
+  action: "add" | "remove"
+  count: number
+}
+
+interface CartArticle {
+  id?: string
+  decorators?: Array<{ type?: string; quantity?: number | string }>
+}
+
+/**
+ * Quantity of an article in a Picnic cart. Articles carry their quantity in
+ * a QUANTITY decorator, articles without one count as a single item.
+ */
+export function getArticleQuantity(article: CartArticle): number {
+  const decorator = article.decorators?.find((candidate) => candidate.type === "QUANTITY")
+  return decorator ? Number(decorator.quantity) : 1
+}
+
+/**
+ * Quantity of each product in a Picnic cart
+ */
+export function getCartQuantities(cart: unknown): Map<string, number> {
+  const quantities = new Map<string, number>()
+  const lines = (cart as { items?: Array<{ items?: CartArticle[] }> } | null)?.items ?? []
+
+  for (const line of lines) {
+    for (const article of line.items ?? []) {
+      if (!article.id) continue
+      quantities.set(article.id, (quantities.get(article.id) ?? 0) + getArticleQuantity(article))
+    }
+  }
+  return quantities
+}
+
+/**
+ * The add and remove operations that bring the cart from its current
+ * quantities to the target quantities. Products that are already at their
+ * target get no operation. When a product is listed twice the last target wins.
+ */
+export function planCartUpdate(
+  current: Map<string, number>,
+  targets: CartTarget[],
+): CartOperation[] {
+  const wanted = new Map(targets.map((target) => [target.productId, target.quantity]))
+
+  return [...wanted].flatMap(([productId, quantity]): CartOperation[] => {
+    const difference = quantity - (current.get(productId) ?? 0)
+    if (difference === 0) {
+      return []
+    }
+    return [{ productId, action: difference > 0 ? "add" : "remove", count: Math.abs(difference) }]
+  })
+}
@@ -0,0 +1,118 @@
+import { CartItem, filterCartData } from "./cart-data.js"
+
+export const DELIVERY_STATUSES = ["CURRENT", "COMPLETED", "CANCELLED"] as const
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number]
+
+export const DELIVERY_DETAIL_LEVELS = ["summary", "standard", "full"] as const
+export type DeliveryDetailLevel = (typeof DELIVERY_DETAIL_LEVELS)[number]
+
+// Most expensive articles shown from the standard detail level on
+const TOP_ARTICLE_COUNT = 5
+
+interface RawDelivery {
+  delivery_id?: string
+  status?: string
+  creation_time?: string
+  slot?: { window_start?: string; window_end?: string }
+  eta2?: { start?: string; end?: string }
+  delivery_time?: { start?: string; end?: string }
+  orders?: Array<{ total_count?: number; checkout_total_price?: number }>
+  returned_containers?: Array<{
+    type?: string
+    localized_name?: string
+    quantity?: number
+    price?: number
+  }>
+}
+
+/**
+ * A delivery for LLM consumption, prices are in cents
+ */
+export interface DeliveryData {
+  delivery_id?: string
+  status?: string
+  window?: { start?: string; end?: string }
+  eta?: { start?: string; end?: string }
+  delivered_at?: string
+  created_at?: string
+  total_price?: number // Checkout total of all orders in the delivery
+  item_count?: number
+  order_count: number
+  top_articles?: CartItem[]
+  missing_items?: Array<{ id?: string; name?: string; quantity: number; reason?: string }>
+  returned_items?: Array<{ type?: string; name?: string; quantity?: number; price?: number }>
+  articles?: CartItem[]
+}
+
+function formatTime(time?: string): string | undefined {
+  return time?.slice(0, 16)?.replace("T", " ")
+}
+
+/**
+ * Filter a Picnic delivery for LLM consumption.
+ *
+ * "summary" keeps the status, window, ETA and totals. "standard" adds the most
+ * expensive articles, articles that couldn't be delivered and the returned
+ * containers (bags, bottles). "full" adds every article with its prices.
+ * Deliveries in Picnic's list only carry what their orders summarize, so the
+ * article fields need the delivery from picnic_get_delivery.
+ */
+export function filterDeliveryData(
+  delivery: unknown,
+  detail: DeliveryDetailLevel = "standard",
+): DeliveryData {
+  const raw = (delivery && typeof delivery === "object" ? delivery : {}) as RawDelivery
+  const orders = raw.orders ?? []
+  const sum = (values: Array<number | undefined>) =>
+    values.some((value) => value !== undefined)
+      ? values.reduce<number>((total, value) => total + (value ?? 0), 0)
+      : undefined
+
+  const data: DeliveryData = {
+    delivery_id: raw.delivery_id,
+    status: raw.status,
+    window: { start: formatTime(raw.slot?.window_start), end: formatTime(raw.slot?.window_end) },
+    ...(raw.eta2 && { eta: { start: formatTime(raw.eta2.start), end: formatTime(raw.eta2.end) } }),
+    ...(raw.delivery_time?.start && { delivered_at: formatTime(raw.delivery_time.start) }),
+    created_at: formatTime(raw.creation_time),
+    total_price: sum(orders.map((order) => order.checkout_total_price)),
+    item_count: sum(orders.map((order) => order.total_count)),
+    order_count: orders.length,
+  }
+  if (detail === "summary") {
+    return data
+  }
+
+  // Orders have the same order lines as the cart
+  const articles = orders.flatMap((order) => filterCartData(order, "standard").items)
+  const missing = articles.filter((article) => article.unavailable)
+  const returned = (raw.returned_containers ?? []).filter((container) => container.quantity)
+
+  if (articles.length > 0) {
+    data.top_articles = articles
+      .filter((article) => !article.unavailable)
+      .sort((a, b) => (b.line_price ?? 0) - (a.line_price ?? 0))
+      .slice(0, TOP_ARTICLE_COUNT)
+      .map(({ id, name, quantity, line_price }) => ({ id, name, quantity, line_price }))
+  }
+  if (missing.length > 0) {
+    data.missing_items = missing.map((article) => ({
+      id: article.id,
+      name: article.name,
+      quantity: article.quantity,
+      reason: article.unavailable?.reason,
+    }))
+  }
+  if (returned.length > 0) {
+    data.returned_items = returned.map((container) => ({
+      type: container.type,
+      name: container.localized_name,
+      quantity: container.quantity,
+      price: container.price,
+    }))
+  }
+  if (detail === "full" && articles.length > 0) {
+    data.articles = articles
+  }
+  return data
+}
@@ -0,0 +1,184 @@
+import { ErrorUtils } from "../types/errors.js"
+
+export interface TrackingClient {
+  getDelivery(deliveryId: string): Promise<{
+    status?: string
+    slot?: { window_start?: string; window_end?: string }
+    eta2?: { start?: string; end?: string }
+    delivery_time?: { start?: string; end?: string }
+  }>
+  getDeliveryScenario(
+    deliveryId: string,
+  ): Promise<{ scenario?: Array<{ ts?: string; lat?: string; lng?: string }> }>
+  getDeliveryPosition(deliveryId: string): Promise<{ scenario_ts?: string }>
+}
+
+/**
+ * Compact live view of a delivery for LLM consumption
+ */
+export interface DeliveryTracking {
+  delivery_id: string
+  status?: string
+  window?: { start?: string; end?: string }
+  eta?: { start?: string; end?: string }
+  delivered_at?: string
+  // Where the driver is now, only while the delivery is on its way
+  driver?: {
+    lat: number
+    lng: number
+    at?: string
+    route_points_passed: number // Points of the planned route driven so far
+    route_points: number
+  }
+}
+
+// Deliveries in these states don't change anymore, so watching them stops
+const FINAL_STATUSES = ["COMPLETED", "CANCELLED"]
+
+function formatTime(time?: string): string | undefined {
+  return time?.slice(0, 16)?.replace("T", " ")
+}
+
+/**
+ * Merge a delivery with its route (scenario) and the driver's progress along
+ * it (position). The driver is at the last route point at or before the
+ * position's scenario timestamp.
+ */
+export function buildDeliveryTracking(
+  deliveryId: string,
+  delivery: Awaited<ReturnType<TrackingClient["getDelivery"]>>,
+  scenario?: Awaited<ReturnType<TrackingClient["getDeliveryScenario"]>>,
+  position?: Awaited<ReturnType<TrackingClient["getDeliveryPosition"]>>,
+): DeliveryTracking {
+  const tracking: DeliveryTracking = {
+    delivery_id: deliveryId,
+    status: delivery.status,
+    window: {
+      start: formatTime(delivery.slot?.window_start),
+      end: formatTime(delivery.slot?.window_end),
+    },
+    ...(delivery.eta2 && {
+      eta: { start: formatTime(delivery.eta2.start), end: formatTime(delivery.eta2.end) },
+    }),
+    ...(delivery.delivery_time?.start && {
+      delivered_at: formatTime(delivery.delivery_time.start),
+    }),
+  }
+
+  const route = (scenario?.scenario ?? [])
+    .filter((point) => point.ts && point.lat && point.lng)
+    .sort((a, b) => a.ts!.localeCompare(b.ts!))
+  const now = position?.scenario_ts
+  if (route.length > 0 && now && !FINAL_STATUSES.includes(delivery.status ?? "")) {
+    const passed = Math.max(1, route.filter((point) => point.ts! <= now).length)
+    const current = route[passed - 1]
+    tracking.driver = {
+      lat: Number(current.lat),
+      lng: Number(current.lng),
+      at: formatTime(current.ts),
+      route_points_passed: passed,
+      route_points: route.length,
+    }
+  }
+  return tracking
+}
+
+interface TrackedDelivery {
+  listeners: Set<() => void>
+  timer: NodeJS.Timeout
+  fingerprint?: string
+}
+
+/**
+ * Live delivery tracking that only polls Picnic while someone is subscribed.
+ * Subscribers are called whenever the status, ETA or driver position changed.
+ */
+export class DeliveryTracker {
+  private tracked = new Map<string, TrackedDelivery>()
+
+  constructor(
+    private readonly getClient: () => Promise<TrackingClient>,
+    private readonly intervalMs: number,
+  ) {}
+
+  /**
+   * Fetch the current tracking of a delivery. The route and position are
+   * missing before the delivery is on its way, which isn't an error.
+   */
+  async getTracking(deliveryId: string): Promise<DeliveryTracking> {
+    const client = await this.getClient()
+    const [delivery, scenario, position] = await Promise.all([
+      client.getDelivery(deliveryId),
+      client.getDeliveryScenario(deliveryId).catch(() => undefined),
+      client.getDeliveryPosition(deliveryId).catch(() => undefined),
+    ])
+    return buildDeliveryTracking(deliveryId, delivery, scenario, position)
+  }
+
+  /**
+   * Call onUpdate whenever the tracking of the delivery changes, returns a
+   * function that unsubscribes. Polling stops with the last subscriber.
+   */
+  subscribe(deliveryId: string, onUpdate: () => void): () => void {
+    const tracked = this.tracked.get(deliveryId) ?? this.start(deliveryId)
+    const listener = () => onUpdate()
+    tracked.listeners.add(listener)
+    return () => {
+      tracked.listeners.delete(listener)
+      // The delivery may be tracked again by now, with other subscribers
+      if (tracked.listeners.size === 0 && this.tracked.get(deliveryId) === tracked) {
+        this.stop(deliveryId)
+      }
+    }
+  }
+
+  private start(deliveryId: string): TrackedDelivery {
+    const poll = () =>
+      this.poll(deliveryId).catch((error) => ErrorUtils.logError(error, "Delivery tracking"))
+    const timer = setInterval(poll, this.intervalMs)
+    // Tracking only serves connected clients, it must not hold up shutdown once they are gone
+    timer.unref()
+    const tracked = { listeners: new Set<() => void>(), timer }
+    this.tracked.set(deliveryId, tracked)
+    // Record the current state, so only later changes are reported
+    poll()
+    return tracked
+  }
+
+  get size(): number {
+    return this.tracked.size
+  }
+
+  stopAll(): void {
+    for (const deliveryId of [...this.tracked.keys()]) {
+      this.stop(deliveryId)
+    }
+  }
+
+  private stop(deliveryId: string): void {
+    const tracked = this.tracked.get(deliveryId)
+    if (tracked) {
+      clearInterval(tracked.timer)
+      this.tracked.delete(deliveryId)
+    }
+  }
+
+  private async poll(deliveryId: string): Promise<void> {
+    const tracking = await this.getTracking(deliveryId)
+    const tracked = this.tracked.get(deliveryId)
+    if (!tracked) {
+      return
+    }
+
+    const fingerprint = JSON.stringify(tracking)
+    const changed = tracked.fingerprint !== undefined && tracked.fingerprint !== fingerprint
+    tracked.fingerprint = fingerprint
+    if (changed) {
+      tracked.listeners.forEach((listener) => listener())
+    }
+    // Nothing changes after delivery, the subscribers stay but polling ends
+    if (FINAL_STATUSES.includes(tracking.status ?? "")) {
+      clearInterval(tracked.timer)
+    }
+  }
+}
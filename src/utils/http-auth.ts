@@ -0,0 +1,167 @@
+import { createHash, timingSafeEqual } from "crypto"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js"
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js"
+import { ANNIE } from "../types/annie.js"
+import { TransportError, ErrorCode, ErrorUtils } from "../types/errors.js"
+
+// Scopes granted to authenticated HTTP clients, checked by the MCP request handlers
+export const READ_SCOPE = "picnic:read"
+export const WRITE_SCOPE = "picnic:write"
+
+export interface ApiKeyConfig {
+  key: string
+  name: string // Reported as the client ID, never the key itself
+  readOnly?: boolean // Only allow tools that don't change anything
+}
+
+export interface HttpAuthConfig {
+  apiKeys: ApiKeyConfig[]
+  // Accept OAuth access tokens that aren't API keys
+  tokenVerifier?: OAuthTokenVerifier
+  // Advertised in 401 responses so OAuth clients can discover the authorization server
+  resourceMetadataUrl?: string
+}
+
+/**
+ * Parse a comma separated list of API keys, e.g. "key-one,key-two:readonly"
+ */
+export function parseApiKeys(value: string): ApiKeyConfig[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const readOnly = entry.endsWith(":readonly")
+      return {
+        key: readOnly ? entry.slice(0, -":readonly".length) : entry,
+        name: `api-key-${index + 1}`,
+        readOnly,
+      }
+    })
+}
+
+/**
+ * Whether the request may use tools that change data. Requests without auth
+ * info (stdio, or HTTP without auth configured) have full access.
+ */
+export function hasWriteAccess(authInfo?: AuthInfo): boolean {
+  return !authInfo || authInfo.scopes.includes(WRITE_SCOPE)
+}
+
+/**
+ * Who is calling, to bind HTTP sessions to: the API key, or the OAuth client
+ * together with the user the access token was issued to. Undefined when an
+ * access token doesn't name its user, as then callers can't be told apart.
+ */
+export function getAuthIdentity(authInfo: AuthInfo): string | undefined {
+  const { apiKey, username, subject } = (authInfo.extra ?? {}) as {
+    apiKey?: boolean
+    username?: string
+    subject?: string
+  }
+  if (apiKey) {
+    return JSON.stringify(["api-key", authInfo.clientId])
+  }
+  const user = username ?? subject
+  return authInfo.clientId && user ? JSON.stringify(["oauth", authInfo.clientId, user]) : undefined
+}
+
+/**
+ * Read the API key from an "Authorization: Bearer <key>" or "X-API-Key" header
+ */
+function getRequestToken(req: ANNIE): string | undefined {
+  const authorization: string | undefined = req.header("authorization")
+  if (authorization) {
+    const [scheme, token] = authorization.split(" ")
+    return scheme.toLowerCase() === "bearer" && token ? token.trim() : undefined
+  }
+  return req.header("x-api-key") || undefined
+}
+
+function hashKey(key: string): Buffer {
+  return createHash("sha256").update(key).digest()
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+export function secretsEqual(a: string, b: string): boolean {
+  return timingSafeEqual(hashKey(a), hashKey(b))
+}
+
+/**
+ * Express middleware factory for API key and OAuth access token authentication.
+ * Authenticated requests get req.auth set, which the MCP transport passes on
+ * to the request handlers.
+ */
+export function createAuthMiddleware(config: HttpAuthConfig) {
+  // Compare fixed-length hashes in constant time so response timing doesn't leak key prefixes
+  const keys = config.apiKeys.map((apiKey) => ({ ...apiKey, hash: hashKey(apiKey.key) }))
+  const credentialName = config.tokenVerifier ? "access token" : "API key"
+
+  const reject = (res: ANNIE, message: string) => {
+    const error = new TransportError(ErrorCode.TRANSPORT_UNAUTHORIZED, message)
+
+    res.set(
+      "WWW-Authenticate",
+      config.resourceMetadataUrl
+        ? `Bearer realm="mcp-picnic", resource_metadata="${config.resourceMetadataUrl}"`
+        : 'Bearer realm="mcp-picnic"',
+    )
+    return res.status(401).json({
+      jsonrpc: "2.0",
+      error: error.toMCPError(),
+      id: null,
+    })
+  }
+
+  return async (req: ANNIE, res: ANNIE, next: ANNIE) => {
+    const token = getRequestToken(req)
+    if (!token) {
+      return reject(res, `Missing ${credentialName}`)
+    }
+
+    const tokenHash = hashKey(token)
+    const apiKey = keys.find((key) => timingSafeEqual(key.hash, tokenHash))
+    if (apiKey) {
+      const authInfo: AuthInfo = {
+        token,
+        clientId: apiKey.name,
+        scopes: apiKey.readOnly ? [READ_SCOPE] : [READ_SCOPE, WRITE_SCOPE],
+        extra: { apiKey: true },
+      }
+      req.auth = authInfo
+      return next()
+    }
+
+    if (!config.tokenVerifier) {
+      return reject(res, "Invalid API key")
+    }
+
+    try {
+      const authInfo = await config.tokenVerifier.verifyAccessToken(token)
+      if (authInfo.expiresAt && authInfo.expiresAt < Date.now() / 1000) {
+        return reject(res, "Access token has expired")
+      }
+      req.auth = authInfo
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        return reject(res, error.message)
+      }
+
+      ErrorUtils.logError(error, "Access Token Verification")
+      const transportError = new TransportError(
+        ErrorCode.INTERNAL_ERROR,
+        "Could not verify access token",
+      )
+      return res.status(500).json({
+        jsonrpc: "2.0",
+        error: transportError.toMCPError(),
+        id: null,
+      })
+    }
+
+    next()
+  }
+}
@@ -0,0 +1,82 @@
+import { ToolError, ErrorCode } from "../types/errors.js"
+
+export const IMAGE_SIZES = ["tiny", "small", "medium", "large", "extra-large"] as const
+export type ImageSize = (typeof IMAGE_SIZES)[number]
+
+export interface ImageData {
+  data: string // Base64 encoded
+  mimeType: string
+}
+
+// Magic numbers of the image formats Picnic serves
+const SIGNATURES: Array<{ mimeType: string; matches: (bytes: Buffer) => boolean }> = [
+  {
+    mimeType: "image/png",
+    matches: (bytes) =>
+      bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: "image/jpeg",
+    matches: (bytes) => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  { mimeType: "image/gif", matches: (bytes) => bytes.subarray(0, 4).toString("ascii") === "GIF8" },
+  {
+    mimeType: "image/webp",
+    matches: (bytes) =>
+      bytes.subarray(0, 4).toString("ascii") === "RIFF" &&
+      bytes.subarray(8, 12).toString("ascii") === "WEBP",
+  },
+]
+
+/**
+ * Detect the MIME type of image data from its leading bytes, falling back to
+ * the Content-Type the server sent. Returns undefined when it isn't an image.
+ */
+export function detectImageMimeType(
+  bytes: Buffer,
+  contentType?: string | null,
+): string | undefined {
+  const signature = SIGNATURES.find((candidate) => candidate.matches(bytes))
+  if (signature) {
+    return signature.mimeType
+  }
+
+  const declared = contentType?.split(";")[0].trim().toLowerCase()
+  return declared?.startsWith("image/") ? declared : undefined
+}
+
+/**
+ * Download a product image from the Picnic static image server.
+ *
+ * picnic-api's getImage prefixes the image URL with the API URL, so the
+ * images are fetched here instead. They don't require authentication.
+ */
+export async function fetchProductImage(
+  apiUrl: string,
+  imageId: string,
+  size: ImageSize,
+): Promise<ImageData> {
+  const baseUrl = apiUrl.split("/api/")[0]
+  const url = `${baseUrl}/static/images/${encodeURIComponent(imageId)}/${size}.png`
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new ToolError(
+      ErrorCode.TOOL_EXECUTION_FAILED,
+      `Failed to fetch image '${imageId}': ${response.status} ${response.statusText}`,
+      { imageId, size },
+    )
+  }
+
+  const bytes = Buffer.from(await response.arrayBuffer())
+  const mimeType = detectImageMimeType(bytes, response.headers.get("content-type"))
+  if (!mimeType) {
+    throw new ToolError(
+      ErrorCode.TOOL_EXECUTION_FAILED,
+      `Picnic did not return an image for '${imageId}'`,
+      { imageId, size },
+    )
+  }
+
+  return { data: bytes.toString("base64"), mimeType }
+}
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+
+// Pending updates per file, shared by all stores of the same path in this process
+const fileQueues = new Map<string, Promise<unknown>>()
+
+/**
+ * A JSON file holding one object, only ever readable by the current user
+ * (0600, directory 0700). Reads and updates of the same file are serialized,
+ * so overlapping updates can't lose each other's changes.
+ */
+export class JsonFileStore<T extends object> {
+  private readonly filePath: string
+
+  /**
+   * @param filePath Where the file is stored
+   * @param label What the file holds, for log messages, e.g. "cart snapshot"
+   * @param parse Get the content from the parsed JSON, undefined when it isn't valid
+   * @param empty Content of a missing or unreadable file
+   */
+  constructor(
+    filePath: string,
+    private readonly label: string,
+    private readonly parse: (value: unknown) => T | undefined,
+    private readonly empty: () => T,
+  ) {
+    this.filePath = path.resolve(filePath)
+  }
+
+  read(): Promise<T> {
+    return this.enqueue(() => this.readFile())
+  }
+
+  /**
+   * Change the content and write it back. The change function edits the
+   * content in place and returns false when nothing needs to be written.
+   */
+  update(change: (content: T) => boolean | void): Promise<void> {
+    return this.enqueue(async () => {
+      const content = await this.readFile()
+      if (change(content) !== false) {
+        await this.writeFile(content)
+      }
+    })
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = (fileQueues.get(this.filePath) ?? Promise.resolve()).then(task)
+    // A failed task doesn't stop the ones queued after it
+    const queue = result.catch(() => undefined)
+    fileQueues.set(this.filePath, queue)
+    queue.then(() => {
+      if (fileQueues.get(this.filePath) === queue) {
+        fileQueues.delete(this.filePath)
+      }
+    })
+    return result
+  }
+
+  private async readFile(): Promise<T> {
+    let raw: string
+    try {
+      raw = await fs.readFile(this.filePath, "utf8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.empty()
+      }
+      throw error
+    }
+
+    try {
+      const content = this.parse(JSON.parse(raw))
+      if (content) {
+        return content
+      }
+    } catch {
+      // Fall through and treat a corrupt file as empty, it is rewritten on the next update
+    }
+    console.error(`Ignoring unreadable ${this.label} file at ${this.filePath}`)
+    return this.empty()
+  }
+
+  private async writeFile(content: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 })
+
+    // Write to a temporary file first so a crash never leaves a truncated file
+    const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(content, null, 2), { mode: 0o600 })
+      await fs.chmod(tempPath, 0o600)
+      await fs.rename(tempPath, this.filePath)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+}
+
+/**
+ * Parse a file keeping its content per user, as { users: { [userId]: ... } }
+ */
+export function parseUsersFile<T>(value: unknown): { users: Record<string, T> } | undefined {
+  const users = (value as { users?: unknown } | null)?.users
+  return users && typeof users === "object" ? { users: users as Record<string, T> } : undefined
+}
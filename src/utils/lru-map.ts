@@ -0,0 +1,26 @@
+/**
+ * A Map that iterates its entries from least to most recently set. Setting a
+ * key that is already present moves it to the end, so re-setting an entry on
+ * use keeps the least recently used ones first in line for trim().
+ */
+export class LruMap<K, V> extends Map<K, V> {
+  set(key: K, value: V): this {
+    super.delete(key)
+    return super.set(key, value)
+  }
+
+  /**
+   * Drop the least recently set entries beyond maxSize, returns how many were dropped
+   */
+  trim(maxSize: number): number {
+    let dropped = 0
+    for (const key of this.keys()) {
+      if (this.size <= maxSize) {
+        break
+      }
+      this.delete(key)
+      dropped++
+    }
+    return dropped
+  }
+}
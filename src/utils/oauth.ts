@@ -0,0 +1,626 @@
+import { randomBytes } from "crypto"
+import express, { Request, Response } from "express"
+import { z } from "zod"
+import { mcpAuthRouter } from "@modelcontextprotocol/sdk/server/auth/router.js"
+import type {
+  AuthorizationParams,
+  OAuthServerProvider,
+  OAuthTokenVerifier,
+} from "@modelcontextprotocol/sdk/server/auth/provider.js"
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import type {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js"
+import {
+  InvalidGrantError,
+  InvalidScopeError,
+  InvalidTokenError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js"
+import { config } from "../config.js"
+import { MCPError, ErrorCode, ErrorUtils } from "../types/errors.js"
+import { READ_SCOPE, WRITE_SCOPE, secretsEqual } from "./http-auth.js"
+
+const SUPPORTED_SCOPES = [READ_SCOPE, WRITE_SCOPE]
+const CONSENT_PATH = "/oauth/consent"
+const RESOURCE_NAME = "Picnic MCP Server"
+
+export interface OAuthUser {
+  username: string
+  password: string
+  readOnly?: boolean // Only grant the read scope, whatever the client asks for
+}
+
+export interface LocalOAuthProviderOptions {
+  users: OAuthUser[]
+  authorizationCodeTtlSeconds?: number
+  accessTokenTtlSeconds?: number
+  refreshTokenTtlSeconds?: number
+}
+
+/**
+ * Either run the built-in authorization server (local) or accept tokens issued
+ * by an external authorization server, verified through token introspection
+ */
+export interface OAuthConfig {
+  publicUrl: URL // Public base URL of this server, the issuer for the built-in authorization server
+  local?: LocalOAuthProviderOptions
+  external?: IntrospectionTokenVerifierOptions & { issuerUrl: URL }
+}
+
+interface PendingAuthorization {
+  client: OAuthClientInformationFull
+  params: AuthorizationParams
+  expiresAt: number
+}
+
+interface AuthorizationCode {
+  clientId: string
+  username: string
+  scopes: string[]
+  codeChallenge: string
+  redirectUri: string
+  expiresAt: number
+}
+
+interface IssuedToken {
+  clientId: string
+  username: string
+  scopes: string[]
+  expiresAt: number
+}
+
+function generateToken(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Parse a comma separated list of users, e.g. "alice:secret,bob:secret:readonly"
+ */
+export function parseOAuthUsers(value: string): OAuthUser[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const readOnly = entry.endsWith(":readonly")
+      const credentials = readOnly ? entry.slice(0, -":readonly".length) : entry
+      const separator = credentials.indexOf(":")
+      if (separator <= 0) {
+        throw new MCPError(
+          ErrorCode.CONFIGURATION_ERROR,
+          "OAUTH_USERS entries must look like username:password[:readonly]",
+        )
+      }
+      return {
+        username: credentials.slice(0, separator),
+        password: credentials.slice(separator + 1),
+        readOnly,
+      }
+    })
+}
+
+/**
+ * Registered OAuth clients, kept in memory. Clients register again through
+ * dynamic client registration after a restart.
+ */
+class InMemoryClientsStore implements OAuthRegisteredClientsStore {
+  private clients = new Map<string, OAuthClientInformationFull>()
+
+  getClient(clientId: string): OAuthClientInformationFull | undefined {
+    return this.clients.get(clientId)
+  }
+
+  registerClient(client: OAuthClientInformationFull): OAuthClientInformationFull {
+    this.clients.set(client.client_id, client)
+    return client
+  }
+}
+
+/**
+ * Minimal built-in OAuth 2.1 authorization server: users log in on a consent
+ * page, and codes and tokens are kept in memory (a restart logs everyone out).
+ * PKCE is validated by the SDK's token handler.
+ */
+export class LocalOAuthProvider implements OAuthServerProvider {
+  readonly clientsStore = new InMemoryClientsStore()
+
+  private options: Required<LocalOAuthProviderOptions>
+  private pendingAuthorizations = new Map<string, PendingAuthorization>()
+  private authorizationCodes = new Map<string, AuthorizationCode>()
+  private accessTokens = new Map<string, IssuedToken>()
+  private refreshTokens = new Map<string, IssuedToken>()
+  private cleanupInterval: NodeJS.Timeout
+
+  constructor(options: LocalOAuthProviderOptions) {
+    this.options = {
+      authorizationCodeTtlSeconds: 5 * 60,
+      accessTokenTtlSeconds: 60 * 60,
+      refreshTokenTtlSeconds: 30 * 24 * 60 * 60,
+      ...options,
+    }
+
+    // Clean up expired codes and tokens every minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup()
+    }, 60000)
+  }
+
+  /**
+   * Show the login and consent page. The authorization request is kept on the
+   * server, the page only carries an opaque ID for it.
+   */
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: Response,
+  ): Promise<void> {
+    const requestId = generateToken()
+    this.pendingAuthorizations.set(requestId, {
+      client,
+      params,
+      expiresAt: Date.now() + this.options.authorizationCodeTtlSeconds * 1000,
+    })
+
+    res
+      .status(200)
+      .type("html")
+      .send(this.renderConsentPage(requestId, client, params))
+  }
+
+  /**
+   * Express handler for the consent form posted from the authorization page
+   */
+  consentHandler() {
+    const router = express.Router()
+    router.use(express.urlencoded({ extended: false }))
+    router.post("/", (req: Request, res: Response) => this.handleConsent(req, res))
+    return router
+  }
+
+  /**
+   * Check the user's credentials and redirect back to the client with an
+   * authorization code, or with an error when access was denied
+   */
+  private handleConsent(req: Request, res: Response): void {
+    res.setHeader("Cache-Control", "no-store")
+    const { request_id, username, password, action } = req.body ?? {}
+
+    const pending =
+      typeof request_id === "string" ? this.pendingAuthorizations.get(request_id) : undefined
+    if (!pending || pending.expiresAt < Date.now()) {
+      res
+        .status(400)
+        .type("html")
+        .send(
+          this.renderPage(
+            "Authorization expired",
+            "<p>This authorization request has expired. Start again from your MCP client.</p>",
+          ),
+        )
+      return
+    }
+
+    const redirectUrl = new URL(pending.params.redirectUri)
+    if (pending.params.state) {
+      redirectUrl.searchParams.set("state", pending.params.state)
+    }
+
+    if (action !== "approve") {
+      this.pendingAuthorizations.delete(request_id)
+      redirectUrl.searchParams.set("error", "access_denied")
+      redirectUrl.searchParams.set("error_description", "The user denied access")
+      res.redirect(302, redirectUrl.href)
+      return
+    }
+
+    const user = this.findUser(username, password)
+    if (!user) {
+      res
+        .status(401)
+        .type("html")
+        .send(
+          this.renderConsentPage(
+            request_id,
+            pending.client,
+            pending.params,
+            "Invalid username or password",
+          ),
+        )
+      return
+    }
+
+    this.pendingAuthorizations.delete(request_id)
+    const code = generateToken()
+    this.authorizationCodes.set(code, {
+      clientId: pending.client.client_id,
+      username: user.username,
+      scopes: this.grantScopes(user, pending.params.scopes),
+      codeChallenge: pending.params.codeChallenge,
+      redirectUri: pending.params.redirectUri,
+      expiresAt: Date.now() + this.options.authorizationCodeTtlSeconds * 1000,
+    })
+
+    redirectUrl.searchParams.set("code", code)
+    res.redirect(302, redirectUrl.href)
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+  ): Promise<string> {
+    return this.getAuthorizationCode(client, authorizationCode).codeChallenge
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string,
+  ): Promise<OAuthTokens> {
+    const code = this.getAuthorizationCode(client, authorizationCode)
+    if (redirectUri && redirectUri !== code.redirectUri) {
+      throw new InvalidGrantError("redirect_uri does not match the authorization request")
+    }
+
+    // Codes are single use
+    this.authorizationCodes.delete(authorizationCode)
+    return this.issueTokens(client.client_id, code.username, code.scopes)
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+  ): Promise<OAuthTokens> {
+    const token = this.refreshTokens.get(refreshToken)
+    if (!token || token.clientId !== client.client_id || token.expiresAt < Date.now()) {
+      throw new InvalidGrantError("Invalid refresh token")
+    }
+    if (scopes?.some((scope) => !token.scopes.includes(scope))) {
+      throw new InvalidScopeError("Requested scopes exceed the original grant")
+    }
+
+    // Rotate refresh tokens so a leaked one stops working after its next use
+    this.refreshTokens.delete(refreshToken)
+    return this.issueTokens(client.client_id, token.username, scopes ?? token.scopes)
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const accessToken = this.accessTokens.get(token)
+    if (!accessToken || accessToken.expiresAt < Date.now()) {
+      throw new InvalidTokenError("Invalid or expired access token")
+    }
+
+    return {
+      token,
+      clientId: accessToken.clientId,
+      scopes: accessToken.scopes,
+      expiresAt: Math.floor(accessToken.expiresAt / 1000),
+      extra: { username: accessToken.username },
+    }
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest,
+  ): Promise<void> {
+    for (const tokens of [this.accessTokens, this.refreshTokens]) {
+      if (tokens.get(request.token)?.clientId === client.client_id) {
+        tokens.delete(request.token)
+      }
+    }
+  }
+
+  /**
+   * Destroy the provider and clean up resources
+   */
+  destroy(): void {
+    clearInterval(this.cleanupInterval)
+    this.pendingAuthorizations.clear()
+    this.authorizationCodes.clear()
+    this.accessTokens.clear()
+    this.refreshTokens.clear()
+  }
+
+  private getAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+  ): AuthorizationCode {
+    const code = this.authorizationCodes.get(authorizationCode)
+    if (!code || code.clientId !== client.client_id || code.expiresAt < Date.now()) {
+      throw new InvalidGrantError("Invalid or expired authorization code")
+    }
+    return code
+  }
+
+  private findUser(username: unknown, password: unknown): OAuthUser | undefined {
+    if (typeof username !== "string" || typeof password !== "string") {
+      return undefined
+    }
+    // Check every user so the response time doesn't reveal which usernames exist
+    let match: OAuthUser | undefined
+    for (const user of this.options.users) {
+      const usernameMatches = secretsEqual(user.username, username)
+      const passwordMatches = secretsEqual(user.password, password)
+      if (usernameMatches && passwordMatches) {
+        match = user
+      }
+    }
+    return match
+  }
+
+  /**
+   * Grant the requested scopes the user is allowed to have, or all of them when
+   * the client didn't ask for any we know
+   */
+  private grantScopes(user: OAuthUser, requested: string[] = []): string[] {
+    const allowed = user.readOnly ? [READ_SCOPE] : SUPPORTED_SCOPES
+    const granted = requested.filter((scope) => allowed.includes(scope))
+    return granted.length > 0 ? granted : allowed
+  }
+
+  private issueTokens(clientId: string, username: string, scopes: string[]): OAuthTokens {
+    const accessToken = generateToken()
+    const refreshToken = generateToken()
+    const now = Date.now()
+
+    this.accessTokens.set(accessToken, {
+      clientId,
+      username,
+      scopes,
+      expiresAt: now + this.options.accessTokenTtlSeconds * 1000,
+    })
+    this.refreshTokens.set(refreshToken, {
+      clientId,
+      username,
+      scopes,
+      expiresAt: now + this.options.refreshTokenTtlSeconds * 1000,
+    })
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: this.options.accessTokenTtlSeconds,
+      scope: scopes.join(" "),
+      refresh_token: refreshToken,
+    }
+  }
+
+  private cleanup(): void {
+    const now = Date.now()
+    for (const store of [
+      this.pendingAuthorizations,
+      this.authorizationCodes,
+      this.accessTokens,
+      this.refreshTokens,
+    ]) {
+      for (const [key, entry] of store.entries()) {
+        if (entry.expiresAt < now) {
+          store.delete(key)
+        }
+      }
+    }
+  }
+
+  private renderConsentPage(
+    requestId: string,
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    error?: string,
+  ): string {
+    const clientName = escapeHtml(client.client_name || client.client_id)
+    const scopes = params.scopes?.length ? params.scopes : SUPPORTED_SCOPES
+
+    return this.renderPage(
+      "Authorize access to Picnic",
+      `<p><strong>${clientName}</strong> wants to use your Picnic account through this server.</p>
+    <p>Requested access: ${scopes.map((scope) => `<code>${escapeHtml(scope)}</code>`).join(", ")}</p>
+    ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+    <form method="post" action="${CONSENT_PATH}">
+      <input type="hidden" name="request_id" value="${escapeHtml(requestId)}" />
+      <label>Username <input name="username" autocomplete="username" required /></label>
+      <label>Password <input name="password" type="password" autocomplete="current-password" required /></label>
+      <button type="submit" name="action" value="approve">Allow</button>
+      <button type="submit" name="action" value="deny" formnovalidate>Deny</button>
+    </form>`,
+    )
+  }
+
+  private renderPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; }
+      label { display: block; margin: 0.75rem 0; }
+      input { display: block; width: 100%; padding: 0.4rem; box-sizing: border-box; }
+      button { margin-right: 0.5rem; padding: 0.4rem 1rem; }
+      .error { color: #b00020; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    ${body}
+  </body>
+</html>`
+  }
+}
+
+// RFC 7662 token introspection response, only the fields we use
+const introspectionResponseSchema = z.object({
+  active: z.boolean(),
+  scope: z.string().optional(),
+  client_id: z.string().optional(),
+  sub: z.string().optional(),
+  exp: z.number().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+})
+
+export interface IntrospectionTokenVerifierOptions {
+  introspectionUrl: URL
+  clientId?: string // Credentials this server uses to call the introspection endpoint
+  clientSecret?: string
+  audience?: string // Reject tokens issued for other resources
+}
+
+/**
+ * Verifies access tokens issued by an external authorization server through
+ * its token introspection endpoint (RFC 7662)
+ */
+export class IntrospectionTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly options: IntrospectionTokenVerifierOptions) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const { introspectionUrl, clientId, clientSecret, audience } = this.options
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    }
+    if (clientId) {
+      const credentials = Buffer.from(`${clientId}:${clientSecret ?? ""}`).toString("base64")
+      headers.Authorization = `Basic ${credentials}`
+    }
+
+    let response: globalThis.Response
+    try {
+      response = await fetch(introspectionUrl, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+      })
+    } catch (error) {
+      throw new ServerError(`Token introspection failed: ${ErrorUtils.getErrorMessage(error)}`)
+    }
+    if (!response.ok) {
+      throw new ServerError(`Token introspection failed with status ${response.status}`)
+    }
+
+    const result = introspectionResponseSchema.safeParse(await response.json())
+    if (!result.success) {
+      throw new ServerError("Invalid token introspection response")
+    }
+    if (!result.data.active) {
+      throw new InvalidTokenError("Access token is not active")
+    }
+
+    // Without an audience the token could have been issued for any resource of the issuer
+    const audiences = [result.data.aud ?? []].flat()
+    if (audience && !audiences.includes(audience)) {
+      throw new InvalidTokenError("Access token was not issued for this resource")
+    }
+    // Sessions belong to the client and user of a token, so both have to be known
+    if (!result.data.client_id) {
+      throw new InvalidTokenError("Access token has no client ID")
+    }
+
+    return {
+      token,
+      clientId: result.data.client_id,
+      scopes: result.data.scope?.split(" ").filter(Boolean) ?? [],
+      expiresAt: result.data.exp,
+      extra: { subject: result.data.sub },
+    }
+  }
+}
+
+/**
+ * Create the OAuth routes and the token verifier for the HTTP server. Both the
+ * routes and the protected resource metadata must be mounted at the app root.
+ */
+export function createOAuthRouter(oauthConfig: OAuthConfig) {
+  const router = express.Router()
+  const resourceMetadataUrl = new URL(
+    "/.well-known/oauth-protected-resource",
+    oauthConfig.publicUrl,
+  ).href
+
+  if (oauthConfig.local) {
+    const provider = new LocalOAuthProvider(oauthConfig.local)
+    router.use(
+      mcpAuthRouter({
+        provider,
+        issuerUrl: oauthConfig.publicUrl,
+        scopesSupported: SUPPORTED_SCOPES,
+        resourceName: RESOURCE_NAME,
+      }),
+    )
+    router.use(CONSENT_PATH, provider.consentHandler())
+    return { router, verifier: provider as OAuthTokenVerifier, resourceMetadataUrl, provider }
+  }
+
+  if (oauthConfig.external) {
+    const { issuerUrl, ...verifierOptions } = oauthConfig.external
+    router.get("/.well-known/oauth-protected-resource", (_req: Request, res: Response) => {
+      res.status(200).json({
+        resource: oauthConfig.publicUrl.href,
+        authorization_servers: [issuerUrl.href],
+        scopes_supported: SUPPORTED_SCOPES,
+        bearer_methods_supported: ["header"],
+        resource_name: RESOURCE_NAME,
+      })
+    })
+    const verifier = new IntrospectionTokenVerifier(verifierOptions)
+    return { router, verifier: verifier as OAuthTokenVerifier, resourceMetadataUrl }
+  }
+
+  throw new MCPError(
+    ErrorCode.CONFIGURATION_ERROR,
+    "OAuth needs either a local user store or an external issuer",
+  )
+}
+
+/**
+ * Build the OAuth configuration from the environment, if OAuth is enabled
+ */
+export function getOAuthConfig(): OAuthConfig | undefined {
+  if (!config.OAUTH_MODE) {
+    return undefined
+  }
+
+  const publicUrl = new URL(
+    config.HTTP_PUBLIC_URL || `http://${config.HTTP_HOST}:${config.HTTP_PORT}`,
+  )
+
+  if (config.OAUTH_MODE === "local") {
+    if (!config.OAUTH_USERS) {
+      throw new MCPError(
+        ErrorCode.CONFIGURATION_ERROR,
+        "OAUTH_MODE=local requires OAUTH_USERS (username:password[:readonly],...)",
+      )
+    }
+    return { publicUrl, local: { users: parseOAuthUsers(config.OAUTH_USERS) } }
+  }
+
+  if (!config.OAUTH_ISSUER_URL || !config.OAUTH_INTROSPECTION_URL) {
+    throw new MCPError(
+      ErrorCode.CONFIGURATION_ERROR,
+      "OAUTH_MODE=external requires OAUTH_ISSUER_URL and OAUTH_INTROSPECTION_URL",
+    )
+  }
+  return {
+    publicUrl,
+    external: {
+      issuerUrl: new URL(config.OAUTH_ISSUER_URL),
+      introspectionUrl: new URL(config.OAUTH_INTROSPECTION_URL),
+      clientId: config.OAUTH_CLIENT_ID,
+      clientSecret: config.OAUTH_CLIENT_SECRET,
+      audience: config.OAUTH_AUDIENCE,
+    },
+  }
+}
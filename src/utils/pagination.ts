@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto"
+import { ToolError, ErrorCode } from "../types/errors.js"
+import { LruMap } from "./lru-map.js"
+
+// How long a cursor can be used to page through a result set
+export const RESULT_SET_TTL_MS = 10 * 60 * 1000
+// Result sets kept per account, the least recently used ones are dropped beyond this
+export const MAX_RESULT_SETS = 20
+
+export interface Pagination {
+  offset: number
+  limit: number
+  returned: number
+  total: number
+  hasMore: boolean
+  nextCursor?: string // Pass as cursor to get the next page
+}
+
+export interface Page<T> {
+  items: T[]
+  pagination: Pagination
+}
+
+export interface PageRequest {
+  cursor?: string
+  offset?: number
+  limit: number
+}
+
+interface ResultSet {
+  scope: string
+  items: unknown[]
+  expiresAt: number
+}
+
+interface Cursor {
+  id: string
+  offset: number
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.id, cursor.offset])).toString("base64url")
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const [id, offset] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"))
+    if (typeof id === "string" && Number.isInteger(offset) && offset >= 0) {
+      return { id, offset }
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ToolError(ErrorCode.TOOL_VALIDATION_FAILED, "Invalid pagination cursor", {
+    cursor: value,
+  })
+}
+
+/**
+ * Server-side result sets behind opaque pagination cursors.
+ *
+ * The first page loads the full result set and stores it, cursors then
+ * reference that set so later pages don't query Picnic again.
+ */
+export class ResultSetStore {
+  // Set again for every page, so the result sets nobody is paging through are dropped first
+  private sets = new LruMap<string, ResultSet>()
+
+  /**
+   * Return a page of the result set for this scope. The scope identifies the
+   * request (tool and the arguments that select the results), cursors are
+   * only accepted for the scope they were issued for.
+   */
+  async paginate<T>(
+    scope: string,
+    request: PageRequest,
+    load: () => Promise<T[]>,
+  ): Promise<Page<T>> {
+    const now = Date.now()
+    let id: string
+    let set: ResultSet
+    let offset: number
+
+    if (request.cursor) {
+      const cursor = decodeCursor(request.cursor)
+      const existing = this.sets.get(cursor.id)
+      if (!existing || existing.expiresAt <= now) {
+        this.sets.delete(cursor.id)
+        throw new ToolError(
+          ErrorCode.TOOL_VALIDATION_FAILED,
+          "Pagination cursor has expired, repeat the request without a cursor",
+          { cursor: request.cursor },
+        )
+      }
+      if (existing.scope !== scope) {
+        throw new ToolError(
+          ErrorCode.TOOL_VALIDATION_FAILED,
+          "Pagination cursor belongs to a different request, pass the same arguments as for the first page",
+          { cursor: request.cursor },
+        )
+      }
+      id = cursor.id
+      set = existing
+      offset = cursor.offset
+    } else {
+      id = randomUUID()
+      set = { scope, items: await load(), expiresAt: now + RESULT_SET_TTL_MS }
+      offset = request.offset ?? 0
+    }
+
+    this.sets.set(id, set)
+    this.evict(now)
+
+    const items = set.items.slice(offset, offset + request.limit) as T[]
+    const hasMore = offset + request.limit < set.items.length
+    return {
+      items,
+      pagination: {
+        offset,
+        limit: request.limit,
+        returned: items.length,
+        total: set.items.length,
+        hasMore,
+        ...(hasMore && { nextCursor: encodeCursor({ id, offset: offset + request.limit }) }),
+      },
+    }
+  }
+
+  get size(): number {
+    return this.sets.size
+  }
+
+  clear(): void {
+    this.sets.clear()
+  }
+
+  private evict(now: number): void {
+    for (const [id, set] of this.sets) {
+      if (set.expiresAt <= now) {
+        this.sets.delete(id)
+      }
+    }
+    this.sets.trim(MAX_RESULT_SETS)
+  }
+}
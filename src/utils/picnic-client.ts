@@ -1,41 +1,621 @@
 import PicnicClient from "picnic-api"
-import { config } from "../config.js"
+import path from "path"
+import { EventEmitter } from "events"
+import { AsyncLocalStorage } from "async_hooks"
+import { config, defaultPicnicAccount, picnicAccounts } from "../config.js"
+import { AuthError, MCPError, ErrorCode, ErrorUtils } from "../types/errors.js"
+import { SessionStore } from "./session-store.js"
+import {
+  ResponseCache,
+  ResponseCacheConfig,
+  ResponseCacheStats,
+  DEFAULT_CACHE_TTLS,
+  CACHE_INVALIDATIONS,
+} from "./response-cache.js"
+import { ResultSetStore } from "./pagination.js"
+import { ProductIndex } from "./product-index.js"
+import { SlotWatcher, SlotWatchMatch } from "./slot-watcher.js"
+import { DeliveryTracker } from "./delivery-tracking.js"
 
-// Singleton instance for caching
-let picnicClientInstance: InstanceType<typeof PicnicClient> | null = null
+export type PicnicClientInstance = InstanceType<typeof PicnicClient>
 
-export async function initializePicnicClient(
-  username?: string,
-  password?: string,
-  countryCode?: "NL" | "DE",
-  apiVersion: string = "15",
-): Promise<void> {
-  if (picnicClientInstance) {
-    return
+/**
+ * unauthenticated: no usable session (login not attempted yet or failed)
+ * pending_verification: logged in, but Picnic requires 2FA before the session can be used
+ * authenticated: the session can be used for all API calls
+ */
+export type PicnicAuthState = "unauthenticated" | "pending_verification" | "authenticated"
+
+/**
+ * Either a username/password to log in with, or an existing auth key (or both,
+ * in which case the password is used to log in again once the key expires)
+ */
+export interface PicnicCredentials {
+  username?: string
+  password?: string
+  authKey?: string
+  countryCode: "NL" | "DE"
+}
+
+export interface PicnicAccountOptions {
+  apiVersion?: string
+  // Store auth keys in the session file. Off for accounts that only live as long as an HTTP session.
+  persistSession?: boolean
+  cache?: ResponseCacheConfig
+}
+
+const defaultCacheConfig: ResponseCacheConfig = {
+  ttls: { ...DEFAULT_CACHE_TTLS, ...config.PICNIC_CACHE_TTLS },
+  maxEntries: config.PICNIC_CACHE_MAX_ENTRIES,
+}
+
+const sessionStore = config.PICNIC_PERSIST_SESSION
+  ? new SessionStore(
+      config.PICNIC_SESSION_FILE || path.join(config.PICNIC_DATA_DIR, "session.json"),
+    )
+  : null
+
+/**
+ * Check whether an error from the Picnic API means the auth key was rejected
+ */
+export function isAuthenticationError(error: unknown): boolean {
+  const message = ErrorUtils.getErrorMessage(error)
+  return /^(401|403)\b/.test(message) || /unauthori[sz]ed|auth key|not authenticated/i.test(message)
+}
+
+/**
+ * A single Picnic account with its own authenticated client, auth state and caches
+ */
+export class PicnicAccount {
+  // Cached API responses, filled by the client returned from getClient()
+  readonly cache: ResponseCache
+  // Result sets referenced by the pagination cursors handed out for this account
+  readonly resultSets = new ResultSetStore()
+  // Products seen in tool results, for tools that look products up by ID
+  readonly products = new ProductIndex()
+  // Background watch for newly available delivery slots
+  readonly slotWatcher = new SlotWatcher(() => this.getClient())
+  // Deliveries polled for subscribers of their tracking resource
+  readonly deliveryTracker = new DeliveryTracker(async () => {
+    await this.initialize()
+    // Tracking polls more often than deliveries are cached, so always fetch them fresh
+    this.cache.invalidate(["getDelivery"])
+    return this.getClient()
+  }, config.PICNIC_TRACKING_INTERVAL * 1000)
+
+  private client: PicnicClientInstance | null = null
+  private proxy: PicnicClientInstance | null = null
+  private authState: PicnicAuthState = "unauthenticated"
+  private reauthenticationPromise: Promise<void> | null = null
+  private events = new EventEmitter()
+  private readonly apiVersion: string
+  private readonly sessionStore: SessionStore | null
+
+  constructor(
+    readonly name: string,
+    private readonly credentials: PicnicCredentials,
+    options: PicnicAccountOptions = {},
+  ) {
+    this.events.setMaxListeners(0)
+    this.apiVersion = options.apiVersion ?? "15"
+    this.sessionStore = options.persistSession === false ? null : sessionStore
+    this.cache = new ResponseCache(options.cache ?? defaultCacheConfig)
+  }
+
+  get countryCode(): "NL" | "DE" {
+    return this.credentials.countryCode
+  }
+
+  async initialize(): Promise<void> {
+    if (this.client) {
+      return
+    }
+
+    console.error(`Initializing Picnic client for account '${this.name}'...`)
+    const { countryCode } = this.credentials
+
+    // Reuse a given or persisted auth key when we have one, only logging in again if Picnic rejects it
+    const authKey = this.credentials.authKey ?? (await this.loadStoredSession())?.authKey
+    if (authKey) {
+      const client = new PicnicClient({
+        countryCode,
+        apiVersion: this.apiVersion,
+        authKey,
+      })
+
+      try {
+        await client.getUserDetails()
+        this.setClient(client)
+        this.setAuthState("authenticated")
+        console.error(
+          `Picnic client for account '${this.name}' initialized from existing auth key.`,
+        )
+        return
+      } catch (error) {
+        if (!isAuthenticationError(error)) {
+          throw error
+        }
+        console.error(`Picnic auth key for account '${this.name}' was rejected, logging in again.`)
+        await this.clearStoredSession()
+      }
+    }
+
+    const client = new PicnicClient({
+      countryCode,
+      apiVersion: this.apiVersion,
+    })
+
+    const loginResult = await this.login(client)
+    this.setClient(client)
+
+    if (loginResult?.second_factor_authentication_required) {
+      this.setAuthState("pending_verification")
+      console.error(
+        `Picnic requires 2FA for account '${this.name}'. Use picnic_generate_2fa_code and picnic_verify_2fa_code to finish logging in.`,
+      )
+      return
+    }
+
+    this.setAuthState("authenticated")
+    console.error(`Picnic client for account '${this.name}' initialized successfully.`)
+  }
+
+  /**
+   * Get the Picnic client. Calls made through it transparently re-authenticate
+   * once when Picnic rejects the current auth key, read calls are served from
+   * the cache where possible and calls that change data invalidate it.
+   */
+  getClient(): PicnicClientInstance {
+    if (!this.proxy) {
+      throw new Error(
+        `Picnic client for account '${this.name}' has not been initialized. Call initializePicnicClient() first.`,
+      )
+    }
+    if (this.authState === "pending_verification") {
+      throw new AuthError(
+        ErrorCode.AUTH_REQUIRED,
+        `Picnic login for account '${this.name}' is waiting for 2FA verification. Use picnic_generate_2fa_code and picnic_verify_2fa_code first.`,
+        { account: this.name },
+      )
+    }
+    return this.proxy
+  }
+
+  getAuthState(): PicnicAuthState {
+    return this.authState
+  }
+
+  /**
+   * Drop the client, cached data and listeners, e.g. when the HTTP session owning this account ends
+   */
+  dispose(): void {
+    this.client = null
+    this.proxy = null
+    this.cache.clear()
+    this.resultSets.clear()
+    this.products.clear()
+    this.slotWatcher.stop()
+    this.slotWatcher.removeAllListeners()
+    this.deliveryTracker.stopAll()
+    this.authState = "unauthenticated"
+    this.events.removeAllListeners()
+  }
+
+  /**
+   * Subscribe to auth state changes, returns a function that removes the listener
+   */
+  onAuthStateChange(listener: (state: PicnicAuthState) => void): () => void {
+    this.events.on("change", listener)
+    return () => {
+      this.events.off("change", listener)
+    }
+  }
+
+  /**
+   * Send a 2FA code for the pending login. Logs in first when no login has been
+   * attempted yet, since on a new device it is the login that triggers 2FA.
+   */
+  async generateTwoFactorCode(channel: string): Promise<null> {
+    const client = await this.getClientForVerification()
+    return await client.generate2FACode(channel)
+  }
+
+  /**
+   * Verify the 2FA code for the pending login, unlocking the session on success
+   */
+  async verifyTwoFactorCode(code: string) {
+    const client = await this.getClientForVerification()
+    const result = await client.verify2FACode(code)
+
+    if (result && typeof result === "object" && "code" in result) {
+      throw new AuthError(ErrorCode.AUTH_FAILED, `2FA verification failed: ${result.message}`, {
+        account: this.name,
+        errorCode: result.code,
+      })
+    }
+
+    if (this.authState !== "authenticated") {
+      await this.persistSession(client)
+      this.setAuthState("authenticated")
+      console.error(`Picnic 2FA verification completed for account '${this.name}'.`)
+    }
+
+    return result
+  }
+
+  private setClient(client: PicnicClientInstance): void {
+    this.client = client
+    this.proxy = this.createReauthenticatingProxy(client)
+  }
+
+  private setAuthState(state: PicnicAuthState): void {
+    if (this.authState === state) {
+      return
+    }
+    this.authState = state
+    this.events.emit("change", state)
+  }
+
+  private async getClientForVerification(): Promise<PicnicClientInstance> {
+    if (!this.client) {
+      await this.initialize()
+    }
+    // Use the raw client: re-logging in on a 401 here would restart the 2FA challenge
+    return this.client!
+  }
+
+  /**
+   * Log in with username/password and persist the resulting auth key, unless
+   * Picnic still wants a second factor before the key can be used.
+   */
+  private async login(client: PicnicClientInstance) {
+    const { username, password } = this.credentials
+    if (!username || !password) {
+      throw new AuthError(
+        ErrorCode.AUTH_FAILED,
+        `Picnic rejected the auth key for account '${this.name}' and no username/password is available to log in again`,
+        { account: this.name },
+      )
+    }
+
+    const loginResult = await client.login(username, password)
+    if (!loginResult?.second_factor_authentication_required) {
+      await this.persistSession(client)
+    }
+    return loginResult
+  }
+
+  private async loadStoredSession() {
+    const { username, countryCode } = this.credentials
+    if (!this.sessionStore || !username) {
+      return null
+    }
+    return await this.sessionStore.load(username, countryCode).catch((error) => {
+      ErrorUtils.logError(error, "Picnic session store")
+      return null
+    })
+  }
+
+  private async clearStoredSession(): Promise<void> {
+    const { username, countryCode } = this.credentials
+    if (!this.sessionStore || !username) {
+      return
+    }
+    await this.sessionStore
+      .clear(username, countryCode)
+      .catch((error) => ErrorUtils.logError(error, "Picnic session store"))
+  }
+
+  private async persistSession(client: PicnicClientInstance): Promise<void> {
+    const { username, countryCode } = this.credentials
+    if (!this.sessionStore || !username || !client.authKey) {
+      return
+    }
+    await this.sessionStore
+      .save(username, countryCode, client.authKey)
+      .catch((error) => ErrorUtils.logError(error, "Picnic session store"))
   }
 
-  console.error("Initializing Picnic client...")
-  const loginUsername = username || config.PICNIC_USERNAME
-  const loginPassword = password || config.PICNIC_PASSWORD
-  const loginCountryCode = countryCode || config.PICNIC_COUNTRY_CODE
+  /**
+   * Wrap the client so every API call is retried once after re-authenticating
+   * when it fails because the session expired.
+   */
+  private createReauthenticatingProxy(client: PicnicClientInstance): PicnicClientInstance {
+    return new Proxy(client, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver)
+        if (typeof value !== "function" || property === "login") {
+          return value
+        }
 
-  const client = new PicnicClient({
-    countryCode: loginCountryCode,
-    apiVersion,
-  })
+        const method = String(property)
+        const call = (...args: unknown[]) => this.callWithReauthentication(target, method, args)
 
-  await client.login(loginUsername, loginPassword)
-  picnicClientInstance = client
-  console.error("Picnic client initialized successfully.")
+        return async (...args: unknown[]) => {
+          const invalidated =
+            method === "sendRequest" && args[0] !== "GET"
+              ? CACHE_INVALIDATIONS.checkout
+              : CACHE_INVALIDATIONS[method]
+          if (!invalidated) {
+            return this.cache.getOrLoad(method, args, () => call(...args))
+          }
+
+          try {
+            return await call(...args)
+          } finally {
+            this.cache.invalidate(invalidated)
+          }
+        }
+      },
+    })
+  }
+
+  /**
+   * Call a client method, retrying once after re-authenticating when the session expired
+   */
+  private async callWithReauthentication(
+    target: PicnicClientInstance,
+    method: string,
+    args: unknown[],
+  ): Promise<unknown> {
+    const value = Reflect.get(target, method) as (...args: unknown[]) => Promise<unknown>
+
+    // Call on the raw client so nested sendRequest calls are not retried twice
+    try {
+      return await value.apply(target, args)
+    } catch (error) {
+      if (!isAuthenticationError(error)) {
+        throw error
+      }
+      console.error(
+        `Picnic session for account '${this.name}' rejected during ${method}, re-authenticating...`,
+      )
+    }
+
+    await this.reauthenticate(target)
+
+    try {
+      return await value.apply(target, args)
+    } catch (error) {
+      if (isAuthenticationError(error)) {
+        throw new AuthError(
+          ErrorCode.AUTH_FAILED,
+          "Picnic rejected the session again right after re-authenticating",
+          {
+            account: this.name,
+            method,
+            originalError: ErrorUtils.getErrorMessage(error),
+          },
+        )
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Restore a valid auth key on the client, sharing a single attempt between
+   * concurrent callers that hit the expired session at the same time.
+   */
+  private reauthenticate(client: PicnicClientInstance): Promise<void> {
+    if (!this.reauthenticationPromise) {
+      this.reauthenticationPromise = this.doReauthenticate(client).finally(() => {
+        this.reauthenticationPromise = null
+      })
+    }
+    return this.reauthenticationPromise
+  }
+
+  private async doReauthenticate(client: PicnicClientInstance): Promise<void> {
+    // Another process sharing the session file may already have logged in again
+    const rejectedKey = client.authKey
+    const storedSession = await this.loadStoredSession()
+    if (storedSession && storedSession.authKey !== rejectedKey) {
+      client.authKey = storedSession.authKey
+      try {
+        await client.getUserDetails()
+        console.error(
+          `Picnic client for account '${this.name}' re-authenticated from stored session.`,
+        )
+        return
+      } catch (error) {
+        if (!isAuthenticationError(error)) {
+          throw error
+        }
+      }
+    }
+
+    let loginResult: Awaited<ReturnType<typeof this.login>>
+    try {
+      loginResult = await this.login(client)
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error
+      }
+      throw new AuthError(
+        ErrorCode.AUTH_FAILED,
+        `Picnic re-authentication failed: ${ErrorUtils.getErrorMessage(error)}`,
+        { account: this.name, originalError: ErrorUtils.getErrorMessage(error) },
+      )
+    }
+
+    if (loginResult?.second_factor_authentication_required) {
+      this.setAuthState("pending_verification")
+      throw new AuthError(
+        ErrorCode.AUTH_REQUIRED,
+        "Picnic requires 2FA to log in again. Use picnic_generate_2fa_code and picnic_verify_2fa_code.",
+        { account: this.name },
+      )
+    }
+    console.error(`Picnic client for account '${this.name}' re-authenticated successfully.`)
+  }
 }
 
-export function getPicnicClient(): InstanceType<typeof PicnicClient> {
-  if (!picnicClientInstance) {
-    throw new Error("Picnic client has not been initialized. Call initializePicnicClient() first.")
+// Registry of configured accounts, built from the config on first use
+const accounts = new Map<string, PicnicAccount>()
+const accountEvents = new EventEmitter()
+accountEvents.setMaxListeners(0)
+
+// Account bound to the current request, e.g. an HTTP session with its own Picnic credentials
+const boundAccount = new AsyncLocalStorage<PicnicAccount>()
+
+/**
+ * Run a function with the given account bound to it. While bound, that account
+ * is the only one the registry functions below resolve to.
+ */
+export function runWithPicnicAccount<T>(account: PicnicAccount, fn: () => T): T {
+  return boundAccount.run(account, fn)
+}
+
+function getAccounts(): Map<string, PicnicAccount> {
+  if (accounts.size === 0) {
+    for (const accountConfig of picnicAccounts) {
+      const account = new PicnicAccount(accountConfig.name, accountConfig)
+      account.onAuthStateChange((state) => accountEvents.emit("change", state, account.name))
+      account.slotWatcher.onMatch((match) => accountEvents.emit("slot-match", match, account.name))
+      accounts.set(accountConfig.name, account)
+    }
   }
-  return picnicClientInstance
+  return accounts
+}
+
+/**
+ * Get a configured account by name, or the default account when no name is given
+ */
+export function getPicnicAccount(accountName?: string): PicnicAccount {
+  const sessionAccount = boundAccount.getStore()
+  if (sessionAccount) {
+    // A session with its own credentials must never reach the server's configured accounts
+    if (accountName && accountName !== sessionAccount.name) {
+      throw new MCPError(
+        ErrorCode.INVALID_REQUEST,
+        `Unknown Picnic account '${accountName}'`,
+        400,
+        {
+          account: accountName,
+          availableAccounts: [sessionAccount.name],
+        },
+      )
+    }
+    return sessionAccount
+  }
+
+  const name = accountName || defaultPicnicAccount
+  const account = getAccounts().get(name)
+  if (!account) {
+    throw new MCPError(ErrorCode.INVALID_REQUEST, `Unknown Picnic account '${name}'`, 400, {
+      account: name,
+      availableAccounts: getPicnicAccountNames(),
+    })
+  }
+  return account
+}
+
+export function getPicnicAccountNames(): string[] {
+  const sessionAccount = boundAccount.getStore()
+  if (sessionAccount) {
+    return [sessionAccount.name]
+  }
+  return Array.from(getAccounts().keys())
+}
+
+export function getDefaultPicnicAccountName(): string {
+  return boundAccount.getStore()?.name ?? defaultPicnicAccount
+}
+
+export async function initializePicnicClient(accountName?: string): Promise<void> {
+  await getPicnicAccount(accountName).initialize()
+}
+
+/**
+ * Initialize every configured account. Failures are logged per account so one
+ * broken login does not keep the others from starting.
+ */
+export async function initializeAllPicnicClients(): Promise<void> {
+  if (getAccounts().size === 0) {
+    throw new MCPError(
+      ErrorCode.CONFIGURATION_ERROR,
+      "No Picnic accounts configured. Set PICNIC_USERNAME/PICNIC_PASSWORD or PICNIC_ACCOUNTS.",
+    )
+  }
+
+  await Promise.all(
+    Array.from(getAccounts().values()).map((account) =>
+      account.initialize().catch((error) => {
+        ErrorUtils.logError(error, `Picnic login (${account.name})`)
+      }),
+    ),
+  )
+}
+
+export function getPicnicClient(accountName?: string): PicnicClientInstance {
+  return getPicnicAccount(accountName).getClient()
+}
+
+export function getPicnicAuthState(accountName?: string): PicnicAuthState {
+  return getPicnicAccount(accountName).getAuthState()
+}
+
+/**
+ * Whether at least one account can be used for API calls
+ */
+export function isAnyPicnicAccountAuthenticated(): boolean {
+  const sessionAccount = boundAccount.getStore()
+  if (sessionAccount) {
+    return sessionAccount.getAuthState() === "authenticated"
+  }
+  return Array.from(getAccounts().values()).some(
+    (account) => account.getAuthState() === "authenticated",
+  )
+}
+
+/**
+ * Subscribe to auth state changes of all configured accounts
+ */
+export function onPicnicAuthStateChange(
+  listener: (state: PicnicAuthState, accountName: string) => void,
+): () => void {
+  accountEvents.on("change", listener)
+  return () => {
+    accountEvents.off("change", listener)
+  }
+}
+
+/**
+ * Subscribe to newly available slots found by the slot watchers of all configured accounts
+ */
+export function onPicnicSlotWatchMatch(
+  listener: (match: SlotWatchMatch, accountName: string) => void,
+): () => void {
+  accountEvents.on("slot-match", listener)
+  return () => {
+    accountEvents.off("slot-match", listener)
+  }
+}
+
+/**
+ * Response cache statistics summed over the configured accounts
+ */
+export function getPicnicCacheStats(): ResponseCacheStats {
+  const total = { entries: 0, maxEntries: 0, hits: 0, misses: 0, evictions: 0 }
+  for (const account of getAccounts().values()) {
+    const stats = account.cache.getStats()
+    total.entries += stats.entries
+    total.maxEntries += stats.maxEntries
+    total.hits += stats.hits
+    total.misses += stats.misses
+    total.evictions += stats.evictions
+  }
+  return total
+}
+
+export async function generateTwoFactorCode(channel: string, accountName?: string) {
+  return await getPicnicAccount(accountName).generateTwoFactorCode(channel)
+}
+
+export async function verifyTwoFactorCode(code: string, accountName?: string) {
+  return await getPicnicAccount(accountName).verifyTwoFactorCode(code)
 }
 
 export function resetPicnicClient(): void {
-  picnicClientInstance = null
+  accounts.clear()
 }
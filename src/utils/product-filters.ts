@@ -0,0 +1,128 @@
+import { UnitType, parseUnitQuantity, getUnitPrice } from "./unit-quantity.js"
+
+export const SORT_MODES = ["relevance", "price_asc", "price_desc", "unit_price", "name"] as const
+export type SortMode = (typeof SORT_MODES)[number]
+
+/**
+ * Filters on product search results, prices are in cents
+ */
+export interface ProductFilters {
+  minPrice?: number
+  maxPrice?: number
+  include?: string[] // Terms that must all appear in the name
+  exclude?: string[] // Terms that must not appear in the name
+  unitType?: UnitType
+}
+
+export interface FilterableProduct {
+  name: string
+  price?: string | number
+  unit?: string // Picnic's unit quantity, e.g. "6 x 330 ml"
+}
+
+function getPrice(product: FilterableProduct): number | undefined {
+  // Number("") would be 0
+  const price = product.price === "" || product.price === undefined ? NaN : Number(product.price)
+  return Number.isFinite(price) ? price : undefined
+}
+
+function getProductUnitPrice(product: FilterableProduct): number | undefined {
+  const price = getPrice(product)
+  const quantity = parseUnitQuantity(product.unit)
+  return price !== undefined && quantity ? getUnitPrice(price, quantity) : undefined
+}
+
+/**
+ * Keep the products matching all given filters. Products without a known
+ * price or unit are dropped by the filters that need them.
+ */
+export function filterProducts<T extends FilterableProduct>(
+  products: T[],
+  filters: ProductFilters,
+): T[] {
+  const include = filters.include?.map((term) => term.toLowerCase()) ?? []
+  const exclude = filters.exclude?.map((term) => term.toLowerCase()) ?? []
+
+  return products.filter((product) => {
+    const name = product.name.toLowerCase()
+    if (!include.every((term) => name.includes(term))) return false
+    if (exclude.some((term) => name.includes(term))) return false
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      const price = getPrice(product)
+      if (price === undefined) return false
+      if (filters.minPrice !== undefined && price < filters.minPrice) return false
+      if (filters.maxPrice !== undefined && price > filters.maxPrice) return false
+    }
+
+    if (filters.unitType) {
+      return parseUnitQuantity(product.unit)?.type === filters.unitType
+    }
+    return true
+  })
+}
+
+/**
+ * Sort products without changing the given array. Products without a price
+ * (or unit price) go last, otherwise Picnic's order is kept for ties.
+ */
+export function sortProducts<T extends FilterableProduct>(products: T[], sort: SortMode): T[] {
+  if (sort === "relevance") {
+    return products
+  }
+  if (sort === "name") {
+    return [...products].sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  const getValue = sort === "unit_price" ? getProductUnitPrice : getPrice
+  const direction = sort === "price_desc" ? -1 : 1
+  return [...products].sort((a, b) => {
+    const valueA = getValue(a)
+    const valueB = getValue(b)
+    if (valueA === undefined || valueB === undefined) {
+      return (valueA === undefined ? 1 : 0) - (valueB === undefined ? 1 : 0)
+    }
+    return (valueA - valueB) * direction
+  })
+}
+
+export interface UnitPriceRanking<T> {
+  unitType: UnitType
+  products: Array<{ product: T; rank: number; unitPrice: number }>
+}
+
+/**
+ * Rank products by price per kg, liter or piece. Only products sold in the
+ * same kind of unit can be compared, so there's a ranking per unit type,
+ * the one with most products first. Products without a price or a known
+ * unit quantity are returned as unranked.
+ */
+export function rankByUnitPrice<T extends FilterableProduct>(
+  products: T[],
+): { rankings: UnitPriceRanking<T>[]; unranked: T[] } {
+  const groups = new Map<UnitType, Array<{ product: T; unitPrice: number }>>()
+  const unranked: T[] = []
+
+  for (const product of products) {
+    const price = getPrice(product)
+    const quantity = parseUnitQuantity(product.unit)
+    if (price === undefined || !quantity) {
+      unranked.push(product)
+      continue
+    }
+    const group = groups.get(quantity.type) ?? []
+    group.push({ product, unitPrice: getUnitPrice(price, quantity) })
+    groups.set(quantity.type, group)
+  }
+
+  const rankings = [...groups.entries()]
+    .map(([unitType, group]) => ({
+      unitType,
+      products: group
+        .sort((a, b) => a.unitPrice - b.unitPrice)
+        .map((entry, index) => ({ ...entry, rank: index + 1 })),
+    }))
+    .sort((a, b) => b.products.length - a.products.length)
+
+  return { rankings, unranked }
+}
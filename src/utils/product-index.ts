@@ -0,0 +1,40 @@
+import { LruMap } from "./lru-map.js"
+
+// Products remembered per account, the least recently seen ones are dropped beyond this
+export const MAX_INDEXED_PRODUCTS = 1000
+
+export interface IndexedProduct {
+  id: string
+  name: string
+  price?: number | string // In cents
+  unit?: string // Picnic's unit quantity, e.g. "6 x 330 ml"
+}
+
+/**
+ * Products seen in search results, categories and the cart, so they can be
+ * looked up by ID later. Picnic has no working endpoint to get a product by ID.
+ */
+export class ProductIndex {
+  // Set again whenever a product shows up in results, with its latest name and price
+  private products = new LruMap<string, IndexedProduct>()
+
+  add(products: IndexedProduct[]): void {
+    for (const product of products) {
+      if (!product.id) continue
+      this.products.set(product.id, product)
+    }
+    this.products.trim(MAX_INDEXED_PRODUCTS)
+  }
+
+  get(id: string): IndexedProduct | undefined {
+    return this.products.get(id)
+  }
+
+  get size(): number {
+    return this.products.size
+  }
+
+  clear(): void {
+    this.products.clear()
+  }
+}
@@ -0,0 +1,129 @@
+import { LruMap } from "./lru-map.js"
+
+export interface ResponseCacheConfig {
+  ttls: Record<string, number> // Time to live in milliseconds per method, other methods aren't cached
+  maxEntries: number // Least recently used entries are evicted beyond this
+}
+
+export interface ResponseCacheStats {
+  entries: number
+  maxEntries: number
+  hits: number
+  misses: number
+  evictions: number
+}
+
+interface CacheEntry {
+  method: string
+  data: unknown
+  expiresAt: number
+}
+
+// Default time to live per Picnic client method
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  search: 5 * 60 * 1000,
+  getSuggestions: 5 * 60 * 1000,
+  getCategories: 30 * 60 * 1000,
+  getShoppingCart: 30 * 1000,
+  getDeliverySlots: 60 * 1000,
+  getDeliveries: 60 * 1000,
+  getDelivery: 60 * 1000,
+  getLists: 5 * 60 * 1000,
+  getList: 5 * 60 * 1000,
+  recipes: 5 * 60 * 1000,
+}
+
+/**
+ * Cached methods that can be stale after a call to the given client method.
+ * Calls of sendRequest other than GET (e.g. the checkout) are treated like "checkout".
+ */
+export const CACHE_INVALIDATIONS: Record<string, string[]> = {
+  addProductToShoppingCart: ["getShoppingCart"],
+  removeProductFromShoppingCart: ["getShoppingCart"],
+  clearShoppingCart: ["getShoppingCart"],
+  setDeliverySlot: ["getShoppingCart", "getDeliverySlots"],
+  cancelDelivery: ["getDeliveries", "getDelivery", "getDeliverySlots"],
+  checkout: ["getShoppingCart", "getDeliverySlots", "getDeliveries", "getDelivery"],
+}
+
+/**
+ * TTL cache for Picnic API responses, keyed by method and arguments
+ */
+export class ResponseCache {
+  // Set again on every hit, so eviction drops the responses that went unused the longest
+  private entries = new LruMap<string, CacheEntry>()
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+
+  constructor(private readonly config: ResponseCacheConfig) {}
+
+  isCacheable(method: string): boolean {
+    return (this.config.ttls[method] ?? 0) > 0 && this.config.maxEntries > 0
+  }
+
+  /**
+   * Return the cached response for this call, or load and cache it.
+   * Failed loads are not cached.
+   */
+  async getOrLoad<T>(method: string, args: unknown[], load: () => Promise<T>): Promise<T> {
+    if (!this.isCacheable(method)) {
+      return load()
+    }
+
+    const key = `${method}:${JSON.stringify(args)}`
+    const now = Date.now()
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt > now) {
+      this.hits++
+      this.entries.set(key, entry)
+      return entry.data as T
+    }
+
+    this.misses++
+    const data = await load()
+
+    this.entries.set(key, { method, data, expiresAt: Date.now() + this.config.ttls[method] })
+    this.evict(now)
+    return data
+  }
+
+  /**
+   * Drop the cached responses of the given methods
+   */
+  invalidate(methods: string[]): void {
+    for (const [key, entry] of this.entries) {
+      if (methods.includes(entry.method)) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  getStats(): ResponseCacheStats {
+    return {
+      entries: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    }
+  }
+
+  private evict(now: number): void {
+    if (this.entries.size <= this.config.maxEntries) {
+      return
+    }
+
+    // Expired entries go first, then the least recently used ones
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+    this.evictions += this.entries.trim(this.config.maxEntries)
+  }
+}
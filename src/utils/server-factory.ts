@@ -19,9 +19,11 @@ export function createMCPServer(config: ServerConfig = {}): Server {
     name: packageJson.name,
     version: packageJson.version,
     capabilities: {
-      tools: toolRegistry.getToolDefinitions(),
+      tools: { ...toolRegistry.getToolDefinitions(), listChanged: true },
       prompts: promptRegistry.getPromptDefinitions(),
-      resources: resourceRegistry.getResourceDefinitions(),
+      resources: { ...resourceRegistry.getResourceDefinitions(), subscribe: true },
+      // Used for slot watch notifications
+      logging: {},
     },
   }
 
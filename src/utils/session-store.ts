@@ -0,0 +1,75 @@
+import { JsonFileStore } from "./json-file-store.js"
+
+export interface StoredSession {
+  authKey: string
+  username: string
+  countryCode: string
+  savedAt: string
+}
+
+interface SessionFile {
+  sessions: Record<string, StoredSession>
+}
+
+/**
+ * On-disk store for Picnic auth keys, so a restart can reuse an existing
+ * session instead of logging in (and possibly triggering 2FA) again.
+ */
+export class SessionStore {
+  private readonly file: JsonFileStore<SessionFile>
+
+  constructor(private readonly filePath: string) {
+    this.file = new JsonFileStore(
+      filePath,
+      "Picnic session",
+      (value) => {
+        const sessions = (value as Partial<SessionFile> | null)?.sessions
+        return sessions && typeof sessions === "object" ? { sessions } : undefined
+      },
+      () => ({ sessions: {} }),
+    )
+  }
+
+  /**
+   * Get the stored session for an account, if any
+   */
+  async load(username: string, countryCode: string): Promise<StoredSession | null> {
+    const file = await this.file.read()
+    return file.sessions[this.getKey(username, countryCode)] ?? null
+  }
+
+  /**
+   * Store the auth key for an account, replacing any previous one
+   */
+  async save(username: string, countryCode: string, authKey: string): Promise<void> {
+    await this.file.update((file) => {
+      file.sessions[this.getKey(username, countryCode)] = {
+        authKey,
+        username,
+        countryCode,
+        savedAt: new Date().toISOString(),
+      }
+    })
+  }
+
+  /**
+   * Remove the stored session for an account
+   */
+  async clear(username: string, countryCode: string): Promise<void> {
+    const key = this.getKey(username, countryCode)
+    await this.file.update((file) => {
+      if (!(key in file.sessions)) {
+        return false
+      }
+      delete file.sessions[key]
+    })
+  }
+
+  getFilePath(): string {
+    return this.filePath
+  }
+
+  private getKey(username: string, countryCode: string): string {
+    return `${countryCode}:${username.toLowerCase()}`
+  }
+}
@@ -0,0 +1,208 @@
+import { JsonFileStore, parseUsersFile } from "./json-file-store.js"
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export interface TimeWindow {
+  from: string // HH:MM, local time of the delivery area
+  to: string
+}
+
+/**
+ * Delivery slot preferences. Weekdays and time windows only add to a slot's
+ * score, the dates rule slots out.
+ */
+export interface SlotPreferences {
+  weekdays?: Weekday[]
+  timeWindows?: TimeWindow[]
+  earliestDate?: string // YYYY-MM-DD
+  latestDate?: string
+  avoidDates?: string[]
+}
+
+export interface DeliverySlotLike {
+  slot_id?: string
+  window_start?: string
+  window_end?: string
+  cut_off_time?: string
+  selected?: boolean
+}
+
+export interface RankedSlot {
+  slot_id?: string
+  date?: string
+  weekday?: Weekday
+  start?: string
+  end?: string
+  cut_off?: string
+  score: number
+  excluded: boolean
+  reasons: string[]
+}
+
+const WEEKDAY_SCORE = 2
+const TIME_WINDOW_SCORE = 2
+const PARTIAL_TIME_WINDOW_SCORE = 1
+
+export function hasSlotPreferences(preferences: SlotPreferences): boolean {
+  return Object.values(preferences).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined,
+  )
+}
+
+// Picnic's slot times carry the offset of the delivery area, so the date and time are read as is
+function getWeekday(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]
+}
+
+function scoreTimeWindow(
+  start: string,
+  end: string,
+  windows: TimeWindow[],
+): { score: number; reason: string } {
+  const within = windows.find((window) => start >= window.from && end <= window.to)
+  if (within) {
+    return {
+      score: TIME_WINDOW_SCORE,
+      reason: `${start}-${end} is within the preferred ${within.from}-${within.to}`,
+    }
+  }
+  const overlapping = windows.find((window) => start < window.to && end > window.from)
+  if (overlapping) {
+    return {
+      score: PARTIAL_TIME_WINDOW_SCORE,
+      reason: `${start}-${end} is partly within the preferred ${overlapping.from}-${overlapping.to}`,
+    }
+  }
+  return { score: 0, reason: `${start}-${end} is outside the preferred time windows` }
+}
+
+function rankSlot(slot: DeliverySlotLike, preferences: SlotPreferences): RankedSlot {
+  const date = slot.window_start?.slice(0, 10)
+  const start = slot.window_start?.slice(11, 16)
+  const end = slot.window_end?.slice(11, 16)
+  const ranked: RankedSlot = {
+    slot_id: slot.slot_id,
+    date,
+    weekday: date ? getWeekday(date) : undefined,
+    start,
+    end,
+    cut_off: slot.cut_off_time?.slice(0, 16)?.replace("T", " "),
+    score: 0,
+    excluded: false,
+    reasons: [],
+  }
+  const exclude = (reason: string) => {
+    ranked.excluded = true
+    ranked.reasons.push(reason)
+  }
+
+  if (date && preferences.earliestDate && date < preferences.earliestDate) {
+    exclude(`${date} is before the earliest date ${preferences.earliestDate}`)
+  }
+  if (date && preferences.latestDate && date > preferences.latestDate) {
+    exclude(`${date} is after the latest date ${preferences.latestDate}`)
+  }
+  if (date && preferences.avoidDates?.includes(date)) {
+    exclude(`${date} is a date to avoid`)
+  }
+
+  if (ranked.weekday && preferences.weekdays?.length) {
+    if (preferences.weekdays.includes(ranked.weekday)) {
+      ranked.score += WEEKDAY_SCORE
+      ranked.reasons.push(`${ranked.weekday} is a preferred day`)
+    } else {
+      ranked.reasons.push(`${ranked.weekday} is not a preferred day`)
+    }
+  }
+  if (start && end && preferences.timeWindows?.length) {
+    const { score, reason } = scoreTimeWindow(start, end, preferences.timeWindows)
+    ranked.score += score
+    ranked.reasons.push(reason)
+  }
+  return ranked
+}
+
+/**
+ * Whether a slot meets all preferences: an allowed date, a preferred weekday
+ * and fully within a preferred time window, where set
+ */
+export function matchesSlotPreferences(
+  slot: DeliverySlotLike,
+  preferences: SlotPreferences,
+): boolean {
+  const ranked = rankSlot(slot, preferences)
+  const maxScore =
+    (preferences.weekdays?.length ? WEEKDAY_SCORE : 0) +
+    (preferences.timeWindows?.length ? TIME_WINDOW_SCORE : 0)
+  return !ranked.excluded && ranked.score === maxScore
+}
+
+/**
+ * Score delivery slots against the preferences, best first. Excluded slots
+ * come last, slots with the same score are ordered by their start time.
+ */
+export function rankSlots(slots: DeliverySlotLike[], preferences: SlotPreferences): RankedSlot[] {
+  return slots
+    .map((slot) => ({ slot, ranked: rankSlot(slot, preferences) }))
+    .sort(
+      (a, b) =>
+        Number(a.ranked.excluded) - Number(b.ranked.excluded) ||
+        b.ranked.score - a.ranked.score ||
+        (a.slot.window_start ?? "").localeCompare(b.slot.window_start ?? ""),
+    )
+    .map(({ ranked }) => ranked)
+}
+
+interface PreferencesFile {
+  // Preferences per Picnic user ID
+  users: Record<string, SlotPreferences>
+}
+
+/**
+ * On-disk store for delivery slot preferences, kept per Picnic user
+ */
+export class SlotPreferenceStore {
+  private readonly file: JsonFileStore<PreferencesFile>
+
+  constructor(private readonly filePath: string) {
+    this.file = new JsonFileStore<PreferencesFile>(
+      filePath,
+      "slot preference",
+      parseUsersFile,
+      () => ({
+        users: {},
+      }),
+    )
+  }
+
+  async load(userId: string): Promise<SlotPreferences> {
+    const file = await this.file.read()
+    return file.users[userId] ?? {}
+  }
+
+  /**
+   * Replace the preferences of a user, empty preferences remove them
+   */
+  async save(userId: string, preferences: SlotPreferences): Promise<void> {
+    await this.file.update((file) => {
+      if (hasSlotPreferences(preferences)) {
+        file.users[userId] = preferences
+      } else {
+        delete file.users[userId]
+      }
+    })
+  }
+
+  getFilePath(): string {
+    return this.filePath
+  }
+}
@@ -0,0 +1,187 @@
+import { EventEmitter } from "events"
+import { ErrorUtils } from "../types/errors.js"
+import {
+  DeliverySlotLike,
+  RankedSlot,
+  SlotPreferences,
+  matchesSlotPreferences,
+  rankSlots,
+} from "./slot-preferences.js"
+
+// Resource with the status of the slot watches, updated whenever a watch finds new slots
+export const SLOT_WATCH_RESOURCE_URI = "picnic://slot-watch"
+
+export interface SlotWatchClient {
+  getDeliverySlots(): Promise<{
+    delivery_slots?: Array<DeliverySlotLike & { is_available?: boolean }>
+  }>
+  setDeliverySlot(slotId: string): Promise<unknown>
+}
+
+export interface SlotWatchOptions {
+  filter: SlotPreferences
+  intervalMs: number
+  // Select the best newly available slot for the current order, which ends the watch
+  autoBook: boolean
+}
+
+export interface SlotWatchMatch {
+  slots: RankedSlot[]
+  bookedSlotId?: string
+  bookingError?: string
+}
+
+export interface SlotWatchStatus extends SlotWatchOptions {
+  active: boolean
+  startedAt: string
+  checks: number
+  lastCheckAt?: string
+  lastError?: string
+  // Matching slots available at the last check, best first
+  matches: RankedSlot[]
+  bookedSlotId?: string
+}
+
+/**
+ * Polls the delivery slots of an account in the background and reports slots
+ * matching the filter that weren't available at the previous check. Slots that
+ * already match when the watch starts are returned by start() instead.
+ */
+export class SlotWatcher {
+  private timer: NodeJS.Timeout | null = null
+  private status: SlotWatchStatus | null = null
+  private availableSlotIds = new Set<string>()
+  private checking = false
+  private events = new EventEmitter()
+
+  constructor(private readonly getClient: () => SlotWatchClient) {
+    this.events.setMaxListeners(0)
+  }
+
+  /**
+   * Start watching, replacing a running watch. Returns the slots that already
+   * match the filter.
+   */
+  async start(options: SlotWatchOptions): Promise<RankedSlot[]> {
+    this.stop()
+    this.availableSlotIds.clear()
+    const status: SlotWatchStatus = {
+      ...options,
+      active: false,
+      startedAt: new Date().toISOString(),
+      checks: 0,
+      matches: [],
+    }
+    this.status = status
+
+    // The first check only records what is available, so it fails loudly instead of in the
+    // background. Without it the watch never starts, so it isn't reported as active.
+    try {
+      await this.poll()
+    } catch (error) {
+      status.lastError = ErrorUtils.getErrorMessage(error)
+      throw error
+    }
+    status.active = true
+    this.timer = setInterval(() => {
+      this.check().catch((error) => ErrorUtils.logError(error, "Slot watcher"))
+    }, options.intervalMs)
+    // A watch that nobody stopped shouldn't keep the server from exiting
+    this.timer.unref()
+    return status.matches
+  }
+
+  /**
+   * Stop watching, returns whether a watch was running
+   */
+  stop(): boolean {
+    if (!this.timer) {
+      return false
+    }
+    clearInterval(this.timer)
+    this.timer = null
+    if (this.status) {
+      this.status.active = false
+    }
+    return true
+  }
+
+  getStatus(): SlotWatchStatus | null {
+    return this.status
+  }
+
+  /**
+   * Subscribe to newly available matching slots, returns a function that removes the listener
+   */
+  onMatch(listener: (match: SlotWatchMatch) => void): () => void {
+    this.events.on("match", listener)
+    return () => {
+      this.events.off("match", listener)
+    }
+  }
+
+  removeAllListeners(): void {
+    this.events.removeAllListeners()
+  }
+
+  /**
+   * Check the delivery slots once, skipped while a previous check is still running
+   */
+  async check(): Promise<void> {
+    if (!this.timer || this.checking) {
+      return
+    }
+    try {
+      const newSlots = await this.poll()
+      if (newSlots.length > 0) {
+        await this.report(newSlots)
+      }
+    } catch (error) {
+      if (this.status) {
+        this.status.lastError = ErrorUtils.getErrorMessage(error)
+      }
+      throw error
+    }
+  }
+
+  // Fetch the slots, returning the matching ones that weren't available at the previous check
+  private async poll(): Promise<RankedSlot[]> {
+    const status = this.status!
+    this.checking = true
+    try {
+      const result = await this.getClient().getDeliverySlots()
+      const available = (result.delivery_slots ?? []).filter((slot) => slot.is_available)
+      const matching = available.filter((slot) => matchesSlotPreferences(slot, status.filter))
+      const newSlots = matching.filter(
+        (slot) => slot.slot_id && !this.availableSlotIds.has(slot.slot_id),
+      )
+
+      this.availableSlotIds = new Set(available.flatMap((slot) => slot.slot_id ?? []))
+      status.checks++
+      status.lastCheckAt = new Date().toISOString()
+      status.lastError = undefined
+      status.matches = rankSlots(matching, status.filter)
+      return rankSlots(newSlots, status.filter)
+    } finally {
+      this.checking = false
+    }
+  }
+
+  private async report(slots: RankedSlot[]): Promise<void> {
+    const status = this.status!
+    const match: SlotWatchMatch = { slots }
+    const best = slots[0]
+    if (status.autoBook && best.slot_id) {
+      try {
+        await this.getClient().setDeliverySlot(best.slot_id)
+        match.bookedSlotId = best.slot_id
+        status.bookedSlotId = best.slot_id
+        this.stop()
+      } catch (error) {
+        // Keep watching, the next newly available slot gets another attempt
+        match.bookingError = ErrorUtils.getErrorMessage(error)
+      }
+    }
+    this.events.emit("match", match)
+  }
+}
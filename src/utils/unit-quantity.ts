@@ -0,0 +1,151 @@
+export const UNIT_TYPES = ["weight", "volume", "piece"] as const
+export type UnitType = (typeof UNIT_TYPES)[number]
+
+/**
+ * A product quantity in a base unit: kilograms for weight, liters for
+ * volume and a count for pieces
+ */
+export interface UnitQuantity {
+  type: UnitType
+  amount: number
+}
+
+// Factor to the base unit of each unit as written by Picnic (Dutch, German and English)
+const UNITS: Record<string, { type: UnitType; factor: number }> = {
+  mg: { type: "weight", factor: 0.000001 },
+  g: { type: "weight", factor: 0.001 },
+  gr: { type: "weight", factor: 0.001 },
+  gram: { type: "weight", factor: 0.001 },
+  gramm: { type: "weight", factor: 0.001 },
+  kg: { type: "weight", factor: 1 },
+  kilo: { type: "weight", factor: 1 },
+  kilogram: { type: "weight", factor: 1 },
+  kilogramm: { type: "weight", factor: 1 },
+  ml: { type: "volume", factor: 0.001 },
+  cl: { type: "volume", factor: 0.01 },
+  dl: { type: "volume", factor: 0.1 },
+  l: { type: "volume", factor: 1 },
+  lt: { type: "volume", factor: 1 },
+  ltr: { type: "volume", factor: 1 },
+  liter: { type: "volume", factor: 1 },
+  litre: { type: "volume", factor: 1 },
+}
+
+// Words that count pieces, e.g. "6 stuks", "4 rollen", "10 Stück"
+const PIECE_WORDS = new Set([
+  "st",
+  "stk",
+  "stuk",
+  "stuks",
+  "stück",
+  "piece",
+  "pieces",
+  "pcs",
+  "rol",
+  "rollen",
+  "rolle",
+  "zakje",
+  "zakjes",
+  "beutel",
+  "tabletten",
+  "tabs",
+  "capsules",
+  "kapseln",
+  "pads",
+  "eieren",
+  "eier",
+  "blikken",
+  "dosen",
+  "flessen",
+  "flaschen",
+  "bos",
+  "tros",
+])
+
+// Amount followed by a unit, with a decimal comma or point
+const AMOUNT_PATTERN = /^(\d+(?:[.,]\d+)?)\s*([\p{L}]+)\.?$/u
+// Multipacks such as "6 x 330 ml", "2x1,5 liter" or "4 x 6 x 250 ml"
+const MULTIPACK_PATTERN = /^(\d+)\s*[x×]\s*(.+)$/u
+// Approximate amounts such as "ca. 500 g" or "± 1 kg"
+const APPROXIMATE_PREFIX = /^(?:ca\.?|circa|ongeveer|etwa|±|~)\s*/iu
+
+function parseNumber(value: string): number {
+  return Number(value.replace(",", "."))
+}
+
+function parseSingle(text: string): UnitQuantity | undefined {
+  // "per stuk", "per kilo"
+  const perUnit = text.match(/^(?:per|je|pro)\s+([\p{L}]+)$/u)
+  if (perUnit) {
+    return parseSingle(`1 ${perUnit[1]}`)
+  }
+
+  const match = text.match(AMOUNT_PATTERN)
+  if (!match) {
+    return undefined
+  }
+  const amount = parseNumber(match[1])
+  const unit = match[2].toLowerCase()
+  if (UNITS[unit]) {
+    return { type: UNITS[unit].type, amount: amount * UNITS[unit].factor }
+  }
+  if (PIECE_WORDS.has(unit)) {
+    return { type: "piece", amount }
+  }
+  return undefined
+}
+
+/**
+ * Parse a Picnic unit quantity ("500 g", "6 x 330 ml", "per stuk") into a
+ * quantity in a base unit. Returns undefined for texts that can't be parsed.
+ */
+export function parseUnitQuantity(text: string | undefined | null): UnitQuantity | undefined {
+  const normalized = text?.trim().toLowerCase().replace(APPROXIMATE_PREFIX, "")
+  if (!normalized) {
+    return undefined
+  }
+
+  const multipack = normalized.match(MULTIPACK_PATTERN)
+  if (multipack) {
+    const pack = parseUnitQuantity(multipack[2])
+    return pack && { ...pack, amount: pack.amount * Number(multipack[1]) }
+  }
+
+  const quantity = parseSingle(normalized)
+  return quantity && quantity.amount > 0 ? quantity : undefined
+}
+
+/**
+ * Price per kilogram, liter or piece, in the same currency unit as the price
+ */
+export function getUnitPrice(price: number, quantity: UnitQuantity): number {
+  return price / quantity.amount
+}
+
+export interface UnitPrices {
+  price_per_kg?: number
+  price_per_liter?: number
+  price_per_piece?: number
+}
+
+const UNIT_PRICE_FIELDS: Record<UnitType, keyof UnitPrices> = {
+  weight: "price_per_kg",
+  volume: "price_per_liter",
+  piece: "price_per_piece",
+}
+
+/**
+ * Normalized price of a product as the matching price_per_* field, rounded
+ * to whole cents. Empty when the price or unit quantity isn't known.
+ */
+export function getUnitPrices(
+  price: number | string | undefined,
+  unitQuantity: string | undefined,
+): UnitPrices {
+  const quantity = parseUnitQuantity(unitQuantity)
+  const cents = price === "" || price === undefined ? NaN : Number(price)
+  if (!quantity || !Number.isFinite(cents)) {
+    return {}
+  }
+  return { [UNIT_PRICE_FIELDS[quantity.type]]: Math.round(getUnitPrice(cents, quantity)) }
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect } from "vitest"
-import { z } from "zod"
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { z, ZodError } from "zod"
 
 /**
  * Regression tests for issue #10: PICNIC_COUNTRY_CODE environment variable not being used
@@ -166,3 +166,130 @@ describe("Config Schema - PICNIC_COUNTRY_CODE (Issue #10 regression)", () => {
     })
   })
 })
+
+describe("Config from the environment", () => {
+  // Import a fresh copy of the config, as it is parsed once on import
+  const loadConfig = async (env: Record<string, string>) => {
+    vi.resetModules()
+    for (const [name, value] of Object.entries(env)) {
+      vi.stubEnv(name, value)
+    }
+    return import("../../src/config.js")
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe("Accounts", () => {
+    it("should add the accounts of PICNIC_ACCOUNTS next to the default account", async () => {
+      const { picnicAccounts, defaultPicnicAccount } = await loadConfig({
+        PICNIC_ACCOUNTS: JSON.stringify({
+          home: { username: "home-user", password: "home-pass" },
+          berlin: { username: "berlin-user", password: "berlin-pass", countryCode: "DE" },
+        }),
+      })
+
+      expect(picnicAccounts).toEqual([
+        {
+          name: "default",
+          username: "test-username",
+          password: "test-password",
+          countryCode: "NL",
+        },
+        { name: "home", username: "home-user", password: "home-pass", countryCode: "NL" },
+        { name: "berlin", username: "berlin-user", password: "berlin-pass", countryCode: "DE" },
+      ])
+      expect(defaultPicnicAccount).toBe("default")
+    })
+
+    it("should use PICNIC_DEFAULT_ACCOUNT as the default account", async () => {
+      const { defaultPicnicAccount } = await loadConfig({
+        PICNIC_ACCOUNTS: JSON.stringify({ home: { username: "u", password: "p" } }),
+        PICNIC_DEFAULT_ACCOUNT: "home",
+      })
+
+      expect(defaultPicnicAccount).toBe("home")
+    })
+
+    it("should report PICNIC_ACCOUNTS that isn't valid JSON as a config error", async () => {
+      const error = await loadConfig({ PICNIC_ACCOUNTS: "{home:" }).catch((e) => e)
+
+      expect(error).toBeInstanceOf(ZodError)
+      expect(error.issues[0]).toMatchObject({
+        path: ["PICNIC_ACCOUNTS"],
+        message: expect.stringContaining("PICNIC_ACCOUNTS is not valid JSON"),
+      })
+    })
+
+    it("should reject accounts without a password or with an unknown country", async () => {
+      await expect(
+        loadConfig({ PICNIC_ACCOUNTS: JSON.stringify({ home: { username: "u" } }) }),
+      ).rejects.toThrow("Invalid PICNIC_ACCOUNTS")
+      await expect(
+        loadConfig({
+          PICNIC_ACCOUNTS: JSON.stringify({
+            home: { username: "u", password: "p", countryCode: "FR" },
+          }),
+        }),
+      ).rejects.toThrow()
+    })
+  })
+
+  describe("Tool filter", () => {
+    it("should expose all tools by default", async () => {
+      const { toolFilterConfig } = await loadConfig({})
+
+      expect(toolFilterConfig).toEqual({ readOnly: false, enabled: undefined, disabled: [] })
+    })
+
+    it("should split the enabled and disabled tools on commas", async () => {
+      const { toolFilterConfig } = await loadConfig({
+        PICNIC_ENABLED_TOOLS: " search, cart ,,picnic_get_deliveries",
+        PICNIC_DISABLED_TOOLS: "picnic_clear_cart",
+      })
+
+      expect(toolFilterConfig.enabled).toEqual(["search", "cart", "picnic_get_deliveries"])
+      expect(toolFilterConfig.disabled).toEqual(["picnic_clear_cart"])
+    })
+
+    it("should only turn on read-only mode for PICNIC_READ_ONLY=true", async () => {
+      expect((await loadConfig({ PICNIC_READ_ONLY: "true" })).toolFilterConfig.readOnly).toBe(true)
+      expect((await loadConfig({ PICNIC_READ_ONLY: "yes" })).toolFilterConfig.readOnly).toBe(false)
+    })
+  })
+
+  describe("Budget", () => {
+    it("should convert the limits in euros to cents", async () => {
+      const { budgetConfig } = await loadConfig({
+        PICNIC_BUDGET_PER_ORDER: "82.50",
+        PICNIC_BUDGET_PER_WEEK: "150",
+        PICNIC_BUDGET_PER_MONTH: "0",
+        PICNIC_BUDGET_MODE: "block",
+      })
+
+      expect(budgetConfig).toEqual({ perOrder: 8250, perWeek: 15000, perMonth: 0, mode: "block" })
+    })
+
+    it("should have no limits in warn mode by default", async () => {
+      const { budgetConfig } = await loadConfig({})
+
+      expect(budgetConfig).toEqual({
+        perOrder: undefined,
+        perWeek: undefined,
+        perMonth: undefined,
+        mode: "warn",
+      })
+    })
+
+    it.each(["abc", "-10", " ", "1e400"])("should reject %j as a budget limit", async (value) => {
+      await expect(loadConfig({ PICNIC_BUDGET_PER_ORDER: value })).rejects.toThrow(
+        "Invalid amount in euros",
+      )
+    })
+
+    it("should reject an unknown budget mode", async () => {
+      await expect(loadConfig({ PICNIC_BUDGET_MODE: "strict" })).rejects.toThrow()
+    })
+  })
+})
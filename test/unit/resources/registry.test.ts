@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest"
+import { describe, it, expect, beforeEach, vi } from "vitest"
 import { z } from "zod"
 import {
   resourceRegistry,
@@ -422,4 +422,53 @@ describe("ResourceRegistry", () => {
       expect(resourceRegistry["resources"].get("test://same-uri")?.name).toBe("Second Resource")
     })
   })
+
+  describe("resource templates", () => {
+    const handler = vi.fn()
+    const subscribe = vi.fn()
+
+    beforeEach(() => {
+      resourceRegistry["templates"].clear()
+      handler.mockReset().mockResolvedValue({ contents: [] })
+      subscribe.mockReset().mockReturnValue(() => {})
+      resourceRegistry.registerTemplate({
+        uriTemplate: "test://deliveries/{id}/tracking",
+        name: "Tracking",
+        mimeType: "application/json",
+        handler,
+        subscribe,
+      })
+    })
+
+    it("should list templates separately from resources", () => {
+      expect(resourceRegistry.getResourceTemplatesList()).toEqual([
+        {
+          uriTemplate: "test://deliveries/{id}/tracking",
+          name: "Tracking",
+          description: undefined,
+          mimeType: "application/json",
+        },
+      ])
+      expect(resourceRegistry.getResourcesList()).toEqual([])
+    })
+
+    it("should read resources matching a template with its variables", async () => {
+      await resourceRegistry.readResource("test://deliveries/abc%20d/tracking")
+
+      expect(handler).toHaveBeenCalledWith({ id: "abc d" }, "test://deliveries/abc%20d/tracking")
+      expect(resourceRegistry.hasResource("test://deliveries/abc/tracking")).toBe(true)
+      expect(resourceRegistry.hasResource("test://deliveries/a/b/tracking")).toBe(false)
+    })
+
+    it("should subscribe through the template's subscribe hook", () => {
+      const onUpdate = vi.fn()
+
+      resourceRegistry.subscribe("test://deliveries/abc/tracking", onUpdate)
+
+      expect(subscribe).toHaveBeenCalledWith({ id: "abc" }, onUpdate)
+      expect(() => resourceRegistry.subscribe("test://unknown", onUpdate)).toThrow(
+        "Unknown resource",
+      )
+    })
+  })
 })
@@ -1,12 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from "vitest"
 import { z } from "zod"
-import { toolRegistry, ToolDefinition, ToolResult } from "../../../src/tools/registry.js"
-import { ToolError, ErrorCode } from "../../../src/types/errors.js"
+import {
+  toolRegistry,
+  ToolDefinition,
+  ToolResult,
+  CONFIRMATION_TTL_MS,
+  ToolResultWithContent,
+} from "../../../src/tools/registry.js"
+import { ToolError, AuthError, ErrorCode } from "../../../src/types/errors.js"
 
 describe("ToolRegistry", () => {
   beforeEach(() => {
     // Clear registry before each test
     toolRegistry["tools"].clear()
+    toolRegistry.setAuthenticationCheck(() => true)
+    toolRegistry.setToolFilter({})
   })
 
   describe("register", () => {
@@ -110,6 +118,30 @@ describe("ToolRegistry", () => {
       expect(list.map((t) => t.name)).toContain("tool1")
       expect(list.map((t) => t.name)).toContain("tool2")
     })
+
+    it("should include tool annotations when present", () => {
+      toolRegistry.register({
+        name: "checkout",
+        description: "Places the order",
+        inputSchema: z.object({}),
+        annotations: { title: "Checkout", readOnlyHint: false, destructiveHint: true },
+        handler: async () => "ordered",
+      })
+      toolRegistry.register({
+        name: "plain",
+        description: "No annotations",
+        inputSchema: z.object({}),
+        handler: async () => "plain",
+      })
+
+      const [checkout, plain] = toolRegistry.getToolsList()
+      expect(checkout.annotations).toEqual({
+        title: "Checkout",
+        readOnlyHint: false,
+        destructiveHint: true,
+      })
+      expect(plain).not.toHaveProperty("annotations")
+    })
   })
 
   describe("executeTool", () => {
@@ -336,4 +368,405 @@ describe("ToolRegistry", () => {
       }
     })
   })
+
+  describe("authentication", () => {
+    beforeEach(() => {
+      toolRegistry.register({
+        name: "auth-tool",
+        description: "Available before authentication",
+        inputSchema: z.object({}),
+        allowUnauthenticated: true,
+        handler: async () => "auth",
+      })
+      toolRegistry.register({
+        name: "protected-tool",
+        description: "Requires authentication",
+        inputSchema: z.object({}),
+        handler: async () => "protected",
+      })
+    })
+
+    it("should only list tools allowed before authentication when unauthenticated", () => {
+      toolRegistry.setAuthenticationCheck(() => false)
+
+      expect(toolRegistry.getToolsList().map((t) => t.name)).toEqual(["auth-tool"])
+    })
+
+    it("should list all tools once authenticated", () => {
+      let authenticated = false
+      toolRegistry.setAuthenticationCheck(() => authenticated)
+      authenticated = true
+
+      expect(toolRegistry.getToolsList().map((t) => t.name)).toEqual([
+        "auth-tool",
+        "protected-tool",
+      ])
+    })
+
+    it("should refuse to execute protected tools when unauthenticated", async () => {
+      toolRegistry.setAuthenticationCheck(() => false)
+
+      const error = await toolRegistry.executeTool("protected-tool", {}).catch((e) => e)
+      expect(error).toBeInstanceOf(AuthError)
+      expect(error.code).toBe(ErrorCode.AUTH_REQUIRED)
+      expect(error.details).toMatchObject({ availableTools: ["auth-tool"] })
+
+      await expect(toolRegistry.executeTool("auth-tool", {})).resolves.toEqual({
+        content: [{ type: "text", text: "auth" }],
+      })
+    })
+
+    it("should notify subscribers when tools change until unsubscribed", () => {
+      const listener = vi.fn()
+      const unsubscribe = toolRegistry.onToolsChanged(listener)
+
+      toolRegistry.notifyToolsChanged()
+      unsubscribe()
+      toolRegistry.notifyToolsChanged()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("read-only access", () => {
+    beforeEach(() => {
+      toolRegistry.register({
+        name: "read-tool",
+        description: "Only reads data",
+        inputSchema: z.object({}),
+        annotations: { readOnlyHint: true },
+        handler: async () => "read",
+      })
+      toolRegistry.register({
+        name: "write-tool",
+        description: "Changes data",
+        inputSchema: z.object({}),
+        handler: async () => "write",
+      })
+    })
+
+    it("should only list read-only tools for read-only access", () => {
+      expect(toolRegistry.getToolsList({ readOnly: true }).map((t) => t.name)).toEqual([
+        "read-tool",
+      ])
+      expect(toolRegistry.getToolsList().map((t) => t.name)).toEqual(["read-tool", "write-tool"])
+    })
+
+    it("should refuse to execute tools that change data with read-only access", async () => {
+      const error = await toolRegistry
+        .executeTool("write-tool", {}, { readOnly: true })
+        .catch((e) => e)
+      expect(error).toBeInstanceOf(AuthError)
+      expect(error.code).toBe(ErrorCode.AUTH_FORBIDDEN)
+      expect(error.statusCode).toBe(403)
+
+      await expect(toolRegistry.executeTool("read-tool", {}, { readOnly: true })).resolves.toEqual({
+        content: [{ type: "text", text: "read" }],
+      })
+    })
+  })
+
+  describe("confirmation", () => {
+    const handler = vi.fn()
+    const preview = vi.fn()
+
+    beforeEach(() => {
+      handler.mockReset().mockResolvedValue("order placed")
+      preview.mockReset().mockResolvedValue({ total: 4250 })
+      toolRegistry.register({
+        name: "checkout",
+        description: "Places the order",
+        inputSchema: z.object({ note: z.string().optional() }),
+        confirmationPreview: preview,
+        handler,
+      })
+    })
+
+    async function requestConfirmation(args: Record<string, unknown> = {}) {
+      const result = await toolRegistry.executeTool("checkout", args)
+      return JSON.parse(result.content[0].text!)
+    }
+
+    it("should only return a preview and token without a confirmation token", async () => {
+      const response = await requestConfirmation({ note: "leave at door" })
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(preview).toHaveBeenCalledWith({ note: "leave at door" })
+      expect(response).toMatchObject({
+        confirmation_required: true,
+        confirmation_token: expect.any(String),
+        preview: { total: 4250 },
+      })
+    })
+
+    it("should advertise the confirmation token argument", () => {
+      const [tool] = toolRegistry.getToolsList()
+      expect(tool.inputSchema).toMatchObject({
+        properties: { note: expect.any(Object), confirmation_token: expect.any(Object) },
+      })
+    })
+
+    it("should run the tool once with a valid token", async () => {
+      const { confirmation_token } = await requestConfirmation({ note: "leave at door" })
+
+      const result = await toolRegistry.executeTool("checkout", {
+        note: "leave at door",
+        confirmation_token,
+      })
+
+      expect(result).toEqual({ content: [{ type: "text", text: "order placed" }] })
+      // With the confirmed preview, so the handler can tell whether things changed since
+      expect(handler).toHaveBeenCalledWith({ note: "leave at door" }, { total: 4250 })
+
+      await expect(
+        toolRegistry.executeTool("checkout", { note: "leave at door", confirmation_token }),
+      ).rejects.toMatchObject({ code: ErrorCode.TOOL_VALIDATION_FAILED })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it("should reject tokens issued for different arguments", async () => {
+      const { confirmation_token } = await requestConfirmation({ note: "leave at door" })
+
+      const error = await toolRegistry
+        .executeTool("checkout", { note: "ring twice", confirmation_token })
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(ToolError)
+      expect(error.message).toContain("different arguments")
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it("should reject expired and unknown tokens", async () => {
+      vi.useFakeTimers()
+      try {
+        const { confirmation_token } = await requestConfirmation()
+        vi.advanceTimersByTime(CONFIRMATION_TTL_MS + 1)
+
+        await expect(
+          toolRegistry.executeTool("checkout", { confirmation_token }),
+        ).rejects.toMatchObject({ code: ErrorCode.TOOL_VALIDATION_FAILED })
+        await expect(
+          toolRegistry.executeTool("checkout", { confirmation_token: "made-up" }),
+        ).rejects.toMatchObject({ code: ErrorCode.TOOL_VALIDATION_FAILED })
+        expect(handler).not.toHaveBeenCalled()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it("should run the tool right away when there is nothing to confirm", async () => {
+      preview.mockResolvedValue(undefined)
+
+      const result = await toolRegistry.executeTool("checkout", { note: "leave at door" })
+
+      expect(result).toEqual({ content: [{ type: "text", text: "order placed" }] })
+      expect(handler).toHaveBeenCalledWith({ note: "leave at door" })
+    })
+
+    it("should require an object input schema", () => {
+      expect(() =>
+        toolRegistry.register({
+          name: "bad",
+          description: "Not an object schema",
+          inputSchema: z.string(),
+          confirmationPreview: async () => ({}),
+          handler: async () => "done",
+        }),
+      ).toThrow(ToolError)
+    })
+  })
+
+  describe("tool filter", () => {
+    beforeEach(() => {
+      toolRegistry.register({
+        name: "search",
+        description: "Searches products",
+        inputSchema: z.object({}),
+        group: "products",
+        annotations: { readOnlyHint: true },
+        handler: async () => "found",
+      })
+      toolRegistry.register({
+        name: "add-to-cart",
+        description: "Adds a product",
+        inputSchema: z.object({}),
+        group: "cart",
+        handler: async () => "added",
+      })
+      toolRegistry.register({
+        name: "checkout",
+        description: "Places the order",
+        inputSchema: z.object({}),
+        group: "cart",
+        handler: async () => "ordered",
+      })
+    })
+
+    const listedTools = () => toolRegistry.getToolsList().map((t) => t.name)
+
+    it("should only expose read-only tools in read-only mode", () => {
+      toolRegistry.setToolFilter({ readOnly: true })
+
+      expect(listedTools()).toEqual(["search"])
+    })
+
+    it("should keep the authentication tools in read-only mode", async () => {
+      toolRegistry.register({
+        name: "verify-2fa",
+        description: "Verifies a 2FA code",
+        inputSchema: z.object({}),
+        allowUnauthenticated: true,
+        annotations: { readOnlyHint: false },
+        handler: async () => "verified",
+      })
+      toolRegistry.setToolFilter({ readOnly: true })
+
+      expect(listedTools()).toEqual(["search", "verify-2fa"])
+      expect(toolRegistry.getToolsList({ readOnly: true }).map((t) => t.name)).toContain(
+        "verify-2fa",
+      )
+      await expect(toolRegistry.executeTool("verify-2fa", {}, { readOnly: true })).resolves.toEqual(
+        { content: [{ type: "text", text: "verified" }] },
+      )
+    })
+
+    it("should only expose enabled tools and groups", () => {
+      toolRegistry.setToolFilter({ enabled: ["products", "checkout"] })
+
+      expect(listedTools()).toEqual(["search", "checkout"])
+    })
+
+    it("should hide disabled tools and groups", () => {
+      toolRegistry.setToolFilter({ disabled: ["checkout"] })
+      expect(listedTools()).toEqual(["search", "add-to-cart"])
+
+      toolRegistry.setToolFilter({ enabled: ["cart", "products"], disabled: ["cart"] })
+      expect(listedTools()).toEqual(["search"])
+    })
+
+    it("should refuse to execute hidden tools", async () => {
+      toolRegistry.setToolFilter({ disabled: ["checkout"] })
+
+      const error = await toolRegistry.executeTool("checkout", {}).catch((e) => e)
+
+      expect(error).toBeInstanceOf(ToolError)
+      expect(error.code).toBe(ErrorCode.TOOL_NOT_FOUND)
+      expect(error.details.availableTools).toEqual(["search", "add-to-cart"])
+      await expect(toolRegistry.executeTool("add-to-cart", {})).resolves.toEqual({
+        content: [{ type: "text", text: "added" }],
+      })
+    })
+
+    it("should hide disabled tools from the tool definitions", () => {
+      toolRegistry.setToolFilter({ disabled: ["cart"] })
+
+      expect(Object.keys(toolRegistry.getToolDefinitions())).toEqual(["SEARCH"])
+    })
+
+    it("should notify listeners when the filter changes", () => {
+      const listener = vi.fn()
+      const unsubscribe = toolRegistry.onToolsChanged(listener)
+
+      toolRegistry.setToolFilter({ readOnly: true })
+      unsubscribe()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("structured output", () => {
+    beforeEach(() => {
+      toolRegistry.register({
+        name: "cart",
+        description: "Returns the cart",
+        inputSchema: z.object({}),
+        outputSchema: z.object({ total: z.number(), items: z.array(z.string()) }),
+        handler: async () => ({ total: 2, items: ["milk", "bread"], internal: "stripped" }),
+      })
+      toolRegistry.register({
+        name: "greeting",
+        description: "Returns a string",
+        inputSchema: z.object({}),
+        outputSchema: z.string(),
+        handler: async () => "hello",
+      })
+    })
+
+    it("should advertise object output schemas", () => {
+      const [cart, greeting] = toolRegistry.getToolsList()
+
+      expect(cart.outputSchema).toMatchObject({
+        type: "object",
+        properties: { total: { type: "number" }, items: { type: "array" } },
+      })
+      expect(greeting).not.toHaveProperty("outputSchema")
+    })
+
+    it("should return structured content with a text fallback", async () => {
+      const result = await toolRegistry.executeTool("cart", {})
+
+      expect(result.structuredContent).toEqual({ total: 2, items: ["milk", "bread"] })
+      expect(JSON.parse(result.content[0].text!)).toEqual(result.structuredContent)
+    })
+
+    it("should return plain content for tools without an object output schema", async () => {
+      await expect(toolRegistry.executeTool("greeting", {})).resolves.toEqual({
+        content: [{ type: "text", text: "hello" }],
+      })
+    })
+
+    it("should not advertise output schemas of tools requiring confirmation", async () => {
+      toolRegistry.register({
+        name: "checkout",
+        description: "Places the order",
+        inputSchema: z.object({}),
+        outputSchema: z.object({ order_id: z.string() }),
+        confirmationPreview: async () => ({ total: 2 }),
+        handler: async () => ({ order_id: "order-1" }),
+      })
+
+      expect(toolRegistry.getToolsList()[2]).not.toHaveProperty("outputSchema")
+      const preview = await toolRegistry.executeTool("checkout", {})
+      expect(preview.structuredContent).toBeUndefined()
+    })
+  })
+
+  describe("extra content", () => {
+    it("should append content blocks returned by the handler", async () => {
+      toolRegistry.register({
+        name: "image",
+        description: "Returns an image",
+        inputSchema: z.object({}),
+        handler: async () =>
+          new ToolResultWithContent({ imageId: "abc" }, [
+            { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+          ]),
+      })
+
+      const result = await toolRegistry.executeTool("image", {})
+
+      expect(result.content).toEqual([
+        { type: "text", text: JSON.stringify({ imageId: "abc" }, null, 2) },
+        { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+      ])
+    })
+
+    it("should validate and structure the result next to the extra content", async () => {
+      toolRegistry.register({
+        name: "search",
+        description: "Returns results with thumbnails",
+        inputSchema: z.object({}),
+        outputSchema: z.object({ results: z.array(z.string()) }),
+        handler: async () =>
+          new ToolResultWithContent({ results: ["milk"] }, [
+            { type: "image", data: "aGVsbG8=", mimeType: "image/jpeg" },
+          ]),
+      })
+
+      const result = await toolRegistry.executeTool("search", {})
+
+      expect(result.structuredContent).toEqual({ results: ["milk"] })
+      expect(result.content.map((block) => block.type)).toEqual(["text", "image"])
+    })
+  })
 })
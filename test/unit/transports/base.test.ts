@@ -6,6 +6,7 @@ import { promptRegistry } from "../../../src/prompts/index.js"
 import { resourceRegistry } from "../../../src/resources/index.js"
 import { ToolError, PromptError, ResourceError, ErrorCode } from "../../../src/types/errors.js"
 import { createMCPServer } from "../../../src/utils/server-factory.js"
+import { onPicnicSlotWatchMatch, PicnicAccount } from "../../../src/utils/picnic-client.js"
 
 // Mock the SDK types
 vi.mock("@modelcontextprotocol/sdk/types.js", () => ({
@@ -14,7 +15,13 @@ vi.mock("@modelcontextprotocol/sdk/types.js", () => ({
   GetPromptRequestSchema: { properties: { method: { const: "prompts/get" } } },
   CallToolRequestSchema: { properties: { method: { const: "tools/call" } } },
   ListResourcesRequestSchema: { properties: { method: { const: "resources/list" } } },
+  ListResourceTemplatesRequestSchema: {
+    properties: { method: { const: "resources/templates/list" } },
+  },
   ReadResourceRequestSchema: { properties: { method: { const: "resources/read" } } },
+  SubscribeRequestSchema: { properties: { method: { const: "resources/subscribe" } } },
+  UnsubscribeRequestSchema: { properties: { method: { const: "resources/unsubscribe" } } },
+  SetLevelRequestSchema: { properties: { method: { const: "logging/setLevel" } } },
 }))
 
 // Mock the registries
@@ -22,6 +29,7 @@ vi.mock("../../../src/tools/index.js", () => ({
   toolRegistry: {
     getToolsList: vi.fn(),
     executeTool: vi.fn(),
+    onToolsChanged: vi.fn(() => vi.fn()),
   },
 }))
 
@@ -35,7 +43,9 @@ vi.mock("../../../src/prompts/index.js", () => ({
 vi.mock("../../../src/resources/index.js", () => ({
   resourceRegistry: {
     getResourcesList: vi.fn(),
+    getResourceTemplatesList: vi.fn(),
     readResource: vi.fn(),
+    subscribe: vi.fn(),
   },
 }))
 
@@ -53,6 +63,10 @@ vi.mock("../../../src/utils/server-factory.js", () => ({
   }),
 }))
 
+vi.mock("../../../src/utils/picnic-client.js", () => ({
+  onPicnicSlotWatchMatch: vi.fn(() => vi.fn()),
+}))
+
 // Create a concrete implementation for testing
 class TestTransportServer extends BaseTransportServer {
   public server: any
@@ -72,8 +86,8 @@ class TestTransportServer extends BaseTransportServer {
   }
 
   // Expose protected method for testing
-  public testSetupServerHandlers(server: Server) {
-    this.setupServerHandlers(server)
+  public testSetupServerHandlers(server: Server, account?: PicnicAccount) {
+    this.setupServerHandlers(server, account)
   }
 }
 
@@ -90,7 +104,7 @@ describe("BaseTransportServer", () => {
   describe("createConfiguredServer", () => {
     it("should create a server with handlers configured", () => {
       expect(testServer.server).toBeDefined()
-      expect(testServer.server.setRequestHandler).toHaveBeenCalledTimes(6)
+      expect(testServer.server.setRequestHandler).toHaveBeenCalledTimes(10)
     })
   })
 
@@ -100,7 +114,89 @@ describe("BaseTransportServer", () => {
     })
 
     it("should set up all required request handlers", () => {
-      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(6)
+      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(10)
+    })
+
+    it("should send tools/list_changed when the available tools change", () => {
+      mockServer.sendToolListChanged = vi.fn().mockResolvedValue(undefined)
+      const listener = (toolRegistry.onToolsChanged as Mock).mock.calls.at(-1)![0]
+
+      listener()
+
+      expect(mockServer.sendToolListChanged).toHaveBeenCalledTimes(1)
+    })
+
+    it("should stop listening for tool changes when the server closes", () => {
+      const unsubscribe = (toolRegistry.onToolsChanged as Mock).mock.results.at(-1)!.value
+
+      mockServer.onclose()
+
+      expect(unsubscribe).toHaveBeenCalled()
+    })
+
+    describe("slot watch notifications", () => {
+      const match = {
+        slots: [{ slot_id: "s1", date: "2026-06-06", score: 4, excluded: false, reasons: [] }],
+      }
+
+      beforeEach(() => {
+        mockServer.sendLoggingMessage = vi.fn().mockResolvedValue(undefined)
+        mockServer.sendResourceUpdated = vi.fn().mockResolvedValue(undefined)
+      })
+
+      function notify() {
+        const listener = (onPicnicSlotWatchMatch as Mock).mock.calls.at(-1)![0]
+        listener(match, "default")
+      }
+
+      it("should send a log message and update the slot watch resource", () => {
+        notify()
+
+        expect(mockServer.sendLoggingMessage).toHaveBeenCalledWith({
+          level: "notice",
+          logger: "picnic-slot-watcher",
+          data: expect.objectContaining({ account: "default", slots: match.slots }),
+        })
+        expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({
+          uri: "picnic://slot-watch",
+        })
+      })
+
+      it("should respect the log level set by the client", async () => {
+        await mockServer.getHandler("logging/setLevel")({ params: { level: "warning" } })
+
+        notify()
+
+        expect(mockServer.sendLoggingMessage).not.toHaveBeenCalled()
+        expect(mockServer.sendResourceUpdated).toHaveBeenCalled()
+      })
+
+      it("should stop listening when the server closes", () => {
+        const unsubscribe = (onPicnicSlotWatchMatch as Mock).mock.results.at(-1)!.value
+
+        mockServer.onclose()
+
+        expect(unsubscribe).toHaveBeenCalled()
+      })
+
+      it("should only notify sessions with their own account about that account", () => {
+        const unsubscribe = vi.fn()
+        const account = { name: "session", slotWatcher: { onMatch: vi.fn(() => unsubscribe) } }
+        const sessionServer = createMCPServer() as any
+        sessionServer.sendLoggingMessage = vi.fn().mockResolvedValue(undefined)
+        sessionServer.sendResourceUpdated = vi.fn().mockResolvedValue(undefined)
+        vi.mocked(onPicnicSlotWatchMatch).mockClear()
+
+        testServer.testSetupServerHandlers(sessionServer, account as unknown as PicnicAccount)
+        account.slotWatcher.onMatch.mock.calls[0][0](match)
+
+        expect(onPicnicSlotWatchMatch).not.toHaveBeenCalled()
+        expect(sessionServer.sendLoggingMessage).toHaveBeenCalledWith(
+          expect.objectContaining({ data: expect.objectContaining({ account: "session" }) }),
+        )
+        sessionServer.onclose()
+        expect(unsubscribe).toHaveBeenCalled()
+      })
     })
 
     describe("List Tools Handler", () => {
@@ -112,8 +208,21 @@ describe("BaseTransportServer", () => {
         ;(toolRegistry.getToolsList as Mock).mockReturnValue(mockTools)
 
         const handler = mockServer.getHandler("tools/list")
-        const result = await handler()
+        const result = await handler({}, {})
         expect(result).toEqual({ tools: mockTools })
+        expect(toolRegistry.getToolsList).toHaveBeenCalledWith({ readOnly: false })
+      })
+
+      it("should only list read-only tools for read-only clients", async () => {
+        ;(toolRegistry.getToolsList as Mock).mockReturnValue([])
+
+        const handler = mockServer.getHandler("tools/list")
+        await handler(
+          {},
+          { authInfo: { token: "key", clientId: "api-key-1", scopes: ["picnic:read"] } },
+        )
+
+        expect(toolRegistry.getToolsList).toHaveBeenCalledWith({ readOnly: true })
       })
 
       it("should handle errors in tools list", async () => {
@@ -122,7 +231,7 @@ describe("BaseTransportServer", () => {
         })
 
         const handler = mockServer.getHandler("tools/list")
-        await expect(handler()).rejects.toThrow(ToolError)
+        await expect(handler({}, {})).rejects.toThrow(ToolError)
       })
     })
 
@@ -135,7 +244,7 @@ describe("BaseTransportServer", () => {
         ;(promptRegistry.getPromptsList as Mock).mockReturnValue(mockPrompts)
 
         const handler = mockServer.getHandler("prompts/list")
-        const result = await handler()
+        const result = await handler({}, {})
         expect(result).toEqual({ prompts: mockPrompts })
       })
 
@@ -145,7 +254,7 @@ describe("BaseTransportServer", () => {
         })
 
         const handler = mockServer.getHandler("prompts/list")
-        await expect(handler()).rejects.toThrow(PromptError)
+        await expect(handler({}, {})).rejects.toThrow(PromptError)
       })
     })
 
@@ -167,7 +276,7 @@ describe("BaseTransportServer", () => {
           params: { name: "test-prompt", arguments: { input: "test" } },
         }
 
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result).toEqual({
           messages: mockResult.messages,
           tools: mockResult.tools,
@@ -215,18 +324,48 @@ describe("BaseTransportServer", () => {
           params: { name: "test-tool", arguments: { input: "test" } },
         }
 
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result).toEqual({
           content: mockResult.content,
           isError: mockResult.isError,
         })
-        expect(toolRegistry.executeTool).toHaveBeenCalledWith("test-tool", { input: "test" })
+        expect(toolRegistry.executeTool).toHaveBeenCalledWith(
+          "test-tool",
+          { input: "test" },
+          { readOnly: false },
+        )
+      })
+
+      it("should pass on structured content", async () => {
+        const mockResult = {
+          content: [{ type: "text" as const, text: '{"total":1}' }],
+          structuredContent: { total: 1 },
+        }
+        ;(toolRegistry.executeTool as Mock).mockResolvedValue(mockResult)
+
+        const handler = mockServer.getHandler("tools/call")
+        const result = await handler({ params: { name: "test-tool", arguments: {} } }, {})
+
+        expect(result.structuredContent).toEqual({ total: 1 })
+        expect(result.content).toEqual(mockResult.content)
+      })
+
+      it("should restrict read-only clients to read-only tools", async () => {
+        ;(toolRegistry.executeTool as Mock).mockResolvedValue({ content: [] })
+
+        const handler = mockServer.getHandler("tools/call")
+        const request = { params: { name: "test-tool", arguments: {} } }
+        await handler(request, {
+          authInfo: { token: "key", clientId: "api-key-1", scopes: ["picnic:read"] },
+        })
+
+        expect(toolRegistry.executeTool).toHaveBeenCalledWith("test-tool", {}, { readOnly: true })
       })
 
       it("should handle missing tool name", async () => {
         const handler = mockServer.getHandler("tools/call")
         const request = { params: {} }
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result.isError).toBe(true)
         expect(result.content[0].text).toContain("Tool name is required")
       })
@@ -236,7 +375,7 @@ describe("BaseTransportServer", () => {
 
         const handler = mockServer.getHandler("tools/call")
         const request = { params: { name: "test-tool" } }
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result.isError).toBe(true)
         expect(result.content[0].text).toContain("Tool execution failed")
       })
@@ -250,7 +389,7 @@ describe("BaseTransportServer", () => {
 
         const handler = mockServer.getHandler("tools/call")
         const request = { params: { name: "test-tool" } }
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result).toBe(errorResponse)
       })
 
@@ -260,7 +399,7 @@ describe("BaseTransportServer", () => {
 
         const handler = mockServer.getHandler("tools/call")
         const request = { params: { name: "test-tool" } }
-        const result = await handler(request)
+        const result = await handler(request, {})
         expect(result.isError).toBe(true)
         expect(result.content[0].text).toBe("Tool not found")
       })
@@ -289,6 +428,58 @@ describe("BaseTransportServer", () => {
       })
     })
 
+    describe("List Resource Templates Handler", () => {
+      it("should return the resource templates", async () => {
+        const templates = [{ uriTemplate: "test://items/{id}", name: "Item" }]
+        ;(resourceRegistry.getResourceTemplatesList as Mock).mockReturnValue(templates)
+
+        const handler = mockServer.getHandler("resources/templates/list")
+        expect(await handler()).toEqual({ resourceTemplates: templates })
+      })
+    })
+
+    describe("Resource Subscriptions", () => {
+      const uri = "test://items/1"
+      const unsubscribe = vi.fn()
+
+      beforeEach(() => {
+        unsubscribe.mockReset()
+        ;(resourceRegistry.subscribe as Mock).mockReturnValue(unsubscribe)
+        mockServer.sendResourceUpdated = vi.fn().mockResolvedValue(undefined)
+      })
+
+      it("should send resources/updated while subscribed", async () => {
+        await mockServer.getHandler("resources/subscribe")({ params: { uri } })
+        await mockServer.getHandler("resources/subscribe")({ params: { uri } })
+        expect(resourceRegistry.subscribe).toHaveBeenCalledTimes(1)
+
+        const onUpdate = (resourceRegistry.subscribe as Mock).mock.calls[0][1]
+        onUpdate()
+        expect(mockServer.sendResourceUpdated).toHaveBeenCalledWith({ uri })
+
+        await mockServer.getHandler("resources/unsubscribe")({ params: { uri } })
+        expect(unsubscribe).toHaveBeenCalledTimes(1)
+      })
+
+      it("should end the subscriptions when the server closes", async () => {
+        await mockServer.getHandler("resources/subscribe")({ params: { uri } })
+
+        mockServer.onclose()
+
+        expect(unsubscribe).toHaveBeenCalledTimes(1)
+      })
+
+      it("should reject subscriptions to unknown resources", async () => {
+        ;(resourceRegistry.subscribe as Mock).mockImplementation(() => {
+          throw new Error("Unknown resource: test://nope")
+        })
+
+        await expect(
+          mockServer.getHandler("resources/subscribe")({ params: { uri: "test://nope" } }),
+        ).rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND })
+      })
+    })
+
     describe("Read Resource Handler", () => {
       it("should read resource successfully", async () => {
         const mockContent = { contents: "resource content" }
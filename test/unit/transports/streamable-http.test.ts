@@ -6,39 +6,61 @@ import {
   StreamableHttpServerOptions,
 } from "../../../src/transports/streamable-http"
 import { createMCPServer } from "../../../src/utils/server-factory"
+import { PicnicAccount, runWithPicnicAccount } from "../../../src/utils/picnic-client"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { ErrorCode } from "../../../src/types/errors"
+
+const { createMockTransport, createMockAccount } = vi.hoisted(() => {
+  const mockTransport = {
+    sessionId: "test-session-id",
+    close: vi.fn().mockResolvedValue(undefined),
+    onclose: undefined,
+    handleRequest: vi.fn().mockResolvedValue(undefined),
+  }
+
+  return {
+    createMockTransport: (options: any) => {
+      const transport = {
+        ...mockTransport,
+        sessionId: undefined as string | undefined,
+        close: vi.fn().mockResolvedValue(undefined),
+        onclose: undefined,
+        // Like the SDK, assign the session ID while handling the initialize request
+        handleRequest: vi.fn().mockImplementation(async () => {
+          if (!transport.sessionId && options?.onsessioninitialized) {
+            transport.sessionId = options.sessionIdGenerator
+              ? options.sessionIdGenerator()
+              : mockTransport.sessionId
+            options.onsessioninitialized(transport.sessionId)
+          }
+        }),
+      }
+      return transport
+    },
+    createMockAccount: (name: string) => ({
+      name,
+      initialize: vi.fn().mockResolvedValue(undefined),
+      onAuthStateChange: vi.fn(),
+      slotWatcher: { onMatch: vi.fn() },
+      dispose: vi.fn(),
+    }),
+  }
+})
 
 // Mock dependencies
 vi.mock("../../../src/utils/server-factory")
-vi.mock("crypto", () => ({
+vi.mock("../../../src/utils/picnic-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../src/utils/picnic-client")>()),
+  PicnicAccount: vi.fn().mockImplementation(createMockAccount),
+  runWithPicnicAccount: vi.fn((_account, fn) => fn()),
+}))
+vi.mock("crypto", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("crypto")>()),
   randomUUID: vi.fn(() => "test-session-id"),
 }))
 
-const mockTransport = {
-  sessionId: "test-session-id",
-  close: vi.fn().mockResolvedValue(undefined),
-  onclose: undefined,
-  handleRequest: vi.fn().mockResolvedValue(undefined),
-}
-
 vi.mock("@modelcontextprotocol/sdk/server/streamableHttp.js", () => ({
-  StreamableHTTPServerTransport: vi.fn().mockImplementation((options) => {
-    const transport = {
-      ...mockTransport,
-      sessionId: "test-session-id",
-      close: vi.fn().mockResolvedValue(undefined),
-      onclose: undefined,
-      handleRequest: vi.fn().mockResolvedValue(undefined),
-    }
-
-    if (options?.onsessioninitialized) {
-      const sessionId = options.sessionIdGenerator
-        ? options.sessionIdGenerator()
-        : transport.sessionId
-      transport.sessionId = sessionId
-      options.onsessioninitialized(sessionId)
-    }
-    return transport
-  }),
+  StreamableHTTPServerTransport: vi.fn().mockImplementation(createMockTransport),
 }))
 
 describe("StreamableHttpServer", () => {
@@ -184,4 +206,216 @@ describe("StreamableHttpServer", () => {
     expect(mcpRoute).toBeDefined()
     expect(mcpRoute.route.methods.post).toBe(true)
   })
+
+  it("should require an API key on the MCP and session routes but not on the health check", () => {
+    server = new StreamableHttpServer({ auth: { apiKeys: [{ key: "secret", name: "api-key-1" }] } })
+    // @ts-expect-error - private property access
+    const routes = (server.app as express.Application)._router.stack.filter((r: any) => r.route)
+    const handlerCount = (path: string) =>
+      new Set(routes.find((r: any) => r.route.path === path).route.stack.map((l: any) => l.handle))
+        .size
+
+    expect(handlerCount("/mcp")).toBe(2)
+    expect(handlerCount("/sessions")).toBe(2)
+    expect(handlerCount("/sessions/:sessionId")).toBe(2)
+    expect(handlerCount("/health")).toBe(1)
+  })
+
+  describe("session credentials", () => {
+    const initializeBody = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    }
+
+    beforeEach(() => {
+      // Restored by the outer afterEach, so set them up again for every test
+      vi.mocked(StreamableHTTPServerTransport).mockImplementation(createMockTransport as any)
+      vi.mocked(PicnicAccount).mockImplementation(createMockAccount as any)
+      vi.mocked(runWithPicnicAccount).mockImplementation((_account, fn) => fn())
+    })
+
+    function createRequest(headers: Record<string, string> = {}, body: unknown = initializeBody) {
+      return {
+        body,
+        header: (name: string) => headers[name.toLowerCase()],
+      } as unknown as express.Request
+    }
+
+    it("should bind a Picnic account created from the session headers", async () => {
+      server = new StreamableHttpServer()
+      const req = createRequest({
+        "x-picnic-username": "tenant@example.com",
+        "x-picnic-password": "secret",
+        "x-picnic-country-code": "de",
+      })
+
+      // @ts-expect-error - private method access
+      await server.handlePostRequest(req, {} as express.Response)
+
+      expect(PicnicAccount).toHaveBeenCalledWith(
+        "session",
+        { username: "tenant@example.com", password: "secret", countryCode: "DE" },
+        { persistSession: false },
+      )
+      const account = vi.mocked(PicnicAccount).mock.results[0].value
+      expect(account.initialize).toHaveBeenCalled()
+      expect(runWithPicnicAccount).toHaveBeenCalledWith(account, expect.any(Function))
+    })
+
+    it("should read credentials from the initialize request metadata", async () => {
+      server = new StreamableHttpServer()
+      const req = createRequest(
+        {},
+        {
+          ...initializeBody,
+          params: { ...initializeBody.params, _meta: { picnic: { authKey: "client-key" } } },
+        },
+      )
+
+      // @ts-expect-error - private method access
+      await server.handlePostRequest(req, {} as express.Response)
+
+      expect(PicnicAccount).toHaveBeenCalledWith(
+        "session",
+        { authKey: "client-key", countryCode: "NL" },
+        { persistSession: false },
+      )
+    })
+
+    it("should use the configured accounts when no credentials are sent", async () => {
+      server = new StreamableHttpServer()
+
+      // @ts-expect-error - private method access
+      await server.handlePostRequest(createRequest(), {} as express.Response)
+
+      expect(PicnicAccount).not.toHaveBeenCalled()
+      expect(runWithPicnicAccount).not.toHaveBeenCalled()
+    })
+
+    it("should reject incomplete credentials", async () => {
+      server = new StreamableHttpServer()
+      const req = createRequest({ "x-picnic-username": "tenant@example.com" })
+
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(req, {} as express.Response)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+      })
+      expect(PicnicAccount).not.toHaveBeenCalled()
+    })
+
+    it("should require credentials when configured to", async () => {
+      server = new StreamableHttpServer({ requireSessionCredentials: true })
+
+      // @ts-expect-error - private method access
+      await expect(
+        server.handlePostRequest(createRequest(), {} as express.Response),
+      ).rejects.toMatchObject({
+        code: ErrorCode.AUTH_REQUIRED,
+        statusCode: 401,
+      })
+      expect(server.getActiveSessions()).toHaveLength(0)
+    })
+
+    it("should not create a session when the Picnic login fails", async () => {
+      vi.mocked(PicnicAccount).mockImplementationOnce(
+        () =>
+          ({
+            initialize: vi.fn().mockRejectedValue(new Error("Login failed: Invalid credentials")),
+            dispose: vi.fn(),
+          }) as any,
+      )
+      server = new StreamableHttpServer()
+
+      await expect(
+        server.createNewSession({
+          username: "tenant@example.com",
+          password: "wrong",
+          countryCode: "NL",
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.AUTH_FAILED })
+      expect(server.getActiveSessions()).toHaveLength(0)
+    })
+
+    const withAuth = (clientId: string, req: express.Request, extra: object = { apiKey: true }) =>
+      Object.assign(req, { auth: { token: clientId, clientId, scopes: [], extra } })
+
+    it("should only let the client that created a session use it", async () => {
+      server = new StreamableHttpServer()
+      const listTools = { jsonrpc: "2.0", id: 2, method: "tools/list" }
+      const sessionHeaders = { "mcp-session-id": "test-session-id" }
+
+      // @ts-expect-error - private method access
+      await server.handlePostRequest(
+        withAuth("api-key-1", createRequest({ "x-picnic-auth-key": "client-key" })),
+        {} as express.Response,
+      )
+
+      const other = withAuth("api-key-2", createRequest(sessionHeaders, listTools))
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(other, {} as express.Response)).rejects.toMatchObject({
+        code: ErrorCode.TRANSPORT_INVALID_SESSION,
+      })
+      const own = withAuth("api-key-1", createRequest(sessionHeaders, listTools))
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(own, {} as express.Response)).resolves.toBeUndefined()
+    })
+
+    it("should only let the user that created a session use it, also on the same client", async () => {
+      server = new StreamableHttpServer()
+      const listTools = { jsonrpc: "2.0", id: 2, method: "tools/list" }
+      const sessionHeaders = { "mcp-session-id": "test-session-id" }
+
+      // @ts-expect-error - private method access
+      await server.handlePostRequest(
+        withAuth("connector", createRequest({ "x-picnic-auth-key": "client-key" }), {
+          username: "alice",
+        }),
+        {} as express.Response,
+      )
+
+      const bob = withAuth("connector", createRequest(sessionHeaders, listTools), {
+        username: "bob",
+      })
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(bob, {} as express.Response)).rejects.toMatchObject({
+        code: ErrorCode.TRANSPORT_INVALID_SESSION,
+      })
+      const alice = withAuth("connector", createRequest(sessionHeaders, listTools), {
+        username: "alice",
+      })
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(alice, {} as express.Response)).resolves.toBeUndefined()
+    })
+
+    it("should refuse access tokens that don't identify a user", async () => {
+      server = new StreamableHttpServer()
+      const req = withAuth("connector", createRequest({ "x-picnic-auth-key": "client-key" }), {
+        subject: undefined,
+      })
+
+      // @ts-expect-error - private method access
+      await expect(server.handlePostRequest(req, {} as express.Response)).rejects.toMatchObject({
+        code: ErrorCode.TRANSPORT_UNAUTHORIZED,
+      })
+      expect(server.getActiveSessions()).toHaveLength(0)
+    })
+
+    it("should dispose the session account on cleanup", async () => {
+      server = new StreamableHttpServer()
+      const transport = await server.createNewSession({ authKey: "client-key", countryCode: "NL" })
+      await transport.handleRequest({} as any, {} as any)
+      const account = vi.mocked(PicnicAccount).mock.results[0].value
+
+      server.cleanupSession("test-session-id")
+
+      expect(account.dispose).toHaveBeenCalled()
+      expect(server.getActiveSessions()).toHaveLength(0)
+    })
+  })
 })
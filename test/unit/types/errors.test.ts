@@ -6,6 +6,7 @@ import {
   ToolError,
   PromptError,
   ResourceError,
+  AuthError,
   ErrorUtils,
 } from "../../../src/types/errors.js"
 
@@ -108,6 +109,10 @@ describe("MCPError", () => {
         { code: ErrorCode.PROMPT_NOT_FOUND, expected: -32601 },
         { code: ErrorCode.TOOL_EXECUTION_FAILED, expected: -32602 },
         { code: ErrorCode.TRANSPORT_TIMEOUT, expected: -32000 },
+        { code: ErrorCode.AUTH_REQUIRED, expected: -32000 },
+        { code: ErrorCode.AUTH_FAILED, expected: -32000 },
+        { code: ErrorCode.AUTH_FORBIDDEN, expected: -32000 },
+        { code: ErrorCode.TRANSPORT_UNAUTHORIZED, expected: -32000 },
         { code: ErrorCode.INTERNAL_ERROR, expected: -32603 },
       ]
 
@@ -125,6 +130,7 @@ describe("TransportError", () => {
       { code: ErrorCode.TRANSPORT_RATE_LIMITED, expectedStatus: 429 },
       { code: ErrorCode.TRANSPORT_INVALID_SESSION, expectedStatus: 400 },
       { code: ErrorCode.TRANSPORT_TIMEOUT, expectedStatus: 408 },
+      { code: ErrorCode.TRANSPORT_UNAUTHORIZED, expectedStatus: 401 },
       { code: ErrorCode.TRANSPORT_CONNECTION_FAILED, expectedStatus: 500 },
     ]
 
@@ -153,6 +159,7 @@ describe("ToolError", () => {
       { code: ErrorCode.TOOL_NOT_FOUND, expectedStatus: 404 },
       { code: ErrorCode.TOOL_VALIDATION_FAILED, expectedStatus: 400 },
       { code: ErrorCode.TOOL_TIMEOUT, expectedStatus: 408 },
+      { code: ErrorCode.BUDGET_EXCEEDED, expectedStatus: 403 },
       { code: ErrorCode.TOOL_EXECUTION_FAILED, expectedStatus: 500 },
     ]
 
@@ -196,6 +203,23 @@ describe("ResourceError", () => {
   })
 })
 
+describe("AuthError", () => {
+  it("should create auth error with correct status codes", () => {
+    const testCases = [
+      { code: ErrorCode.AUTH_REQUIRED, expectedStatus: 401 },
+      { code: ErrorCode.AUTH_FAILED, expectedStatus: 401 },
+      { code: ErrorCode.AUTH_FORBIDDEN, expectedStatus: 403 },
+      { code: ErrorCode.INTERNAL_ERROR, expectedStatus: 500 },
+    ]
+
+    testCases.forEach(({ code, expectedStatus }) => {
+      const error = new AuthError(code, "Test message")
+      expect(error.statusCode).toBe(expectedStatus)
+      expect(error.name).toBe("AuthError")
+    })
+  })
+})
+
 describe("ErrorUtils", () => {
   beforeEach(() => {
     vi.clearAllMocks()
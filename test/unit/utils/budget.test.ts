@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest"
+import {
+  checkBudget,
+  describeOverage,
+  estimateOrderTotal,
+  getSpending,
+  hasBudget,
+  needsDeliveryHistory,
+} from "../../../src/utils/budget.js"
+
+const now = new Date("2026-03-31T12:00:00Z")
+
+const deliveries = [
+  {
+    status: "COMPLETED",
+    orders: [{ checkout_total_price: 5000, creation_time: "2026-03-28T10:00:00Z" }],
+  },
+  {
+    status: "COMPLETED",
+    creation_time: "2026-03-10T10:00:00Z",
+    orders: [{ checkout_total_price: 7000 }],
+  },
+  {
+    status: "CANCELLED",
+    orders: [{ checkout_total_price: 9000, creation_time: "2026-03-30T10:00:00Z" }],
+  },
+  {
+    status: "COMPLETED",
+    orders: [{ checkout_total_price: 4000, creation_time: "2026-01-05T10:00:00Z" }],
+  },
+]
+
+describe("hasBudget", () => {
+  it("should only report a budget when a limit is set", () => {
+    expect(hasBudget({ mode: "warn" })).toBe(false)
+    expect(hasBudget({ perMonth: 0, mode: "warn" })).toBe(true)
+  })
+
+  it("should only need past deliveries for weekly and monthly limits", () => {
+    expect(needsDeliveryHistory({ perOrder: 10000, mode: "warn" })).toBe(false)
+    expect(needsDeliveryHistory({ perWeek: 10000, mode: "warn" })).toBe(true)
+  })
+})
+
+describe("getSpending", () => {
+  it("should sum the orders placed since the given time, ignoring cancelled deliveries", () => {
+    expect(getSpending(deliveries, new Date("2026-03-24T12:00:00Z"))).toBe(5000)
+    expect(getSpending(deliveries, new Date("2026-03-01T12:00:00Z"))).toBe(12000)
+  })
+
+  it("should skip orders without a creation time", () => {
+    expect(getSpending([{ orders: [{ checkout_total_price: 1000 }] }], new Date(0))).toBe(0)
+  })
+})
+
+describe("checkBudget", () => {
+  it("should report the remaining budget for each limit", () => {
+    const status = checkBudget(
+      { perOrder: 15000, perWeek: 20000, perMonth: 30000, mode: "warn" },
+      10000,
+      deliveries,
+      now,
+    )
+
+    expect(status.withinBudget).toBe(true)
+    expect(status.limits).toEqual([
+      { limit: "per_order", budget: 15000, spent: 0, order: 10000, remaining: 5000, overage: 0 },
+      { limit: "per_week", budget: 20000, spent: 5000, order: 10000, remaining: 5000, overage: 0 },
+      {
+        limit: "per_month",
+        budget: 30000,
+        spent: 12000,
+        order: 10000,
+        remaining: 8000,
+        overage: 0,
+      },
+    ])
+  })
+
+  it("should report the overage when the order goes over a limit", () => {
+    const status = checkBudget(
+      { perOrder: 15000, perWeek: 20000, mode: "block" },
+      18240,
+      deliveries,
+      now,
+    )
+
+    expect(status.withinBudget).toBe(false)
+    expect(status.mode).toBe("block")
+    expect(status.limits.map((limit) => limit.overage)).toEqual([3240, 3240])
+    expect(describeOverage(status)).toBe(
+      "€182.40 exceeds the per order budget of €150.00 by €32.40; €232.40 exceeds the per week budget of €200.00 by €32.40",
+    )
+  })
+
+  it("should count a week that is already over budget even for an empty cart", () => {
+    const status = checkBudget({ perWeek: 4000, mode: "warn" }, 0, deliveries, now)
+
+    expect(status.withinBudget).toBe(false)
+    expect(status.limits[0]).toMatchObject({ remaining: -1000, overage: 1000 })
+  })
+})
+
+describe("estimateOrderTotal", () => {
+  const prices = new Map([
+    ["s1", 299],
+    ["s2", 150],
+  ])
+
+  it("should add the prices of added articles and subtract removed ones", () => {
+    const changes = [
+      { productId: "s1", count: 2 },
+      { productId: "s2", count: -1 },
+    ]
+    expect(estimateOrderTotal(1000, changes, (id) => prices.get(id))).toBe(1448)
+  })
+
+  it("should not estimate when a price is unknown", () => {
+    const changes = [{ productId: "s3", count: 1 }]
+    expect(estimateOrderTotal(1000, changes, (id) => prices.get(id))).toBeUndefined()
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest"
+import { buildCalendar, getDeliveryEvents } from "../../../src/utils/calendar"
+
+const now = new Date("2026-06-05T12:00:00Z")
+
+const deliveries = [
+  {
+    delivery_id: "d1",
+    status: "CURRENT",
+    slot: {
+      window_start: "2026-06-06T18:00:00.000+02:00",
+      window_end: "2026-06-06T20:00:00.000+02:00",
+    },
+    eta2: { start: "2026-06-06T18:40:00.000+02:00", end: "2026-06-06T19:00:00.000+02:00" },
+    orders: [{ total_count: 12, checkout_total_price: 8450 }],
+  },
+  {
+    delivery_id: "d2",
+    status: "CANCELLED",
+    slot: {
+      window_start: "2026-06-09T08:00:00.000+02:00",
+      window_end: "2026-06-09T10:00:00.000+02:00",
+    },
+  },
+  {
+    delivery_id: "d0",
+    status: "COMPLETED",
+    slot: {
+      window_start: "2026-05-30T18:00:00.000+02:00",
+      window_end: "2026-05-30T20:00:00.000+02:00",
+    },
+  },
+]
+
+const nextSlot = {
+  slot_id: "s1",
+  window_start: "2026-06-12T17:00:00.000+02:00",
+  window_end: "2026-06-12T19:00:00.000+02:00",
+}
+
+describe("getDeliveryEvents", () => {
+  it("should create events for upcoming deliveries with stable UIDs", () => {
+    const events = getDeliveryEvents(deliveries, undefined, "default", now)
+
+    expect(events).toEqual([
+      {
+        uid: "delivery-d1@mcp-picnic",
+        start: "2026-06-06T18:00:00.000+02:00",
+        end: "2026-06-06T20:00:00.000+02:00",
+        summary: "Picnic delivery",
+        description: "Expected between 18:40 and 19:00\n12 items, €84.50\nDelivery d1",
+        status: "CONFIRMED",
+      },
+      expect.objectContaining({ uid: "delivery-d2@mcp-picnic", status: "CANCELLED" }),
+    ])
+  })
+
+  it("should add the selected slot as a tentative event and cancel it once ordered", () => {
+    const events = getDeliveryEvents(deliveries, nextSlot, "default", now)
+    expect(events.at(-1)).toMatchObject({
+      uid: "selected-slot-default@mcp-picnic",
+      start: nextSlot.window_start,
+      status: "TENTATIVE",
+    })
+
+    const ordered = getDeliveryEvents(deliveries, { ...deliveries[0].slot }, "default", now)
+    expect(ordered).toHaveLength(3)
+    expect(ordered.at(-1)).toMatchObject({
+      uid: "selected-slot-default@mcp-picnic",
+      start: deliveries[0].slot.window_start,
+      status: "CANCELLED",
+    })
+  })
+})
+
+describe("buildCalendar", () => {
+  it("should render events in UTC with escaped text and CRLF line endings", () => {
+    const calendar = buildCalendar(
+      [
+        {
+          uid: "delivery-d1@mcp-picnic",
+          start: "2026-06-06T18:00:00.000+02:00",
+          end: "2026-06-06T20:00:00.000+02:00",
+          summary: "Picnic delivery",
+          description: "12 items, €84.50\nDelivery d1; leave at door",
+          status: "CONFIRMED",
+        },
+      ],
+      now,
+    )
+
+    const lines = calendar.split("\r\n")
+    expect(lines[0]).toBe("BEGIN:VCALENDAR")
+    expect(lines).toContain("UID:delivery-d1@mcp-picnic")
+    expect(lines).toContain("DTSTAMP:20260605T120000Z")
+    expect(lines).toContain("DTSTART:20260606T160000Z")
+    expect(lines).toContain("DTEND:20260606T180000Z")
+    expect(lines).toContain("DESCRIPTION:12 items\\, €84.50\\nDelivery d1\\; leave at door")
+    expect(lines).toContain("STATUS:CONFIRMED")
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true)
+  })
+
+  it("should fold lines longer than 75 octets", () => {
+    const calendar = buildCalendar(
+      [
+        {
+          uid: "u1",
+          start: "2026-06-06T18:00:00.000+02:00",
+          end: "2026-06-06T20:00:00.000+02:00",
+          summary: "x".repeat(200),
+          status: "TENTATIVE",
+        },
+      ],
+      now,
+    )
+
+    const lines = calendar.split("\r\n")
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true)
+    expect(calendar.replace(/\r\n /g, "")).toContain(`SUMMARY:${"x".repeat(200)}`)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest"
+import { filterCartData } from "../../../src/utils/cart-data.js"
+
+const cart = {
+  type: "ORDER",
+  items: [
+    {
+      type: "ORDER_LINE",
+      id: "line-1",
+      price: 598,
+      display_price: 449,
+      decorators: [{ type: "LABEL", text: "2e halve prijs" }],
+      items: [
+        {
+          type: "ORDER_ARTICLE",
+          id: "s1",
+          name: "Halfvolle melk",
+          price: 299,
+          unit_quantity: "1 liter",
+          image_ids: ["img-1"],
+          decorators: [
+            { type: "QUANTITY", quantity: 2 },
+            { type: "BASE_PRICE", base_price_text: "€2.99/l" },
+          ],
+        },
+      ],
+    },
+    {
+      type: "ORDER_LINE",
+      id: "line-2",
+      price: 199,
+      display_price: 199,
+      items: [
+        {
+          type: "ORDER_ARTICLE",
+          id: "s2",
+          name: "Aardbeien",
+          price: 199,
+          unit_quantity: "400 g",
+          image_ids: [],
+          decorators: [
+            {
+              type: "UNAVAILABLE",
+              reason: "OUT_OF_STOCK",
+              explanation: { short_explanation: "Tijdelijk uitverkocht" },
+              replacements: [
+                { id: "s3", name: "Frambozen", display_price: 249, unit_quantity: "125 g" },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  total_count: 3,
+  total_price: 648,
+  checkout_total_price: 843,
+  total_savings: 149,
+  total_deposit: 25,
+  deposit_breakdown: [{ type: "DEFAULT", value: 25, count: 1 }],
+}
+
+describe("filterCartData", () => {
+  it("should include quantities, line prices, promotions and a price breakdown", () => {
+    const data = filterCartData(cart)
+
+    expect(data.items[0]).toEqual({
+      id: "s1",
+      name: "Halfvolle melk",
+      quantity: 2,
+      price: 299,
+      line_price: 449,
+      line_discount: 149,
+      promotions: ["2e halve prijs"],
+      unit: "1 liter",
+      price_per_liter: 299,
+      image_id: "img-1",
+    })
+    expect(data.items[1].unavailable).toEqual({ reason: "OUT_OF_STOCK" })
+    expect(data).toMatchObject({
+      unavailable_count: 1,
+      total_deposit: 25,
+      breakdown: {
+        products: 648,
+        deposits: 25,
+        fees_and_other: 170,
+        savings: 149,
+        checkout_total: 843,
+      },
+    })
+    expect(data.deposits).toBeUndefined()
+  })
+
+  it("should only keep names, quantities and totals in the summary", () => {
+    const data = filterCartData(cart, "summary")
+
+    expect(data).toEqual({
+      items: [
+        { id: "s1", name: "Halfvolle melk", quantity: 2 },
+        { id: "s2", name: "Aardbeien", quantity: 1, unavailable: { reason: "OUT_OF_STOCK" } },
+      ],
+      total_count: 3,
+      total_price: 648,
+      checkout_total_price: 843,
+      unavailable_count: 1,
+    })
+  })
+
+  it("should add replacements, base prices and deposits in full detail", () => {
+    const data = filterCartData(cart, "full")
+
+    expect(data.items[0].base_price).toBe("€2.99/l")
+    expect(data.items[1].unavailable).toEqual({
+      reason: "OUT_OF_STOCK",
+      explanation: "Tijdelijk uitverkocht",
+      replacements: [{ id: "s3", name: "Frambozen", price: 249, unit: "125 g" }],
+    })
+    expect(data.deposits).toEqual([{ type: "DEFAULT", value: 25, count: 1 }])
+  })
+
+  it("should mark articles that share an order line", () => {
+    const bundle = {
+      items: [{ id: "line-1", display_price: 500, items: [{ id: "s1" }, { id: "s2" }] }],
+    }
+
+    expect(filterCartData(bundle).items).toMatchObject([
+      { id: "s1", quantity: 1, line_price: 500, line_id: "line-1" },
+      { id: "s2", quantity: 1, line_price: 500, line_id: "line-1" },
+    ])
+  })
+
+  it("should return an empty cart for missing data", () => {
+    expect(filterCartData(null).items).toEqual([])
+  })
+})
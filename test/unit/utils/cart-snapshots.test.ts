@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { CartSnapshotStore, diffCartItems } from "../../../src/utils/cart-snapshots"
+
+describe("CartSnapshotStore", () => {
+  let tempDir: string
+  let filePath: string
+  let store: CartSnapshotStore
+
+  const snapshot = {
+    name: "bbq",
+    savedAt: "2026-06-01T10:00:00.000Z",
+    items: [{ productId: "s1", name: "Hamburgers", quantity: 2, price: 399 }],
+    totalPrice: 798,
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picnic-snapshots-"))
+    filePath = path.join(tempDir, "nested", "cart-snapshots.json")
+    store = new CartSnapshotStore(filePath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it("should persist snapshots per user", async () => {
+    await store.save("user-1", snapshot)
+
+    expect(await store.load("user-1", "bbq")).toEqual(snapshot)
+    expect(await store.load("user-2", "bbq")).toBeNull()
+    expect(await new CartSnapshotStore(filePath).list("user-1")).toEqual([snapshot])
+  })
+
+  it("should list snapshots newest first and replace snapshots with the same name", async () => {
+    await store.save("user-1", snapshot)
+    await store.save("user-1", { ...snapshot, name: "week", savedAt: "2026-06-02T10:00:00.000Z" })
+    await store.save("user-1", { ...snapshot, totalPrice: 399 })
+
+    const snapshots = await store.list("user-1")
+    expect(snapshots.map((saved) => saved.name)).toEqual(["week", "bbq"])
+    expect(snapshots[1].totalPrice).toBe(399)
+  })
+
+  it("should write the file readable only by the current user", async () => {
+    await store.save("user-1", snapshot)
+
+    const stats = await fs.stat(filePath)
+    expect(stats.mode & 0o777).toBe(0o600)
+  })
+
+  it("should treat a corrupt file as empty", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, "not json")
+
+    expect(await store.list("user-1")).toEqual([])
+    consoleSpy.mockRestore()
+  })
+})
+
+describe("diffCartItems", () => {
+  it("should report added, removed and changed products and price changes", () => {
+    const diff = diffCartItems(
+      [
+        { productId: "s1", name: "Hamburgers", quantity: 2, price: 399 },
+        { productId: "s2", name: "Buns", quantity: 1, price: 149 },
+        { productId: "s3", name: "Ketchup", quantity: 1, price: 219 },
+      ],
+      [
+        { productId: "s1", name: "Hamburgers", quantity: 4, price: 399 },
+        { productId: "s3", name: "Ketchup", quantity: 1, price: 199 },
+        { productId: "s4", name: "Charcoal", quantity: 1, price: 599 },
+      ],
+    )
+
+    expect(diff).toEqual({
+      added: [{ productId: "s4", name: "Charcoal", quantity: 1, price: 599 }],
+      removed: [{ productId: "s2", name: "Buns", quantity: 1, price: 149 }],
+      changed: [{ productId: "s1", name: "Hamburgers", fromQuantity: 2, toQuantity: 4 }],
+      priceChanges: [{ productId: "s3", name: "Ketchup", fromPrice: 219, toPrice: 199 }],
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest"
+import { getCartQuantities, planCartUpdate } from "../../../src/utils/cart-updates.js"
+
+describe("getCartQuantities", () => {
+  it("should read quantities from the order lines of a cart", () => {
+    const cart = {
+      items: [
+        { items: [{ id: "s1", decorators: [{ type: "QUANTITY", quantity: 3 }] }] },
+        { items: [{ id: "s2", decorators: [{ type: "UNIT_QUANTITY" }] }, { id: "s2" }] },
+      ],
+    }
+
+    expect(getCartQuantities(cart)).toEqual(
+      new Map([
+        ["s1", 3],
+        ["s2", 2],
+      ]),
+    )
+  })
+
+  it("should handle an empty cart", () => {
+    expect(getCartQuantities({ items: [] }).size).toBe(0)
+    expect(getCartQuantities(null).size).toBe(0)
+  })
+})
+
+describe("planCartUpdate", () => {
+  const current = new Map([
+    ["s1", 3],
+    ["s2", 1],
+  ])
+
+  it("should plan the additions and removals to reach the targets", () => {
+    const operations = planCartUpdate(current, [
+      { productId: "s1", quantity: 1 },
+      { productId: "s2", quantity: 1 },
+      { productId: "s3", quantity: 2 },
+    ])
+
+    expect(operations).toEqual([
+      { productId: "s1", action: "remove", count: 2 },
+      { productId: "s3", action: "add", count: 2 },
+    ])
+  })
+
+  it("should use the last target of products listed twice", () => {
+    const operations = planCartUpdate(current, [
+      { productId: "s2", quantity: 4 },
+      { productId: "s2", quantity: 0 },
+    ])
+
+    expect(operations).toEqual([{ productId: "s2", action: "remove", count: 1 }])
+  })
+})
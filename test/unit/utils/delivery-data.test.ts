@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest"
+import { filterDeliveryData } from "../../../src/utils/delivery-data"
+
+const line = (id: string, name: string, quantity: number, price: number, unavailable = false) => ({
+  type: "ORDER_LINE",
+  id: `line-${id}`,
+  display_price: price * quantity,
+  items: [
+    {
+      type: "ORDER_ARTICLE",
+      id,
+      name,
+      price,
+      decorators: [
+        { type: "QUANTITY", quantity },
+        ...(unavailable ? [{ type: "UNAVAILABLE", reason: "OUT_OF_STOCK" }] : []),
+      ],
+    },
+  ],
+})
+
+const delivery = {
+  delivery_id: "d1",
+  status: "COMPLETED",
+  creation_time: "2026-06-01T10:12:00.000+02:00",
+  slot: {
+    window_start: "2026-06-06T18:00:00.000+02:00",
+    window_end: "2026-06-06T20:00:00.000+02:00",
+  },
+  eta2: { start: "2026-06-06T18:40:00.000+02:00", end: "2026-06-06T19:00:00.000+02:00" },
+  delivery_time: { start: "2026-06-06T18:45:00.000+02:00", end: "2026-06-06T18:50:00.000+02:00" },
+  orders: [
+    {
+      total_count: 9,
+      checkout_total_price: 4210,
+      items: [
+        line("s1", "Milk", 2, 119),
+        line("s2", "Coffee", 1, 899),
+        line("s3", "Cheese", 1, 549),
+        line("s4", "Bread", 1, 249),
+        line("s5", "Apples", 2, 199),
+        line("s6", "Wine", 1, 799),
+        line("s7", "Yoghurt", 1, 149, true),
+      ],
+    },
+    { total_count: 1, checkout_total_price: 199, items: [line("s8", "Basil", 1, 199)] },
+  ],
+  returned_containers: [
+    { type: "BAG", localized_name: "Bags", quantity: 3, price: -30 },
+    { type: "BOTTLE", localized_name: "Bottles", quantity: 0, price: 0 },
+  ],
+}
+
+describe("filterDeliveryData", () => {
+  it("should keep only the status, window and totals in the summary", () => {
+    expect(filterDeliveryData(delivery, "summary")).toEqual({
+      delivery_id: "d1",
+      status: "COMPLETED",
+      window: { start: "2026-06-06 18:00", end: "2026-06-06 20:00" },
+      eta: { start: "2026-06-06 18:40", end: "2026-06-06 19:00" },
+      delivered_at: "2026-06-06 18:45",
+      created_at: "2026-06-01 10:12",
+      total_price: 4409,
+      item_count: 10,
+      order_count: 2,
+    })
+  })
+
+  it("should add the top articles, missing articles and returned containers", () => {
+    const data = filterDeliveryData(delivery, "standard")
+
+    expect(data.top_articles?.map((article) => article.name)).toEqual([
+      "Coffee",
+      "Wine",
+      "Cheese",
+      "Apples",
+      "Bread",
+    ])
+    expect(data.top_articles?.[0]).toEqual({
+      id: "s2",
+      name: "Coffee",
+      quantity: 1,
+      line_price: 899,
+    })
+    expect(data.missing_items).toEqual([
+      { id: "s7", name: "Yoghurt", quantity: 1, reason: "OUT_OF_STOCK" },
+    ])
+    expect(data.returned_items).toEqual([{ type: "BAG", name: "Bags", quantity: 3, price: -30 }])
+    expect(data.articles).toBeUndefined()
+  })
+
+  it("should add all articles of all orders in full detail", () => {
+    const data = filterDeliveryData(delivery, "full")
+
+    expect(data.articles).toHaveLength(8)
+    expect(data.articles?.at(-1)).toMatchObject({ id: "s8", name: "Basil", price: 199 })
+  })
+
+  it("should leave out totals and articles the delivery doesn't carry", () => {
+    const data = filterDeliveryData({ delivery_id: "d2", status: "CURRENT" }, "full")
+
+    expect(data).toEqual({
+      delivery_id: "d2",
+      status: "CURRENT",
+      window: {},
+      order_count: 0,
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { DeliveryTracker, buildDeliveryTracking } from "../../../src/utils/delivery-tracking"
+
+const delivery = {
+  status: "CURRENT",
+  slot: {
+    window_start: "2026-06-06T18:00:00.000+02:00",
+    window_end: "2026-06-06T20:00:00.000+02:00",
+  },
+  eta2: { start: "2026-06-06T18:40:00.000+02:00", end: "2026-06-06T19:00:00.000+02:00" },
+}
+
+const scenario = {
+  scenario: [
+    { ts: "2026-06-06T18:10:00.000+02:00", lat: "52.10", lng: "4.30" },
+    { ts: "2026-06-06T18:20:00.000+02:00", lat: "52.11", lng: "4.31" },
+    { ts: "2026-06-06T18:30:00.000+02:00", lat: "52.12", lng: "4.32" },
+  ],
+}
+
+describe("buildDeliveryTracking", () => {
+  it("should merge the delivery, route and driver position", () => {
+    const tracking = buildDeliveryTracking("d1", delivery, scenario, {
+      scenario_ts: "2026-06-06T18:25:00.000+02:00",
+    })
+
+    expect(tracking).toEqual({
+      delivery_id: "d1",
+      status: "CURRENT",
+      window: { start: "2026-06-06 18:00", end: "2026-06-06 20:00" },
+      eta: { start: "2026-06-06 18:40", end: "2026-06-06 19:00" },
+      driver: {
+        lat: 52.11,
+        lng: 4.31,
+        at: "2026-06-06 18:20",
+        route_points_passed: 2,
+        route_points: 3,
+      },
+    })
+  })
+
+  it("should leave out the driver before departure and after delivery", () => {
+    expect(buildDeliveryTracking("d1", delivery).driver).toBeUndefined()
+
+    const completed = buildDeliveryTracking(
+      "d1",
+      {
+        ...delivery,
+        status: "COMPLETED",
+        delivery_time: { start: "2026-06-06T18:45:00.000+02:00" },
+      },
+      scenario,
+      { scenario_ts: "2026-06-06T18:45:00.000+02:00" },
+    )
+    expect(completed.driver).toBeUndefined()
+    expect(completed.delivered_at).toBe("2026-06-06 18:45")
+  })
+})
+
+describe("DeliveryTracker", () => {
+  const getDelivery = vi.fn()
+  const getDeliveryScenario = vi.fn()
+  const getDeliveryPosition = vi.fn()
+  let tracker: DeliveryTracker
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    getDelivery.mockReset().mockResolvedValue(delivery)
+    getDeliveryScenario.mockReset().mockResolvedValue(scenario)
+    getDeliveryPosition
+      .mockReset()
+      .mockResolvedValue({ scenario_ts: "2026-06-06T18:15:00.000+02:00" })
+    tracker = new DeliveryTracker(
+      async () => ({ getDelivery, getDeliveryScenario, getDeliveryPosition }),
+      30_000,
+    )
+  })
+
+  afterEach(() => {
+    tracker.stopAll()
+    vi.useRealTimers()
+  })
+
+  it("should treat a missing route or position as not on its way yet", async () => {
+    getDeliveryPosition.mockRejectedValue(new Error("404 Not Found"))
+
+    const tracking = await tracker.getTracking("d1")
+
+    expect(tracking.status).toBe("CURRENT")
+    expect(tracking.driver).toBeUndefined()
+  })
+
+  it("should notify subscribers when the driver moves", async () => {
+    const onUpdate = vi.fn()
+    tracker.subscribe("d1", onUpdate)
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(onUpdate).not.toHaveBeenCalled()
+
+    getDeliveryPosition.mockResolvedValue({ scenario_ts: "2026-06-06T18:25:00.000+02:00" })
+    await vi.advanceTimersByTimeAsync(30_000)
+
+    expect(onUpdate).toHaveBeenCalledTimes(1)
+  })
+
+  it("should only poll while there are subscribers", async () => {
+    const unsubscribeFirst = tracker.subscribe("d1", vi.fn())
+    const unsubscribeSecond = tracker.subscribe("d1", vi.fn())
+    await vi.advanceTimersByTimeAsync(0)
+    expect(getDelivery).toHaveBeenCalledTimes(1)
+
+    unsubscribeFirst()
+    expect(tracker.size).toBe(1)
+    unsubscribeSecond()
+    expect(tracker.size).toBe(0)
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(getDelivery).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js"
+import {
+  createAuthMiddleware,
+  getAuthIdentity,
+  parseApiKeys,
+  hasWriteAccess,
+  READ_SCOPE,
+  WRITE_SCOPE,
+} from "../../../src/utils/http-auth.js"
+import { ErrorCode } from "../../../src/types/errors.js"
+
+describe("parseApiKeys", () => {
+  it("should parse comma separated keys with optional read-only suffix", () => {
+    expect(parseApiKeys("full-key, read-key:readonly,,")).toEqual([
+      { key: "full-key", name: "api-key-1", readOnly: false },
+      { key: "read-key", name: "api-key-2", readOnly: true },
+    ])
+  })
+})
+
+describe("hasWriteAccess", () => {
+  it("should allow everything when there is no auth info", () => {
+    expect(hasWriteAccess(undefined)).toBe(true)
+  })
+
+  it("should require the write scope when auth info is present", () => {
+    const authInfo = { token: "key", clientId: "api-key-1", scopes: [READ_SCOPE] }
+    expect(hasWriteAccess(authInfo)).toBe(false)
+    expect(hasWriteAccess({ ...authInfo, scopes: [READ_SCOPE, WRITE_SCOPE] })).toBe(true)
+  })
+})
+
+describe("getAuthIdentity", () => {
+  const token = { token: "token", clientId: "connector", scopes: [READ_SCOPE] }
+
+  it("should tell users of the same OAuth client apart", () => {
+    const alice = getAuthIdentity({ ...token, extra: { username: "alice" } })
+    const bob = getAuthIdentity({ ...token, extra: { subject: "bob" } })
+
+    expect(alice).toBeDefined()
+    expect(bob).toBeDefined()
+    expect(alice).not.toBe(bob)
+  })
+
+  it("should identify API keys by their name", () => {
+    expect(getAuthIdentity({ ...token, clientId: "api-key-1", extra: { apiKey: true } })).toBe(
+      getAuthIdentity({ ...token, token: "other", clientId: "api-key-1", extra: { apiKey: true } }),
+    )
+    expect(getAuthIdentity({ ...token, clientId: "connector", extra: { apiKey: true } })).not.toBe(
+      getAuthIdentity({ ...token, extra: { username: "connector" } }),
+    )
+  })
+
+  it("should not identify access tokens without a user", () => {
+    expect(getAuthIdentity(token)).toBeUndefined()
+    expect(getAuthIdentity({ ...token, extra: { subject: undefined } })).toBeUndefined()
+  })
+})
+
+describe("createAuthMiddleware", () => {
+  const middleware = createAuthMiddleware({
+    apiKeys: [
+      { key: "full-key", name: "api-key-1" },
+      { key: "read-key", name: "api-key-2", readOnly: true },
+    ],
+  })
+
+  let mockRes: any
+  let mockNext: any
+
+  function createRequest(headers: Record<string, string>): any {
+    return { header: (name: string) => headers[name.toLowerCase()] }
+  }
+
+  beforeEach(() => {
+    mockRes = {
+      set: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    }
+    mockNext = vi.fn()
+  })
+
+  it("should accept a bearer token and grant full access", () => {
+    const req = createRequest({ authorization: "Bearer full-key" })
+
+    middleware(req, mockRes, mockNext)
+
+    expect(mockNext).toHaveBeenCalled()
+    expect(req.auth).toEqual({
+      token: "full-key",
+      clientId: "api-key-1",
+      scopes: [READ_SCOPE, WRITE_SCOPE],
+      extra: { apiKey: true },
+    })
+  })
+
+  it("should accept an X-API-Key header and limit read-only keys", () => {
+    const req = createRequest({ "x-api-key": "read-key" })
+
+    middleware(req, mockRes, mockNext)
+
+    expect(mockNext).toHaveBeenCalled()
+    expect(req.auth.scopes).toEqual([READ_SCOPE])
+  })
+
+  it("should reject requests without an API key", () => {
+    middleware(createRequest({}), mockRes, mockNext)
+
+    expect(mockNext).not.toHaveBeenCalled()
+    expect(mockRes.set).toHaveBeenCalledWith("WWW-Authenticate", 'Bearer realm="mcp-picnic"')
+    expect(mockRes.status).toHaveBeenCalledWith(401)
+    expect(mockRes.json).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      error: expect.objectContaining({
+        code: -32000,
+        message: "Missing API key",
+        data: expect.objectContaining({ errorCode: ErrorCode.TRANSPORT_UNAUTHORIZED }),
+      }),
+      id: null,
+    })
+  })
+
+  it("should reject unknown keys and other authorization schemes", () => {
+    middleware(createRequest({ authorization: "Bearer wrong-key" }), mockRes, mockNext)
+    middleware(createRequest({ authorization: "Basic full-key" }), mockRes, mockNext)
+
+    expect(mockNext).not.toHaveBeenCalled()
+    expect(mockRes.status).toHaveBeenCalledTimes(2)
+    expect(mockRes.json.mock.calls[0][0].error.message).toBe("Invalid API key")
+  })
+
+  describe("with a token verifier", () => {
+    const verifyAccessToken = vi.fn()
+    const oauthMiddleware = createAuthMiddleware({
+      apiKeys: [{ key: "full-key", name: "api-key-1" }],
+      tokenVerifier: { verifyAccessToken },
+      resourceMetadataUrl: "https://picnic.example.com/.well-known/oauth-protected-resource",
+    })
+
+    beforeEach(() => {
+      verifyAccessToken.mockReset()
+    })
+
+    it("should accept access tokens from the verifier", async () => {
+      const authInfo = { token: "oauth-token", clientId: "client-1", scopes: [READ_SCOPE] }
+      verifyAccessToken.mockResolvedValue(authInfo)
+      const req = createRequest({ authorization: "Bearer oauth-token" })
+
+      await oauthMiddleware(req, mockRes, mockNext)
+
+      expect(verifyAccessToken).toHaveBeenCalledWith("oauth-token")
+      expect(mockNext).toHaveBeenCalled()
+      expect(req.auth).toEqual(authInfo)
+    })
+
+    it("should still accept API keys without asking the verifier", async () => {
+      await oauthMiddleware(createRequest({ "x-api-key": "full-key" }), mockRes, mockNext)
+
+      expect(verifyAccessToken).not.toHaveBeenCalled()
+      expect(mockNext).toHaveBeenCalled()
+    })
+
+    it("should point OAuth clients at the resource metadata for invalid tokens", async () => {
+      verifyAccessToken.mockRejectedValue(new InvalidTokenError("Unknown access token"))
+
+      await oauthMiddleware(createRequest({ authorization: "Bearer bad" }), mockRes, mockNext)
+
+      expect(mockNext).not.toHaveBeenCalled()
+      expect(mockRes.set).toHaveBeenCalledWith(
+        "WWW-Authenticate",
+        'Bearer realm="mcp-picnic", resource_metadata="https://picnic.example.com/.well-known/oauth-protected-resource"',
+      )
+      expect(mockRes.json.mock.calls[0][0].error.message).toBe("Unknown access token")
+    })
+
+    it("should reject expired tokens", async () => {
+      verifyAccessToken.mockResolvedValue({
+        token: "oauth-token",
+        clientId: "client-1",
+        scopes: [READ_SCOPE],
+        expiresAt: Math.floor(Date.now() / 1000) - 60,
+      })
+
+      await oauthMiddleware(
+        createRequest({ authorization: "Bearer oauth-token" }),
+        mockRes,
+        mockNext,
+      )
+
+      expect(mockNext).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(401)
+      expect(mockRes.json.mock.calls[0][0].error.message).toBe("Access token has expired")
+    })
+
+    it("should answer with a server error when verification fails unexpectedly", async () => {
+      verifyAccessToken.mockRejectedValue(new Error("connect ECONNREFUSED"))
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+
+      await oauthMiddleware(
+        createRequest({ authorization: "Bearer oauth-token" }),
+        mockRes,
+        mockNext,
+      )
+
+      expect(mockNext).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(500)
+      expect(mockRes.json.mock.calls[0][0].error.message).toBe("Could not verify access token")
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { detectImageMimeType, fetchProductImage } from "../../../src/utils/images.js"
+import { ToolError } from "../../../src/types/errors.js"
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00])
+
+describe("detectImageMimeType", () => {
+  it("should detect common image formats from their leading bytes", () => {
+    expect(detectImageMimeType(PNG)).toBe("image/png")
+    expect(detectImageMimeType(JPEG)).toBe("image/jpeg")
+    expect(detectImageMimeType(Buffer.from("GIF89a"))).toBe("image/gif")
+    expect(detectImageMimeType(Buffer.from("RIFF\x00\x00\x00\x00WEBPVP8 "))).toBe("image/webp")
+  })
+
+  it("should prefer the actual bytes over the declared content type", () => {
+    expect(detectImageMimeType(JPEG, "image/png")).toBe("image/jpeg")
+  })
+
+  it("should fall back to an image content type and reject anything else", () => {
+    expect(detectImageMimeType(Buffer.from("<svg"), "image/svg+xml; charset=utf-8")).toBe(
+      "image/svg+xml",
+    )
+    expect(detectImageMimeType(Buffer.from("{}"), "application/json")).toBeUndefined()
+    expect(detectImageMimeType(Buffer.from("{}"))).toBeUndefined()
+  })
+})
+
+describe("fetchProductImage", () => {
+  const apiUrl = "https://storefront-prod.nl.picnicinternational.com/api/15"
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function stubFetch(body: Buffer, init: { status?: number; contentType?: string } = {}) {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(body, {
+        status: init.status ?? 200,
+        headers: init.contentType ? { "content-type": init.contentType } : {},
+      }),
+    )
+    vi.stubGlobal("fetch", fetchMock)
+    return fetchMock
+  }
+
+  it("should fetch the image from the static image server as base64", async () => {
+    const fetchMock = stubFetch(JPEG, { contentType: "image/png" })
+
+    const image = await fetchProductImage(apiUrl, "abc123", "tiny")
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://storefront-prod.nl.picnicinternational.com/static/images/abc123/tiny.png",
+    )
+    expect(image).toEqual({ data: JPEG.toString("base64"), mimeType: "image/jpeg" })
+  })
+
+  it("should fail for error responses and non-image content", async () => {
+    stubFetch(Buffer.from("not found"), { status: 404 })
+    await expect(fetchProductImage(apiUrl, "missing", "small")).rejects.toThrow(ToolError)
+
+    stubFetch(Buffer.from("<html>"), { contentType: "text/html" })
+    await expect(fetchProductImage(apiUrl, "abc123", "small")).rejects.toThrow(
+      "Picnic did not return an image for 'abc123'",
+    )
+  })
+})
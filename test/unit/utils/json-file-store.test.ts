@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { JsonFileStore, parseUsersFile } from "../../../src/utils/json-file-store"
+
+describe("JsonFileStore", () => {
+  let tempDir: string
+  let filePath: string
+  const createStore = () =>
+    new JsonFileStore<{ users: Record<string, number> }>(filePath, "test", parseUsersFile, () => ({
+      users: {},
+    }))
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picnic-json-store-"))
+    filePath = path.join(tempDir, "nested", "store.json")
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it("should keep every change of overlapping updates, also across store instances", async () => {
+    const stores = [createStore(), createStore()]
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        stores[index % 2].update((content) => {
+          content.users[`user-${index}`] = index
+        }),
+      ),
+    )
+
+    expect(Object.keys((await createStore().read()).users)).toHaveLength(10)
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(["store.json"])
+  })
+
+  it("should not write when the change returns false", async () => {
+    await createStore().update(() => false)
+
+    await expect(fs.access(filePath)).rejects.toThrow()
+  })
+
+  it("should keep running updates after one fails", async () => {
+    const store = createStore()
+    const failed = store.update(() => {
+      throw new Error("Invalid change")
+    })
+    const next = store.update((content) => {
+      content.users.one = 1
+    })
+
+    await expect(failed).rejects.toThrow("Invalid change")
+    await next
+    expect((await store.read()).users).toEqual({ one: 1 })
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest"
+import { LruMap } from "../../../src/utils/lru-map"
+
+describe("LruMap", () => {
+  it("should move entries that are set again to the end", () => {
+    const map = new LruMap<string, number>()
+    map.set("a", 1).set("b", 2).set("c", 3)
+    map.set("a", 4)
+
+    expect([...map.entries()]).toEqual([
+      ["b", 2],
+      ["c", 3],
+      ["a", 4],
+    ])
+  })
+
+  it("should drop the least recently set entries beyond the maximum size", () => {
+    const map = new LruMap<string, number>()
+    map.set("a", 1).set("b", 2).set("c", 3)
+    map.set("a", 1)
+
+    expect(map.trim(1)).toBe(2)
+    expect([...map.keys()]).toEqual(["a"])
+    expect(map.trim(1)).toBe(0)
+  })
+})
@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import {
+  InvalidGrantError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js"
+import {
+  LocalOAuthProvider,
+  IntrospectionTokenVerifier,
+  parseOAuthUsers,
+  createOAuthRouter,
+} from "../../../src/utils/oauth.js"
+import { READ_SCOPE, WRITE_SCOPE } from "../../../src/utils/http-auth.js"
+import { ErrorCode } from "../../../src/types/errors.js"
+
+const client = {
+  client_id: "client-1",
+  client_name: "Test <Client>",
+  redirect_uris: ["https://client.example.com/callback"],
+}
+
+function createResponse() {
+  const res: any = {
+    setHeader: vi.fn(),
+    status: vi.fn(() => res),
+    type: vi.fn(() => res),
+    send: vi.fn(() => res),
+    redirect: vi.fn(),
+  }
+  return res
+}
+
+describe("parseOAuthUsers", () => {
+  it("should parse users with optional read-only suffix", () => {
+    expect(parseOAuthUsers("alice:se:cret, bob:secret:readonly")).toEqual([
+      { username: "alice", password: "se:cret", readOnly: false },
+      { username: "bob", password: "secret", readOnly: true },
+    ])
+  })
+
+  it("should reject entries without a password", () => {
+    expect(() => parseOAuthUsers("alice")).toThrow(
+      expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }),
+    )
+  })
+})
+
+describe("LocalOAuthProvider", () => {
+  let provider: LocalOAuthProvider
+
+  beforeEach(() => {
+    provider = new LocalOAuthProvider({
+      users: [
+        { username: "alice", password: "secret" },
+        { username: "bob", password: "secret", readOnly: true },
+      ],
+    })
+    provider.clientsStore.registerClient(client)
+  })
+
+  afterEach(() => {
+    provider.destroy()
+  })
+
+  /**
+   * Start an authorization, submit the consent form and return the redirect URL
+   */
+  async function authorizeAndConsent(
+    body: Record<string, string>,
+    scopes?: string[],
+  ): Promise<{ res: any; redirect?: URL }> {
+    const authorizeRes = createResponse()
+    await provider.authorize(
+      client,
+      {
+        state: "state-1",
+        scopes,
+        codeChallenge: "challenge-1",
+        redirectUri: client.redirect_uris[0],
+      },
+      authorizeRes,
+    )
+    const page: string = authorizeRes.send.mock.calls[0][0]
+    const requestId = page.match(/name="request_id" value="([^"]+)"/)![1]
+
+    const res = createResponse()
+    provider["handleConsent"]({ body: { request_id: requestId, ...body } } as any, res)
+    const location = res.redirect.mock.calls[0]?.[1]
+    return { res, redirect: location ? new URL(location) : undefined }
+  }
+
+  it("should render an escaped consent page", async () => {
+    const res = createResponse()
+    await provider.authorize(
+      client,
+      { codeChallenge: "challenge", redirectUri: client.redirect_uris[0] },
+      res,
+    )
+
+    const page: string = res.send.mock.calls[0][0]
+    expect(page).toContain("Test &lt;Client&gt;")
+    expect(page).not.toContain("Test <Client>")
+    expect(page).not.toContain("challenge")
+  })
+
+  it("should issue tokens for an approved authorization", async () => {
+    const { redirect } = await authorizeAndConsent({
+      username: "alice",
+      password: "secret",
+      action: "approve",
+    })
+
+    expect(redirect?.searchParams.get("state")).toBe("state-1")
+    const code = redirect!.searchParams.get("code")!
+    expect(await provider.challengeForAuthorizationCode(client, code)).toBe("challenge-1")
+
+    const tokens = await provider.exchangeAuthorizationCode(
+      client,
+      code,
+      "verifier",
+      client.redirect_uris[0],
+    )
+    expect(tokens).toMatchObject({ token_type: "Bearer", scope: `${READ_SCOPE} ${WRITE_SCOPE}` })
+
+    const authInfo = await provider.verifyAccessToken(tokens.access_token)
+    expect(authInfo).toMatchObject({
+      clientId: "client-1",
+      scopes: [READ_SCOPE, WRITE_SCOPE],
+      extra: { username: "alice" },
+    })
+  })
+
+  it("should only allow each authorization code to be used once", async () => {
+    const { redirect } = await authorizeAndConsent({
+      username: "alice",
+      password: "secret",
+      action: "approve",
+    })
+    const code = redirect!.searchParams.get("code")!
+
+    await provider.exchangeAuthorizationCode(client, code)
+    await expect(provider.exchangeAuthorizationCode(client, code)).rejects.toThrow(
+      InvalidGrantError,
+    )
+  })
+
+  it("should limit read-only users to the read scope", async () => {
+    const { redirect } = await authorizeAndConsent(
+      { username: "bob", password: "secret", action: "approve" },
+      [READ_SCOPE, WRITE_SCOPE],
+    )
+
+    const tokens = await provider.exchangeAuthorizationCode(
+      client,
+      redirect!.searchParams.get("code")!,
+    )
+    expect(tokens.scope).toBe(READ_SCOPE)
+  })
+
+  it("should show the form again for invalid credentials", async () => {
+    const { res, redirect } = await authorizeAndConsent({
+      username: "alice",
+      password: "wrong",
+      action: "approve",
+    })
+
+    expect(redirect).toBeUndefined()
+    expect(res.status).toHaveBeenCalledWith(401)
+    expect(res.send.mock.calls[0][0]).toContain("Invalid username or password")
+  })
+
+  it("should redirect with access_denied when the user denies access", async () => {
+    const { redirect } = await authorizeAndConsent({ action: "deny" })
+
+    expect(redirect?.searchParams.get("error")).toBe("access_denied")
+    expect(redirect?.searchParams.get("code")).toBeNull()
+  })
+
+  it("should rotate refresh tokens", async () => {
+    const { redirect } = await authorizeAndConsent({
+      username: "alice",
+      password: "secret",
+      action: "approve",
+    })
+    const tokens = await provider.exchangeAuthorizationCode(
+      client,
+      redirect!.searchParams.get("code")!,
+    )
+
+    const refreshed = await provider.exchangeRefreshToken(client, tokens.refresh_token!)
+    expect(refreshed.access_token).not.toBe(tokens.access_token)
+    await expect(provider.exchangeRefreshToken(client, tokens.refresh_token!)).rejects.toThrow(
+      InvalidGrantError,
+    )
+  })
+
+  it("should reject revoked and unknown access tokens", async () => {
+    const { redirect } = await authorizeAndConsent({
+      username: "alice",
+      password: "secret",
+      action: "approve",
+    })
+    const tokens = await provider.exchangeAuthorizationCode(
+      client,
+      redirect!.searchParams.get("code")!,
+    )
+
+    await provider.revokeToken(client, { token: tokens.access_token })
+
+    await expect(provider.verifyAccessToken(tokens.access_token)).rejects.toThrow(InvalidTokenError)
+    await expect(provider.verifyAccessToken("unknown")).rejects.toThrow(InvalidTokenError)
+  })
+})
+
+describe("IntrospectionTokenVerifier", () => {
+  const verifier = new IntrospectionTokenVerifier({
+    introspectionUrl: new URL("https://issuer.example.com/introspect"),
+    clientId: "mcp-picnic",
+    clientSecret: "secret",
+    audience: "https://picnic.example.com/",
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function stubIntrospection(body: unknown, status = 200) {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+    })
+    vi.stubGlobal("fetch", fetchMock)
+    return fetchMock
+  }
+
+  it("should map an active token to auth info", async () => {
+    const fetchMock = stubIntrospection({
+      active: true,
+      scope: `${READ_SCOPE} ${WRITE_SCOPE}`,
+      client_id: "connector",
+      sub: "user-1",
+      exp: 2000000000,
+      aud: "https://picnic.example.com/",
+    })
+
+    const authInfo = await verifier.verifyAccessToken("token-1")
+
+    expect(authInfo).toEqual({
+      token: "token-1",
+      clientId: "connector",
+      scopes: [READ_SCOPE, WRITE_SCOPE],
+      expiresAt: 2000000000,
+      extra: { subject: "user-1" },
+    })
+    const [, init] = fetchMock.mock.calls[0]
+    expect(init.headers.Authorization).toBe(
+      `Basic ${Buffer.from("mcp-picnic:secret").toString("base64")}`,
+    )
+    expect(init.body.toString()).toBe("token=token-1&token_type_hint=access_token")
+  })
+
+  it("should reject inactive tokens and tokens for other resources", async () => {
+    stubIntrospection({ active: false })
+    await expect(verifier.verifyAccessToken("token-1")).rejects.toThrow(InvalidTokenError)
+
+    stubIntrospection({ active: true, aud: ["https://other.example.com/"] })
+    await expect(verifier.verifyAccessToken("token-1")).rejects.toThrow(InvalidTokenError)
+  })
+
+  it("should reject tokens without an audience or a client ID", async () => {
+    stubIntrospection({ active: true, client_id: "connector", sub: "user-1" })
+    await expect(verifier.verifyAccessToken("token-1")).rejects.toThrow(
+      "Access token was not issued for this resource",
+    )
+
+    stubIntrospection({ active: true, sub: "user-1", aud: "https://picnic.example.com/" })
+    await expect(verifier.verifyAccessToken("token-1")).rejects.toThrow(
+      "Access token has no client ID",
+    )
+  })
+
+  it("should accept tokens without an audience when none is configured", async () => {
+    const anyAudience = new IntrospectionTokenVerifier({
+      introspectionUrl: new URL("https://issuer.example.com/introspect"),
+    })
+    stubIntrospection({ active: true, client_id: "connector" })
+
+    await expect(anyAudience.verifyAccessToken("token-1")).resolves.toMatchObject({
+      clientId: "connector",
+    })
+  })
+
+  it("should not treat an unreachable issuer as an invalid token", async () => {
+    stubIntrospection({}, 503)
+
+    const error = await verifier.verifyAccessToken("token-1").catch((e) => e)
+    expect(error).not.toBeInstanceOf(InvalidTokenError)
+    expect(error.message).toContain("503")
+  })
+})
+
+describe("createOAuthRouter", () => {
+  it("should advertise the protected resource metadata of this server", () => {
+    const oauth = createOAuthRouter({
+      publicUrl: new URL("https://picnic.example.com"),
+      external: {
+        issuerUrl: new URL("https://issuer.example.com"),
+        introspectionUrl: new URL("https://issuer.example.com/introspect"),
+      },
+    })
+
+    expect(oauth.resourceMetadataUrl).toBe(
+      "https://picnic.example.com/.well-known/oauth-protected-resource",
+    )
+    expect(oauth.verifier).toBeInstanceOf(IntrospectionTokenVerifier)
+  })
+
+  it("should require a local user store or an external issuer", () => {
+    expect(() => createOAuthRouter({ publicUrl: new URL("https://picnic.example.com") })).toThrow(
+      expect.objectContaining({ code: ErrorCode.CONFIGURATION_ERROR }),
+    )
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach, vi } from "vitest"
+import {
+  ResultSetStore,
+  RESULT_SET_TTL_MS,
+  MAX_RESULT_SETS,
+} from "../../../src/utils/pagination.js"
+import { ErrorCode } from "../../../src/types/errors.js"
+
+describe("ResultSetStore", () => {
+  const items = ["a", "b", "c", "d", "e"]
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("should page through a result set without loading it again", async () => {
+    const store = new ResultSetStore()
+    const load = vi.fn().mockResolvedValue(items)
+
+    const first = await store.paginate("search:milk", { limit: 2 }, load)
+    expect(first.items).toEqual(["a", "b"])
+    expect(first.pagination).toEqual({
+      offset: 0,
+      limit: 2,
+      returned: 2,
+      total: 5,
+      hasMore: true,
+      nextCursor: expect.any(String),
+    })
+
+    const second = await store.paginate(
+      "search:milk",
+      { cursor: first.pagination.nextCursor, limit: 2 },
+      load,
+    )
+    const third = await store.paginate(
+      "search:milk",
+      { cursor: second.pagination.nextCursor, limit: 2 },
+      load,
+    )
+
+    expect(second.items).toEqual(["c", "d"])
+    expect(third.items).toEqual(["e"])
+    expect(third.pagination).toEqual({ offset: 4, limit: 2, returned: 1, total: 5, hasMore: false })
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it("should start at the offset when no cursor is given", async () => {
+    const store = new ResultSetStore()
+
+    const page = await store.paginate("search:milk", { offset: 3, limit: 5 }, async () => items)
+
+    expect(page.items).toEqual(["d", "e"])
+    expect(page.pagination.hasMore).toBe(false)
+  })
+
+  it("should reject invalid cursors and cursors of other requests", async () => {
+    const store = new ResultSetStore()
+    const first = await store.paginate("search:milk", { limit: 2 }, async () => items)
+
+    await expect(
+      store.paginate("search:bread", { cursor: first.pagination.nextCursor, limit: 2 }, vi.fn()),
+    ).rejects.toMatchObject({
+      code: ErrorCode.TOOL_VALIDATION_FAILED,
+      message: expect.stringContaining("different request"),
+    })
+    await expect(
+      store.paginate("search:milk", { cursor: "not-a-cursor", limit: 2 }, vi.fn()),
+    ).rejects.toThrow("Invalid pagination cursor")
+  })
+
+  it("should expire result sets", async () => {
+    vi.useFakeTimers()
+    const store = new ResultSetStore()
+    const first = await store.paginate("search:milk", { limit: 2 }, async () => items)
+
+    vi.advanceTimersByTime(RESULT_SET_TTL_MS)
+
+    await expect(
+      store.paginate("search:milk", { cursor: first.pagination.nextCursor, limit: 2 }, vi.fn()),
+    ).rejects.toThrow("Pagination cursor has expired")
+    expect(store.size).toBe(0)
+  })
+
+  it("should drop the least recently used result sets", async () => {
+    const store = new ResultSetStore()
+    const first = await store.paginate("search:0", { limit: 2 }, async () => items)
+    for (let i = 1; i <= MAX_RESULT_SETS; i++) {
+      await store.paginate(`search:${i}`, { limit: 2 }, async () => items)
+    }
+
+    expect(store.size).toBe(MAX_RESULT_SETS)
+    await expect(
+      store.paginate("search:0", { cursor: first.pagination.nextCursor, limit: 2 }, vi.fn()),
+    ).rejects.toThrow("Pagination cursor has expired")
+  })
+})
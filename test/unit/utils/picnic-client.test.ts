@@ -0,0 +1,547 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import PicnicClient from "picnic-api"
+import {
+  initializePicnicClient,
+  getPicnicClient,
+  resetPicnicClient,
+  isAuthenticationError,
+  getPicnicAuthState,
+  onPicnicAuthStateChange,
+  generateTwoFactorCode,
+  verifyTwoFactorCode,
+  getPicnicAccountNames,
+  initializeAllPicnicClients,
+  isAnyPicnicAccountAuthenticated,
+  PicnicAccount,
+  runWithPicnicAccount,
+  getDefaultPicnicAccountName,
+  getPicnicCacheStats,
+} from "../../../src/utils/picnic-client"
+import { AuthError, MCPError, ErrorCode } from "../../../src/types/errors"
+
+const { mockSessionStore } = vi.hoisted(() => ({
+  mockSessionStore: {
+    load: vi.fn(),
+    save: vi.fn(),
+    clear: vi.fn(),
+  },
+}))
+
+vi.mock("../../../src/config", () => ({
+  config: {
+    PICNIC_PERSIST_SESSION: true,
+    PICNIC_DATA_DIR: "/tmp/mcp-picnic-test",
+    PICNIC_CACHE_MAX_ENTRIES: 0,
+  },
+  picnicAccounts: [
+    { name: "nl", username: "user@example.com", password: "secret", countryCode: "NL" },
+    { name: "de", username: "user@example.com", password: "secret-de", countryCode: "DE" },
+  ],
+  defaultPicnicAccount: "nl",
+}))
+
+vi.mock("../../../src/utils/session-store", () => ({
+  SessionStore: vi.fn().mockImplementation(() => mockSessionStore),
+}))
+
+vi.mock("picnic-api", () => ({
+  default: vi.fn().mockImplementation((options: { authKey?: string } = {}) => ({
+    authKey: options.authKey ?? null,
+    login: vi.fn(),
+    getUserDetails: vi.fn(),
+    getShoppingCart: vi.fn(),
+    addProductToShoppingCart: vi.fn(),
+    getDelivery: vi.fn(),
+    getDeliveryScenario: vi.fn(),
+    getDeliveryPosition: vi.fn(),
+    sendRequest: vi.fn(),
+    generate2FACode: vi.fn().mockResolvedValue(null),
+    verify2FACode: vi.fn().mockResolvedValue(null),
+  })),
+}))
+
+type MockClient = {
+  authKey: string | null
+  login: ReturnType<typeof vi.fn>
+  getUserDetails: ReturnType<typeof vi.fn>
+  getShoppingCart: ReturnType<typeof vi.fn>
+  addProductToShoppingCart: ReturnType<typeof vi.fn>
+  getDelivery: ReturnType<typeof vi.fn>
+  sendRequest: ReturnType<typeof vi.fn>
+  generate2FACode: ReturnType<typeof vi.fn>
+  verify2FACode: ReturnType<typeof vi.fn>
+}
+
+function lastCreatedClient(): MockClient {
+  const results = vi.mocked(PicnicClient).mock.results
+  return results[results.length - 1].value as MockClient
+}
+
+describe("picnic-client", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetPicnicClient()
+    mockSessionStore.load.mockResolvedValue(null)
+    mockSessionStore.save.mockResolvedValue(undefined)
+    mockSessionStore.clear.mockResolvedValue(undefined)
+  })
+
+  describe("isAuthenticationError", () => {
+    it("should detect 401 and 403 responses", () => {
+      expect(isAuthenticationError(new Error("401 Unauthorized"))).toBe(true)
+      expect(isAuthenticationError(new Error("403 Forbidden"))).toBe(true)
+    })
+
+    it("should not treat other failures as authentication errors", () => {
+      expect(isAuthenticationError(new Error("500 Internal Server Error"))).toBe(false)
+      expect(isAuthenticationError(new Error("fetch failed"))).toBe(false)
+    })
+  })
+
+  describe("initializePicnicClient", () => {
+    it("should log in and persist the auth key when no session is stored", async () => {
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: null,
+            login: vi.fn().mockImplementation(async function (this: MockClient) {
+              this.authKey = "fresh-key"
+              return { second_factor_authentication_required: false }
+            }),
+            getUserDetails: vi.fn(),
+          }) as any,
+      )
+
+      await initializePicnicClient()
+
+      expect(lastCreatedClient().login).toHaveBeenCalledWith("user@example.com", "secret")
+      expect(mockSessionStore.save).toHaveBeenCalledWith("user@example.com", "NL", "fresh-key")
+    })
+
+    it("should reuse a stored auth key without logging in", async () => {
+      mockSessionStore.load.mockResolvedValue({ authKey: "stored-key" })
+
+      await initializePicnicClient()
+
+      const client = lastCreatedClient()
+      expect(PicnicClient).toHaveBeenCalledWith(expect.objectContaining({ authKey: "stored-key" }))
+      expect(client.getUserDetails).toHaveBeenCalled()
+      expect(client.login).not.toHaveBeenCalled()
+    })
+
+    it("should fall back to a fresh login when the stored key is rejected", async () => {
+      mockSessionStore.load.mockResolvedValue({ authKey: "stale-key" })
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: "stale-key",
+            login: vi.fn(),
+            getUserDetails: vi.fn().mockRejectedValue(new Error("401 Unauthorized")),
+          }) as any,
+      )
+
+      await initializePicnicClient()
+
+      expect(mockSessionStore.clear).toHaveBeenCalledWith("user@example.com", "NL")
+      expect(PicnicClient).toHaveBeenCalledTimes(2)
+      expect(lastCreatedClient().login).toHaveBeenCalledWith("user@example.com", "secret")
+    })
+
+    it("should not log in again when the stored key check fails for other reasons", async () => {
+      mockSessionStore.load.mockResolvedValue({ authKey: "stored-key" })
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: "stored-key",
+            login: vi.fn(),
+            getUserDetails: vi.fn().mockRejectedValue(new Error("fetch failed")),
+          }) as any,
+      )
+
+      await expect(initializePicnicClient()).rejects.toThrow("fetch failed")
+      expect(mockSessionStore.clear).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("re-authentication", () => {
+    beforeEach(async () => {
+      await initializePicnicClient()
+    })
+
+    it("should re-login and retry once when the session expired", async () => {
+      const client = lastCreatedClient()
+      client.getShoppingCart
+        .mockRejectedValueOnce(new Error("401 Unauthorized"))
+        .mockResolvedValueOnce({ items: [] })
+      client.login.mockClear()
+
+      const cart = await getPicnicClient().getShoppingCart()
+
+      expect(cart).toEqual({ items: [] })
+      expect(client.login).toHaveBeenCalledTimes(1)
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(2)
+    })
+
+    it("should prefer a newer stored auth key over logging in", async () => {
+      const client = lastCreatedClient()
+      client.authKey = "expired-key"
+      client.getShoppingCart
+        .mockRejectedValueOnce(new Error("401 Unauthorized"))
+        .mockResolvedValueOnce({ items: [] })
+      client.login.mockClear()
+      mockSessionStore.load.mockResolvedValue({ authKey: "newer-key" })
+
+      await getPicnicClient().getShoppingCart()
+
+      expect(client.authKey).toBe("newer-key")
+      expect(client.login).not.toHaveBeenCalled()
+    })
+
+    it("should share a single re-login between concurrent calls", async () => {
+      const client = lastCreatedClient()
+      client.getShoppingCart
+        .mockRejectedValueOnce(new Error("401 Unauthorized"))
+        .mockRejectedValueOnce(new Error("401 Unauthorized"))
+        .mockResolvedValue({ items: [] })
+      client.login.mockClear()
+
+      await Promise.all([getPicnicClient().getShoppingCart(), getPicnicClient().getShoppingCart()])
+
+      expect(client.login).toHaveBeenCalledTimes(1)
+    })
+
+    it("should throw an AuthError when re-login fails", async () => {
+      const client = lastCreatedClient()
+      client.getShoppingCart.mockRejectedValue(new Error("401 Unauthorized"))
+      client.login.mockRejectedValue(new Error("Login failed: Invalid credentials"))
+
+      const error = await getPicnicClient()
+        .getShoppingCart()
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(AuthError)
+      expect(error.code).toBe(ErrorCode.AUTH_FAILED)
+    })
+
+    it("should throw an AuthError when the retried call is still rejected", async () => {
+      const client = lastCreatedClient()
+      client.getShoppingCart.mockRejectedValue(new Error("401 Unauthorized"))
+
+      const error = await getPicnicClient()
+        .getShoppingCart()
+        .catch((e) => e)
+
+      expect(error).toBeInstanceOf(AuthError)
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(2)
+    })
+
+    it("should not retry errors unrelated to authentication", async () => {
+      const client = lastCreatedClient()
+      client.getShoppingCart.mockRejectedValue(new Error("500 Internal Server Error"))
+      client.login.mockClear()
+
+      await expect(getPicnicClient().getShoppingCart()).rejects.toThrow("500")
+      expect(client.login).not.toHaveBeenCalled()
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("two-factor authentication", () => {
+    function mockLoginRequiring2FA() {
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: null,
+            login: vi.fn().mockImplementation(async function (this: MockClient) {
+              this.authKey = "pending-key"
+              return { second_factor_authentication_required: true }
+            }),
+            getUserDetails: vi.fn(),
+            generate2FACode: vi.fn().mockResolvedValue(null),
+            verify2FACode: vi.fn().mockResolvedValue(null),
+          }) as any,
+      )
+    }
+
+    it("should start in a pending state without persisting the key when 2FA is required", async () => {
+      mockLoginRequiring2FA()
+
+      await initializePicnicClient()
+
+      expect(getPicnicAuthState()).toBe("pending_verification")
+      expect(mockSessionStore.save).not.toHaveBeenCalled()
+      expect(() => getPicnicClient()).toThrow(AuthError)
+    })
+
+    it("should log in first when generating a code before any login attempt", async () => {
+      mockLoginRequiring2FA()
+
+      await generateTwoFactorCode("SMS")
+
+      const client = lastCreatedClient()
+      expect(client.login).toHaveBeenCalled()
+      expect(client.generate2FACode).toHaveBeenCalledWith("SMS")
+    })
+
+    it("should become authenticated and persist the key after verification", async () => {
+      mockLoginRequiring2FA()
+      const listener = vi.fn()
+      const unsubscribe = onPicnicAuthStateChange(listener)
+
+      await initializePicnicClient()
+      await verifyTwoFactorCode("123456")
+      unsubscribe()
+
+      expect(lastCreatedClient().verify2FACode).toHaveBeenCalledWith("123456")
+      expect(getPicnicAuthState()).toBe("authenticated")
+      expect(listener).toHaveBeenLastCalledWith("authenticated", "nl")
+      expect(mockSessionStore.save).toHaveBeenCalledWith("user@example.com", "NL", "pending-key")
+      expect(getPicnicClient()).toBeDefined()
+    })
+
+    it("should stay pending when verification is rejected", async () => {
+      mockLoginRequiring2FA()
+      await initializePicnicClient()
+      lastCreatedClient().verify2FACode.mockResolvedValue({
+        code: "OTP_INVALID",
+        message: "Invalid code",
+        details: null,
+      })
+
+      await expect(verifyTwoFactorCode("000000")).rejects.toThrow(AuthError)
+      expect(getPicnicAuthState()).toBe("pending_verification")
+    })
+  })
+
+  describe("multiple accounts", () => {
+    it("should list the configured accounts", () => {
+      expect(getPicnicAccountNames()).toEqual(["nl", "de"])
+    })
+
+    it("should keep a separate client per account", async () => {
+      await initializePicnicClient("nl")
+      const nlClient = lastCreatedClient()
+      await initializePicnicClient("de")
+      const deClient = lastCreatedClient()
+
+      expect(nlClient).not.toBe(deClient)
+      expect(deClient.login).toHaveBeenCalledWith("user@example.com", "secret-de")
+      expect(PicnicClient).toHaveBeenLastCalledWith(expect.objectContaining({ countryCode: "DE" }))
+
+      deClient.getShoppingCart.mockResolvedValue({ items: ["de"] })
+      expect(await getPicnicClient("de").getShoppingCart()).toEqual({ items: ["de"] })
+      expect(nlClient.getShoppingCart).not.toHaveBeenCalled()
+    })
+
+    it("should use the default account when no name is given", async () => {
+      await initializePicnicClient()
+
+      expect(getPicnicAuthState()).toBe("authenticated")
+      expect(getPicnicAuthState("nl")).toBe("authenticated")
+      expect(getPicnicAuthState("de")).toBe("unauthenticated")
+    })
+
+    it("should reject unknown account names", () => {
+      const error = (() => {
+        try {
+          getPicnicClient("fr")
+        } catch (e) {
+          return e
+        }
+      })() as MCPError
+
+      expect(error).toBeInstanceOf(MCPError)
+      expect(error.code).toBe(ErrorCode.INVALID_REQUEST)
+      expect(error.details).toMatchObject({ availableAccounts: ["nl", "de"] })
+    })
+
+    it("should initialize all accounts even when one login fails", async () => {
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: null,
+            login: vi.fn().mockRejectedValue(new Error("Login failed: Invalid credentials")),
+          }) as any,
+      )
+
+      await initializeAllPicnicClients()
+
+      expect(getPicnicAuthState("nl")).toBe("unauthenticated")
+      expect(getPicnicAuthState("de")).toBe("authenticated")
+      expect(isAnyPicnicAccountAuthenticated()).toBe(true)
+    })
+
+    it("should report auth state changes with the account name", async () => {
+      const listener = vi.fn()
+      const unsubscribe = onPicnicAuthStateChange(listener)
+
+      await initializePicnicClient("de")
+      unsubscribe()
+
+      expect(listener).toHaveBeenCalledWith("authenticated", "de")
+    })
+  })
+
+  describe("session accounts", () => {
+    it("should use a given auth key without logging in or touching the session store", async () => {
+      const account = new PicnicAccount(
+        "session",
+        { authKey: "client-key", countryCode: "NL" },
+        { persistSession: false },
+      )
+
+      await account.initialize()
+
+      const client = lastCreatedClient()
+      expect(PicnicClient).toHaveBeenCalledWith(expect.objectContaining({ authKey: "client-key" }))
+      expect(client.login).not.toHaveBeenCalled()
+      expect(account.getAuthState()).toBe("authenticated")
+      expect(mockSessionStore.load).not.toHaveBeenCalled()
+    })
+
+    it("should not persist the auth key after logging in", async () => {
+      const account = new PicnicAccount(
+        "session",
+        { username: "tenant@example.com", password: "tenant-secret", countryCode: "DE" },
+        { persistSession: false },
+      )
+
+      await account.initialize()
+
+      expect(lastCreatedClient().login).toHaveBeenCalledWith("tenant@example.com", "tenant-secret")
+      expect(mockSessionStore.save).not.toHaveBeenCalled()
+    })
+
+    it("should fail with an AuthError when a rejected auth key cannot be replaced", async () => {
+      vi.mocked(PicnicClient).mockImplementationOnce(
+        () =>
+          ({
+            authKey: "client-key",
+            login: vi.fn(),
+            getUserDetails: vi.fn().mockRejectedValue(new Error("401 Unauthorized")),
+          }) as any,
+      )
+      const account = new PicnicAccount(
+        "session",
+        { authKey: "client-key", countryCode: "NL" },
+        { persistSession: false },
+      )
+
+      await expect(account.initialize()).rejects.toMatchObject({ code: ErrorCode.AUTH_FAILED })
+      expect(account.getAuthState()).toBe("unauthenticated")
+    })
+
+    it("should resolve only the bound account while running with it", async () => {
+      const account = new PicnicAccount(
+        "session",
+        { authKey: "client-key", countryCode: "NL" },
+        { persistSession: false },
+      )
+      await account.initialize()
+      const sessionClient = lastCreatedClient()
+      sessionClient.getShoppingCart.mockResolvedValue({ items: ["session"] })
+
+      await runWithPicnicAccount(account, async () => {
+        expect(getPicnicAccountNames()).toEqual(["session"])
+        expect(getDefaultPicnicAccountName()).toBe("session")
+        expect(isAnyPicnicAccountAuthenticated()).toBe(true)
+        expect(await getPicnicClient().getShoppingCart()).toEqual({ items: ["session"] })
+        expect(() => getPicnicClient("nl")).toThrow(MCPError)
+      })
+
+      expect(getPicnicAccountNames()).toEqual(["nl", "de"])
+      expect(isAnyPicnicAccountAuthenticated()).toBe(false)
+    })
+
+    it("should drop the client and listeners when disposed", async () => {
+      const account = new PicnicAccount(
+        "session",
+        { authKey: "client-key", countryCode: "NL" },
+        { persistSession: false },
+      )
+      await account.initialize()
+      const listener = vi.fn()
+      account.onAuthStateChange(listener)
+
+      account.dispose()
+
+      expect(account.getAuthState()).toBe("unauthenticated")
+      expect(() => account.getClient()).toThrow()
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("response cache", () => {
+    let account: PicnicAccount
+    let client: MockClient
+
+    beforeEach(async () => {
+      account = new PicnicAccount(
+        "cached",
+        { authKey: "client-key", countryCode: "NL" },
+        {
+          persistSession: false,
+          cache: { ttls: { getShoppingCart: 30000, getDelivery: 60000 }, maxEntries: 10 },
+        },
+      )
+      await account.initialize()
+      client = lastCreatedClient()
+      client.getShoppingCart.mockResolvedValue({ items: [] })
+    })
+
+    it("should serve repeated reads from the cache", async () => {
+      await account.getClient().getShoppingCart()
+      const cart = await account.getClient().getShoppingCart()
+
+      expect(cart).toEqual({ items: [] })
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(1)
+      expect(account.cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 })
+    })
+
+    it("should invalidate cached reads after a cart change", async () => {
+      await account.getClient().getShoppingCart()
+      await account.getClient().addProductToShoppingCart("s1", 1)
+      await account.getClient().getShoppingCart()
+
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(2)
+    })
+
+    it("should invalidate cached reads after requests that change data", async () => {
+      await account.getClient().getShoppingCart()
+      await account.getClient().sendRequest("GET", "/pages/meals-planner-root")
+      await account.getClient().getShoppingCart()
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(1)
+
+      await account.getClient().sendRequest("POST", "/cart/checkout/start", {})
+      await account.getClient().getShoppingCart()
+      expect(client.getShoppingCart).toHaveBeenCalledTimes(2)
+    })
+
+    it("should not serve cached deliveries to delivery tracking", async () => {
+      client.getDelivery.mockResolvedValue({ status: "CURRENT" })
+      await account.getClient().getDelivery("d1")
+
+      await account.deliveryTracker.getTracking("d1")
+
+      expect(client.getDelivery).toHaveBeenCalledTimes(2)
+    })
+
+    it("should be emptied when the account is disposed", async () => {
+      await account.getClient().getShoppingCart()
+
+      account.dispose()
+
+      expect(account.cache.getStats().entries).toBe(0)
+    })
+
+    it("should report statistics of the configured accounts", () => {
+      expect(getPicnicCacheStats()).toEqual({
+        entries: 0,
+        maxEntries: 0,
+        hits: 0,
+        misses: 0,
+        evictions: 0,
+      })
+    })
+  })
+})
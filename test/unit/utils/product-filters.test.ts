@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest"
+import {
+  filterProducts,
+  sortProducts,
+  rankByUnitPrice,
+} from "../../../src/utils/product-filters.js"
+
+const products = [
+  { name: "Oatly Haverdrink", price: "219", unit: "1 liter" },
+  { name: "Picnic haverdrink bio", price: "149", unit: "1 liter" },
+  { name: "Alpro haverdrink barista", price: "249", unit: "750 ml" },
+  { name: "Haverkoekjes", price: "129", unit: "per stuk" },
+  { name: "Haver onbekend", price: "", unit: "los" },
+]
+
+describe("filterProducts", () => {
+  it("should filter on price range", () => {
+    const result = filterProducts(products, { minPrice: 130, maxPrice: 220 })
+
+    expect(result.map((product) => product.name)).toEqual([
+      "Oatly Haverdrink",
+      "Picnic haverdrink bio",
+    ])
+  })
+
+  it("should filter on name terms case-insensitively", () => {
+    const result = filterProducts(products, { include: ["HAVERDRINK"], exclude: ["barista"] })
+
+    expect(result.map((product) => product.name)).toEqual([
+      "Oatly Haverdrink",
+      "Picnic haverdrink bio",
+    ])
+  })
+
+  it("should filter on unit type", () => {
+    expect(filterProducts(products, { unitType: "piece" })).toEqual([products[3]])
+  })
+
+  it("should keep everything without filters", () => {
+    expect(filterProducts(products, {})).toEqual(products)
+  })
+})
+
+describe("sortProducts", () => {
+  const names = (list: typeof products) => list.map((product) => product.name)
+
+  it("should sort by price and put products without a price last", () => {
+    expect(names(sortProducts(products, "price_asc"))).toEqual([
+      "Haverkoekjes",
+      "Picnic haverdrink bio",
+      "Oatly Haverdrink",
+      "Alpro haverdrink barista",
+      "Haver onbekend",
+    ])
+    expect(names(sortProducts(products, "price_desc"))[0]).toBe("Alpro haverdrink barista")
+    expect(names(sortProducts(products, "price_desc"))[4]).toBe("Haver onbekend")
+  })
+
+  it("should sort by price per unit", () => {
+    const drinks = products.slice(0, 3)
+
+    expect(names(sortProducts(drinks, "unit_price"))).toEqual([
+      "Picnic haverdrink bio",
+      "Oatly Haverdrink",
+      "Alpro haverdrink barista",
+    ])
+  })
+
+  it("should sort by name and keep Picnic's order for relevance", () => {
+    expect(names(sortProducts(products, "name"))[0]).toBe("Alpro haverdrink barista")
+    expect(sortProducts(products, "relevance")).toBe(products)
+  })
+})
+
+describe("rankByUnitPrice", () => {
+  it("should rank products per unit type and leave out unknown units", () => {
+    const { rankings, unranked } = rankByUnitPrice(products)
+
+    expect(rankings).toEqual([
+      {
+        unitType: "volume",
+        products: [
+          { product: products[1], rank: 1, unitPrice: 149 },
+          { product: products[0], rank: 2, unitPrice: 219 },
+          { product: products[2], rank: 3, unitPrice: 332 },
+        ],
+      },
+      { unitType: "piece", products: [{ product: products[3], rank: 1, unitPrice: 129 }] },
+    ])
+    expect(unranked).toEqual([products[4]])
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest"
+import { ProductIndex, MAX_INDEXED_PRODUCTS } from "../../../src/utils/product-index.js"
+
+describe("ProductIndex", () => {
+  it("should look up the latest version of a product", () => {
+    const index = new ProductIndex()
+
+    index.add([{ id: "s1", name: "Halfvolle melk", price: 119, unit: "1 liter" }])
+    index.add([{ id: "s1", name: "Halfvolle melk", price: 109, unit: "1 liter" }])
+
+    expect(index.get("s1")?.price).toBe(109)
+    expect(index.get("s2")).toBeUndefined()
+  })
+
+  it("should drop the least recently seen products", () => {
+    const index = new ProductIndex()
+    const products = Array.from({ length: MAX_INDEXED_PRODUCTS + 1 }, (_, i) => ({
+      id: `s${i}`,
+      name: `Product ${i}`,
+    }))
+
+    index.add(products)
+
+    expect(index.size).toBe(MAX_INDEXED_PRODUCTS)
+    expect(index.get("s0")).toBeUndefined()
+    expect(index.get(`s${MAX_INDEXED_PRODUCTS}`)).toBeDefined()
+  })
+})
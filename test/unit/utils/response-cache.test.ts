@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { ResponseCache } from "../../../src/utils/response-cache.js"
+
+describe("ResponseCache", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function createCache(maxEntries = 10) {
+    return new ResponseCache({ ttls: { search: 1000, getShoppingCart: 0 }, maxEntries })
+  }
+
+  it("should return cached responses until they expire", async () => {
+    vi.useFakeTimers()
+    const cache = createCache()
+    const load = vi.fn().mockResolvedValue(["milk"])
+
+    expect(await cache.getOrLoad("search", ["milk"], load)).toEqual(["milk"])
+    expect(await cache.getOrLoad("search", ["milk"], load)).toEqual(["milk"])
+    expect(load).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1000)
+    await cache.getOrLoad("search", ["milk"], load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+    expect(cache.getStats()).toEqual({
+      entries: 1,
+      maxEntries: 10,
+      hits: 1,
+      misses: 2,
+      evictions: 0,
+    })
+  })
+
+  it("should key responses by their arguments", async () => {
+    const cache = createCache()
+    const load = vi.fn().mockResolvedValue([])
+
+    await cache.getOrLoad("search", ["milk"], load)
+    await cache.getOrLoad("search", ["bread"], load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it("should not cache failed loads or methods without a TTL", async () => {
+    const cache = createCache()
+    const failing = vi.fn().mockRejectedValueOnce(new Error("fetch failed")).mockResolvedValue([])
+
+    await expect(cache.getOrLoad("search", ["milk"], failing)).rejects.toThrow("fetch failed")
+    await cache.getOrLoad("search", ["milk"], failing)
+    expect(failing).toHaveBeenCalledTimes(2)
+
+    const load = vi.fn().mockResolvedValue({ items: [] })
+    await cache.getOrLoad("getShoppingCart", [], load)
+    await cache.getOrLoad("getShoppingCart", [], load)
+    await cache.getOrLoad("getDeliveries", [], load)
+    expect(load).toHaveBeenCalledTimes(3)
+    expect(cache.getStats().entries).toBe(1)
+  })
+
+  it("should evict the least recently used entries", async () => {
+    const cache = createCache(2)
+    const load = vi.fn().mockResolvedValue([])
+
+    await cache.getOrLoad("search", ["a"], load)
+    await cache.getOrLoad("search", ["b"], load)
+    await cache.getOrLoad("search", ["a"], load)
+    await cache.getOrLoad("search", ["c"], load)
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 })
+
+    await cache.getOrLoad("search", ["a"], load)
+    expect(load).toHaveBeenCalledTimes(3)
+    await cache.getOrLoad("search", ["b"], load)
+    expect(load).toHaveBeenCalledTimes(4)
+  })
+
+  it("should drop invalidated and cleared entries", async () => {
+    const cache = new ResponseCache({
+      ttls: { search: 1000, getShoppingCart: 1000 },
+      maxEntries: 10,
+    })
+    const load = vi.fn().mockResolvedValue([])
+
+    await cache.getOrLoad("search", ["milk"], load)
+    await cache.getOrLoad("getShoppingCart", [], load)
+
+    cache.invalidate(["getShoppingCart"])
+    expect(cache.getStats().entries).toBe(1)
+
+    cache.clear()
+    expect(cache.getStats().entries).toBe(0)
+  })
+})
@@ -46,9 +46,10 @@ describe("createMCPServer", () => {
     })
     // @ts-expect-error - private property access
     expect(server.init.capabilities).toEqual({
-      tools: mockToolDefinitions,
+      tools: { ...mockToolDefinitions, listChanged: true },
       prompts: mockPromptDefinitions,
-      resources: mockResourceDefinitions,
+      resources: { ...mockResourceDefinitions, subscribe: true },
+      logging: {},
     })
   })
 
@@ -72,7 +73,8 @@ describe("createMCPServer", () => {
     expect(server.init.capabilities).toEqual({
       tools: { CUSTOM_TOOL: {} },
       prompts: mockPromptDefinitions,
-      resources: mockResourceDefinitions,
+      resources: { ...mockResourceDefinitions, subscribe: true },
+      logging: {},
     })
   })
 
@@ -87,9 +89,10 @@ describe("createMCPServer", () => {
 
     // @ts-expect-error - private property access
     expect(server.init.capabilities).toEqual({
-      tools: mockToolDefinitions,
+      tools: { ...mockToolDefinitions, listChanged: true },
       prompts: { CUSTOM_PROMPT: {} },
-      resources: mockResourceDefinitions,
+      resources: { ...mockResourceDefinitions, subscribe: true },
+      logging: {},
       extra: "capability",
     })
   })
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { SessionStore } from "../../../src/utils/session-store"
+
+describe("SessionStore", () => {
+  let tempDir: string
+  let filePath: string
+  let store: SessionStore
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picnic-session-"))
+    filePath = path.join(tempDir, "nested", "session.json")
+    store = new SessionStore(filePath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  describe("load", () => {
+    it("should return null when no session file exists", async () => {
+      expect(await store.load("user@example.com", "NL")).toBeNull()
+    })
+
+    it("should treat a corrupt session file as empty", async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, "not json")
+
+      expect(await store.load("user@example.com", "NL")).toBeNull()
+    })
+  })
+
+  describe("save", () => {
+    it("should persist the auth key and load it back", async () => {
+      await store.save("user@example.com", "NL", "auth-key-1")
+
+      const session = await store.load("user@example.com", "NL")
+      expect(session).toMatchObject({
+        authKey: "auth-key-1",
+        username: "user@example.com",
+        countryCode: "NL",
+      })
+      expect(session?.savedAt).toEqual(expect.any(String))
+    })
+
+    it("should keep sessions separate per account and country", async () => {
+      await store.save("user@example.com", "NL", "nl-key")
+      await store.save("user@example.com", "DE", "de-key")
+      await store.save("other@example.com", "NL", "other-key")
+
+      expect((await store.load("user@example.com", "NL"))?.authKey).toBe("nl-key")
+      expect((await store.load("user@example.com", "DE"))?.authKey).toBe("de-key")
+      expect((await store.load("other@example.com", "NL"))?.authKey).toBe("other-key")
+    })
+
+    it("should match usernames case-insensitively", async () => {
+      await store.save("User@Example.com", "NL", "auth-key")
+
+      expect((await store.load("user@example.com", "NL"))?.authKey).toBe("auth-key")
+    })
+
+    it("should overwrite a previous session for the same account", async () => {
+      await store.save("user@example.com", "NL", "old-key")
+      await store.save("user@example.com", "NL", "new-key")
+
+      expect((await store.load("user@example.com", "NL"))?.authKey).toBe("new-key")
+    })
+
+    it.skipIf(process.platform === "win32")(
+      "should restrict file and directory permissions to the current user",
+      async () => {
+        await store.save("user@example.com", "NL", "auth-key")
+
+        const fileStat = await fs.stat(filePath)
+        const dirStat = await fs.stat(path.dirname(filePath))
+        expect(fileStat.mode & 0o777).toBe(0o600)
+        expect(dirStat.mode & 0o777).toBe(0o700)
+      },
+    )
+
+    it("should not leave temporary files behind", async () => {
+      await store.save("user@example.com", "NL", "auth-key")
+
+      const files = await fs.readdir(path.dirname(filePath))
+      expect(files).toEqual(["session.json"])
+    })
+  })
+
+  describe("clear", () => {
+    it("should remove only the given account's session", async () => {
+      await store.save("user@example.com", "NL", "nl-key")
+      await store.save("other@example.com", "NL", "other-key")
+
+      await store.clear("user@example.com", "NL")
+
+      expect(await store.load("user@example.com", "NL")).toBeNull()
+      expect((await store.load("other@example.com", "NL"))?.authKey).toBe("other-key")
+    })
+
+    it("should not create a session file when nothing is stored", async () => {
+      await store.clear("user@example.com", "NL")
+
+      await expect(fs.access(filePath)).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { SlotPreferenceStore, rankSlots } from "../../../src/utils/slot-preferences"
+
+// 2026-06-04 is a Thursday
+const slots = [
+  {
+    slot_id: "thu-morning",
+    window_start: "2026-06-04T08:00:00.000+02:00",
+    window_end: "2026-06-04T10:00:00.000+02:00",
+  },
+  {
+    slot_id: "thu-evening",
+    window_start: "2026-06-04T18:00:00.000+02:00",
+    window_end: "2026-06-04T20:00:00.000+02:00",
+  },
+  {
+    slot_id: "sat-evening",
+    window_start: "2026-06-06T19:00:00.000+02:00",
+    window_end: "2026-06-06T21:00:00.000+02:00",
+  },
+  {
+    slot_id: "sun-afternoon",
+    window_start: "2026-06-07T16:00:00.000+02:00",
+    window_end: "2026-06-07T18:00:00.000+02:00",
+  },
+]
+
+describe("rankSlots", () => {
+  it("should order slots by time without preferences", () => {
+    const ranking = rankSlots([...slots].reverse(), {})
+
+    expect(ranking.map((slot) => slot.slot_id)).toEqual([
+      "thu-morning",
+      "thu-evening",
+      "sat-evening",
+      "sun-afternoon",
+    ])
+    expect(ranking[0]).toMatchObject({
+      date: "2026-06-04",
+      weekday: "thursday",
+      start: "08:00",
+      end: "10:00",
+      score: 0,
+      excluded: false,
+      reasons: [],
+    })
+  })
+
+  it("should score preferred weekdays and time windows and explain the score", () => {
+    const ranking = rankSlots(slots, {
+      weekdays: ["saturday", "sunday"],
+      timeWindows: [{ from: "17:00", to: "21:00" }],
+    })
+
+    expect(ranking.map((slot) => [slot.slot_id, slot.score])).toEqual([
+      ["sat-evening", 4],
+      ["sun-afternoon", 3],
+      ["thu-evening", 2],
+      ["thu-morning", 0],
+    ])
+    expect(ranking[1].reasons).toEqual([
+      "sunday is a preferred day",
+      "16:00-18:00 is partly within the preferred 17:00-21:00",
+    ])
+    expect(ranking[3].reasons).toEqual([
+      "thursday is not a preferred day",
+      "08:00-10:00 is outside the preferred time windows",
+    ])
+  })
+
+  it("should rank slots outside the allowed dates last", () => {
+    const ranking = rankSlots(slots, {
+      weekdays: ["thursday", "saturday"],
+      earliestDate: "2026-06-05",
+      avoidDates: ["2026-06-06"],
+    })
+
+    expect(ranking.map((slot) => [slot.slot_id, slot.excluded])).toEqual([
+      ["sun-afternoon", false],
+      ["thu-morning", true],
+      ["thu-evening", true],
+      ["sat-evening", true],
+    ])
+    expect(ranking[1].reasons[0]).toBe("2026-06-04 is before the earliest date 2026-06-05")
+    expect(ranking[3].reasons[0]).toBe("2026-06-06 is a date to avoid")
+  })
+})
+
+describe("SlotPreferenceStore", () => {
+  let tempDir: string
+  let filePath: string
+  let store: SlotPreferenceStore
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "picnic-slot-preferences-"))
+    filePath = path.join(tempDir, "nested", "slot-preferences.json")
+    store = new SlotPreferenceStore(filePath)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it("should persist preferences per user", async () => {
+    await store.save("user-1", { weekdays: ["saturday"] })
+
+    expect(await new SlotPreferenceStore(filePath).load("user-1")).toEqual({
+      weekdays: ["saturday"],
+    })
+    expect(await store.load("user-2")).toEqual({})
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600)
+  })
+
+  it("should remove preferences when saving empty ones", async () => {
+    await store.save("user-1", { weekdays: ["saturday"] })
+    await store.save("user-1", { weekdays: [] })
+
+    const file = JSON.parse(await fs.readFile(filePath, "utf8"))
+    expect(file.users).toEqual({})
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { SlotWatcher } from "../../../src/utils/slot-watcher"
+
+// 2026-06-06 is a Saturday
+function slot(id: string, start: string, end: string, isAvailable = true) {
+  return {
+    slot_id: id,
+    window_start: `2026-06-06T${start}:00.000+02:00`,
+    window_end: `2026-06-06T${end}:00.000+02:00`,
+    is_available: isAvailable,
+  }
+}
+
+describe("SlotWatcher", () => {
+  const getDeliverySlots = vi.fn()
+  const setDeliverySlot = vi.fn()
+  const filter = { weekdays: ["saturday" as const], timeWindows: [{ from: "08:00", to: "12:00" }] }
+  let watcher: SlotWatcher
+
+  beforeEach(() => {
+    getDeliverySlots.mockReset()
+    setDeliverySlot.mockReset().mockResolvedValue({})
+    watcher = new SlotWatcher(() => ({ getDeliverySlots, setDeliverySlot }))
+  })
+
+  afterEach(() => {
+    watcher.stop()
+  })
+
+  it("should return the slots already matching when the watch starts", async () => {
+    getDeliverySlots.mockResolvedValue({
+      delivery_slots: [slot("morning", "09:00", "11:00"), slot("evening", "18:00", "20:00")],
+    })
+
+    const matches = await watcher.start({ filter, intervalMs: 60_000, autoBook: false })
+
+    expect(matches.map((match) => match.slot_id)).toEqual(["morning"])
+    expect(watcher.getStatus()).toMatchObject({ active: true, checks: 1 })
+  })
+
+  it("should not report a watch as active when its first check fails", async () => {
+    getDeliverySlots.mockRejectedValue(new Error("Picnic unavailable"))
+
+    await expect(watcher.start({ filter, intervalMs: 60_000, autoBook: false })).rejects.toThrow(
+      "Picnic unavailable",
+    )
+
+    expect(watcher.getStatus()).toMatchObject({ active: false, lastError: "Picnic unavailable" })
+    expect(watcher.stop()).toBe(false)
+  })
+
+  it("should report matching slots that became available since the previous check", async () => {
+    const listener = vi.fn()
+    watcher.onMatch(listener)
+    getDeliverySlots.mockResolvedValueOnce({
+      delivery_slots: [slot("morning", "09:00", "11:00", false), slot("evening", "18:00", "20:00")],
+    })
+    await watcher.start({ filter, intervalMs: 60_000, autoBook: false })
+
+    getDeliverySlots.mockResolvedValue({
+      delivery_slots: [slot("morning", "09:00", "11:00"), slot("evening", "18:00", "20:00")],
+    })
+    await watcher.check()
+    await watcher.check()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0].slots).toMatchObject([{ slot_id: "morning", score: 4 }])
+    expect(setDeliverySlot).not.toHaveBeenCalled()
+  })
+
+  it("should book the best new slot and stop when booking automatically", async () => {
+    const listener = vi.fn()
+    watcher.onMatch(listener)
+    getDeliverySlots.mockResolvedValueOnce({ delivery_slots: [] })
+    await watcher.start({ filter, intervalMs: 60_000, autoBook: true })
+
+    getDeliverySlots.mockResolvedValue({ delivery_slots: [slot("morning", "09:00", "11:00")] })
+    await watcher.check()
+
+    expect(setDeliverySlot).toHaveBeenCalledWith("morning")
+    expect(listener.mock.calls[0][0]).toMatchObject({ bookedSlotId: "morning" })
+    expect(watcher.getStatus()).toMatchObject({ active: false, bookedSlotId: "morning" })
+  })
+
+  it("should poll on the interval and keep the last error", async () => {
+    vi.useFakeTimers()
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+    try {
+      getDeliverySlots.mockResolvedValueOnce({ delivery_slots: [] })
+      await watcher.start({ filter, intervalMs: 60_000, autoBook: false })
+
+      getDeliverySlots.mockRejectedValue(new Error("Picnic unavailable"))
+      await vi.advanceTimersByTimeAsync(60_000)
+
+      expect(getDeliverySlots).toHaveBeenCalledTimes(2)
+      expect(watcher.getStatus()).toMatchObject({ active: true, lastError: "Picnic unavailable" })
+
+      expect(watcher.stop()).toBe(true)
+      await vi.advanceTimersByTimeAsync(60_000)
+      expect(getDeliverySlots).toHaveBeenCalledTimes(2)
+    } finally {
+      consoleSpy.mockRestore()
+      vi.useRealTimers()
+    }
+  })
+})
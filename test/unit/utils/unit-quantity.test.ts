@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest"
+import { parseUnitQuantity, getUnitPrice, getUnitPrices } from "../../../src/utils/unit-quantity.js"
+
+describe("parseUnitQuantity", () => {
+  it("should convert weights and volumes to kilograms and liters", () => {
+    expect(parseUnitQuantity("500 g")).toEqual({ type: "weight", amount: 0.5 })
+    expect(parseUnitQuantity("1,5 kg")).toEqual({ type: "weight", amount: 1.5 })
+    expect(parseUnitQuantity("750ml")).toEqual({ type: "volume", amount: 0.75 })
+    expect(parseUnitQuantity("1 Liter")).toEqual({ type: "volume", amount: 1 })
+  })
+
+  it("should multiply multipacks", () => {
+    expect(parseUnitQuantity("6 x 330 ml")).toEqual({ type: "volume", amount: 6 * 0.33 })
+    expect(parseUnitQuantity("4x125 gr")).toEqual({ type: "weight", amount: 0.5 })
+    expect(parseUnitQuantity("4 x 6 x 250 ml")).toEqual({ type: "volume", amount: 6 })
+  })
+
+  it("should count pieces in Dutch and German", () => {
+    expect(parseUnitQuantity("per stuk")).toEqual({ type: "piece", amount: 1 })
+    expect(parseUnitQuantity("10 Stück")).toEqual({ type: "piece", amount: 10 })
+    expect(parseUnitQuantity("ca. 6 eieren")).toEqual({ type: "piece", amount: 6 })
+  })
+
+  it("should return undefined for texts it doesn't understand", () => {
+    expect(parseUnitQuantity("los")).toBeUndefined()
+    expect(parseUnitQuantity("0 g")).toBeUndefined()
+    expect(parseUnitQuantity("")).toBeUndefined()
+    expect(parseUnitQuantity(undefined)).toBeUndefined()
+  })
+})
+
+describe("getUnitPrice", () => {
+  it("should divide the price by the quantity", () => {
+    expect(getUnitPrice(199, { type: "volume", amount: 0.5 })).toBe(398)
+  })
+})
+
+describe("getUnitPrices", () => {
+  it("should return the price per kg, liter or piece in whole cents", () => {
+    expect(getUnitPrices(249, "750 ml")).toEqual({ price_per_liter: 332 })
+    expect(getUnitPrices("179", "500 g")).toEqual({ price_per_kg: 358 })
+    expect(getUnitPrices(399, "6 stuks")).toEqual({ price_per_piece: 67 })
+  })
+
+  it("should be empty when the price or unit is unknown", () => {
+    expect(getUnitPrices(undefined, "1 liter")).toEqual({})
+    expect(getUnitPrices(199, "los")).toEqual({})
+  })
+})